@@ -17,6 +17,11 @@ import {
   Info,
   CalendarClock,
   ShieldCheck,
+  History,
+  ScrollText,
+  Download,
+  Upload,
+  CloudOff,
 } from "lucide-react";
 import { Button } from "./components/Button";
 import { GridBoard } from "./components/GridBoard";
@@ -24,30 +29,145 @@ import { EditModal } from "./components/EditModal";
 import { AuthModal } from "./components/AuthModal";
 import { WinnerModal } from "./components/WinnerModal";
 import { SquareDetailsModal } from "./components/SquareDetailsModal";
+import { PayoutRulesEditor } from "./components/PayoutRulesEditor";
+import { GameSettingsPanel } from "./components/GameSettingsPanel";
+import { DrawVerificationPanel } from "./components/DrawVerificationPanel";
+import { ClaimQueuePanel } from "./components/ClaimQueuePanel";
+import { PaymentLedgerPanel } from "./components/PaymentLedgerPanel";
+import { ConflictModal } from "./components/ConflictModal";
+import { BoardHistoryPanel } from "./components/BoardHistoryPanel";
+import { AuditLogPanel } from "./components/AuditLogPanel";
+import { BoardImportModal } from "./components/BoardImportModal";
+import { BoardDirectory } from "./components/BoardDirectory";
+import { LiveSessionPanel } from "./components/LiveSessionPanel";
+import { FinalScoreProposalBanner } from "./components/FinalScoreProposalBanner";
+import { PeriodScoreCapturePanel } from "./components/PeriodScoreCapturePanel";
+import type { LiveReplayFrame } from "./components/LiveSessionPanel";
 import { INITIAL_COLS, INITIAL_ROWS, NFL_TEAMS } from "./constants";
 import { buildSquareOdds } from "./services/squareOddsService";
 import {
+  AdminSession,
+  AuditEntry,
+  BoardConflict,
+  BoardExportFile,
+  BoardOp,
+  BoardOpBatch,
+  BoardRestoreAction,
+  BoardRoute,
+  BoardStateSnapshot,
+  BoardStore,
+  BoardSummary,
+  FairDraw,
   GameResult,
+  GameSettings,
   LiveGameStatus,
+  PayoutAwardKind,
+  PayoutPeriod,
+  PayoutRules,
+  PendingFinalScore,
+  PeriodScoreCapture,
+  PersistedState,
+  PlayerPayment,
   GridCell,
   LiveGameSnapshot,
   LivePlayEvent,
   RealtimeSquareOddsComputationResult,
+  SaveBoardStateResult,
   SquareOddsComputationResult,
 } from "./types";
-import { isSupabaseConfigured, supabase } from "./supabaseClient";
 import {
-  fetchLiveGameSnapshot,
-  getLivePollIntervalMs,
-} from "./services/liveGameFeedService";
+  LIVE_FEED_PROVIDER_LABELS,
+  createLiveFeedProvider,
+} from "./services/liveFeedProviders";
 import { buildRealtimeSquareOdds } from "./services/realtimeSquareOddsService";
+import {
+  HAS_SHARED_LIVE_FEED,
+  subscribeToSharedLiveFeed,
+} from "./services/liveFeedStreamService";
+import type { FinalScoreCheck } from "./services/autoFinalizeService";
+import {
+  AUTO_FINALIZE_DELAY_MS,
+  isFinalScoreConfirmed,
+  trackFinalSnapshot,
+} from "./services/autoFinalizeService";
+import {
+  capturePeriodScores,
+  mergePeriodScores,
+} from "./services/periodScoreCaptureService";
+import type { LiveSessionRecorder } from "./services/liveSessionService";
+import {
+  createLiveSessionRecorder,
+  getLiveSessionFilename,
+} from "./services/liveSessionService";
+import {
+  DEFAULT_PAYOUT_RULES,
+  PAYOUT_PERIOD_LABELS,
+  PAYOUT_PERIODS,
+  computePayoutBreakdown,
+  computePayoutSettlement,
+  formatPayoutAmount,
+  resolvePeriodResult,
+  sumAwardsForSquare,
+  upsertPeriodResult,
+} from "./services/payoutService";
+import {
+  createDrawCommitment,
+  generateDrawSeed,
+  readStoredDrawSeed,
+  revealDraw,
+  storeDrawSeed,
+} from "./services/fairDrawService";
+import {
+  ClaimDecision,
+  DEFAULT_CLAIM_HOLD_MINUTES,
+  applySquareClaim,
+  coerceClaimHoldMinutes,
+  listPendingClaims,
+  releaseExpiredClaims,
+  resolvePendingClaims,
+} from "./services/squareClaimRules";
+import { requestSquareClaim } from "./services/squareClaimService";
+import { HAS_REMOTE_BOARD_STATE } from "./services/boardStateService";
+import {
+  DEFAULT_GAME_SETTINGS,
+  createEmptyGrid,
+  normalizePersistedState,
+  parseGameDate,
+  readPersistedState,
+} from "./services/boardStateNormalizer";
+import { BOARD_STATE_VERSION } from "./services/boardStateMigrations";
+import { createDefaultBoardStore } from "./services/boardStore";
+import { createUnsyncedSaveQueue, isNetworkError } from "./services/unsyncedSaveQueue";
+import {
+  applyBoardOps,
+  describeBoardOp,
+  diffBoardStates,
+} from "./services/boardOpsReducer";
+import { fetchBoardRevision } from "./services/boardHistoryService";
+import { buildAuditLogCsv } from "./services/auditLogService";
+import {
+  buildBoardExport,
+  getBoardExportFilename,
+  parseBoardExport,
+} from "./services/boardTransferService";
+import { applyConflictChoices, mergeBoardStates } from "./services/boardMergeService";
+import {
+  buildPaymentLedger,
+  buildPaymentLedgerCsv,
+  getPlayerKey,
+  upsertPlayerPayment,
+} from "./services/paymentLedgerService";
+import {
+  clearAdminSession,
+  logoutAdmin,
+  restoreAdminSession,
+} from "./services/adminAuthService";
+import {
+  BOARD_DIRECTORY_PATH,
+  getBoardSummary,
+  parseBoardRoute,
+} from "./services/boardDirectoryService";
 
-const STORAGE_KEY = "sb-lx-squares-v1";
-const BOARD_ID = import.meta.env.VITE_BOARD_ID || "default";
-const SHOULD_USE_LOCAL_SQLITE =
-  import.meta.env.DEV && import.meta.env.VITE_USE_LOCAL_SQLITE !== "false";
-const SQLITE_API_BASE = "/api/board-state";
-const DEFAULT_GAME_DATE = "2026-02-08";
 const SCORE_ENTRY_HOUR = 22;
 const SCORE_ENTRY_MINUTE = 0;
 const LIVE_SNAPSHOT_STALE_AFTER_MS = 1000 * 90;
@@ -60,35 +180,58 @@ const ENABLE_LOCAL_LIVE_SIMULATOR =
   )
     .trim()
     .toLowerCase() !== "false";
-const LIVE_EVENT_ID_OVERRIDE =
-  (import.meta.env.VITE_NFL_EVENT_ID as string | undefined)?.trim() || undefined;
-
-const createEmptyGrid = (): GridCell[][] =>
-  Array(10)
-    .fill(null)
-    .map((_, r) =>
-      Array(10)
-        .fill(null)
-        .map((__, c) => ({
-          row: r,
-          col: c,
-          player: null,
-          status: "empty" as const,
-        })),
-    );
+
+const downloadFile = (filename: string, contents: string, type: string) => {
+  const blob = new Blob([contents], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const CLAIM_RELEASE_CHECK_MS = 30_000;
+const UNSYNCED_RETRY_MS = 15_000;
 
 const PRE_LOCK_UNIFORM_ODDS: number[][] = Array.from({ length: 10 }, () =>
   Array.from({ length: 10 }, () => 1),
 );
 
-type PersistedState = {
-  version: 2;
-  pricePerSquare: number;
-  isLocked: boolean;
-  rowLabels: number[];
-  colLabels: number[];
-  grid: GridCell[][];
-  gameResult: GameResult | null;
+type ClaimNotice = {
+  tone: "success" | "error";
+  message: string;
+};
+
+type SaveConflict = {
+  /** The admin's edits as they were before the rejected save was merged. */
+  local: PersistedState;
+  conflicts: BoardConflict[];
+};
+
+/** Saves that replace the whole board; `state` is filled in when the save runs. */
+type WholeBoardOpIntent =
+  | { type: "restore"; revision: number; action: BoardRestoreAction }
+  | { type: "reset_board" }
+  | { type: "replace_state" };
+
+type PendingBoardImport = {
+  fileName: string;
+  source: BoardExportFile;
+  state: PersistedState;
+  changes: string[];
+  warnings: string[];
+};
+
+/** A final score from the live feed waiting to be recorded. */
+type FinalScoreProposal = {
+  key: string;
+  homeScore: number;
+  awayScore: number;
+  /** When it records itself, or null when it waits for the admin. */
+  recordAt: number | null;
+  /** The SQLite server records it when the countdown ends, not this tab. */
+  isRecordedByServer: boolean;
 };
 
 type SimulatorEventTeam = "home" | "away" | "neutral";
@@ -98,6 +241,7 @@ type PlayerLeaderboardEntry = {
   playerName: string;
   totalWinProbability: number;
   squareCount: number;
+  amountWon: number;
 };
 
 const clamp = (value: number, min: number, max: number): number =>
@@ -141,175 +285,9 @@ const formatSecondsAsClock = (seconds: number): string => {
   return `${minutesPart}:${secondsPart.toString().padStart(2, "0")}`;
 };
 
-const coerceLabels = (value: unknown): number[] | null => {
-  if (!Array.isArray(value) || value.length !== 10) return null;
-  if (!value.every((n) => typeof n === "number" && Number.isFinite(n))) {
-    return null;
-  }
-  return value;
-};
-
-const coerceGrid = (value: unknown): GridCell[][] | null => {
-  if (!Array.isArray(value) || value.length !== 10) return null;
-  const rows: GridCell[][] = [];
-  for (let r = 0; r < 10; r += 1) {
-    const row = value[r];
-    if (!Array.isArray(row) || row.length !== 10) return null;
-    const nextRow: GridCell[] = [];
-    for (let c = 0; c < 10; c += 1) {
-      const cell = row[c] as Partial<GridCell> | null;
-      const status =
-        cell?.status === "approved" ||
-        cell?.status === "pending" ||
-        cell?.status === "empty"
-          ? cell.status
-          : "empty";
-      nextRow.push({
-        row: r,
-        col: c,
-        player: typeof cell?.player === "string" ? cell.player : null,
-        status,
-      });
-    }
-    rows.push(nextRow);
-  }
-  return rows;
-};
-
-const coerceGameResult = (value: unknown): GameResult | null => {
-  if (!value || typeof value !== "object") return null;
-  const data = value as Partial<GameResult>;
-
-  const fields = [
-    data.homeScore,
-    data.awayScore,
-    data.homeLastDigit,
-    data.awayLastDigit,
-    data.winnerRow,
-    data.winnerCol,
-    data.winnerSquareNumber,
-  ];
-
-  if (
-    !fields.every(
-      (entry) => typeof entry === "number" && Number.isFinite(entry),
-    )
-  ) {
-    return null;
-  }
+const EMPTY_BOARD_STATE = normalizePersistedState({}) as PersistedState;
 
-  if (
-    !Number.isInteger(data.homeScore) ||
-    !Number.isInteger(data.awayScore) ||
-    data.homeScore < 0 ||
-    data.awayScore < 0
-  ) {
-    return null;
-  }
-
-  if (
-    !Number.isInteger(data.homeLastDigit) ||
-    !Number.isInteger(data.awayLastDigit) ||
-    data.homeLastDigit < 0 ||
-    data.homeLastDigit > 9 ||
-    data.awayLastDigit < 0 ||
-    data.awayLastDigit > 9
-  ) {
-    return null;
-  }
-
-  if (
-    !Number.isInteger(data.winnerRow) ||
-    !Number.isInteger(data.winnerCol) ||
-    data.winnerRow < 0 ||
-    data.winnerRow > 9 ||
-    data.winnerCol < 0 ||
-    data.winnerCol > 9
-  ) {
-    return null;
-  }
-
-  if (
-    !Number.isInteger(data.winnerSquareNumber) ||
-    data.winnerSquareNumber < 1 ||
-    data.winnerSquareNumber > 100
-  ) {
-    return null;
-  }
-
-  if (
-    data.winnerStatus !== "approved" &&
-    data.winnerStatus !== "pending" &&
-    data.winnerStatus !== "empty"
-  ) {
-    return null;
-  }
-
-  if (data.winnerName !== null && typeof data.winnerName !== "string") {
-    return null;
-  }
-
-  if (typeof data.submittedAt !== "string") return null;
-  if (Number.isNaN(Date.parse(data.submittedAt))) return null;
-
-  return {
-    homeScore: data.homeScore,
-    awayScore: data.awayScore,
-    homeLastDigit: data.homeLastDigit,
-    awayLastDigit: data.awayLastDigit,
-    winnerRow: data.winnerRow,
-    winnerCol: data.winnerCol,
-    winnerSquareNumber: data.winnerSquareNumber,
-    winnerName: data.winnerName,
-    winnerStatus: data.winnerStatus,
-    submittedAt: data.submittedAt,
-  };
-};
-
-const normalizePersistedState = (payload: unknown): PersistedState | null => {
-  if (!payload || typeof payload !== "object") return null;
-  const data = payload as Partial<PersistedState>;
-  const pricePerSquare =
-    typeof data.pricePerSquare === "number" &&
-    Number.isFinite(data.pricePerSquare)
-      ? data.pricePerSquare
-      : 3;
-
-  return {
-    version: 2,
-    pricePerSquare,
-    isLocked: typeof data.isLocked === "boolean" ? data.isLocked : false,
-    rowLabels: coerceLabels(data.rowLabels) ?? INITIAL_ROWS,
-    colLabels: coerceLabels(data.colLabels) ?? INITIAL_COLS,
-    grid: coerceGrid(data.grid) ?? createEmptyGrid(),
-    gameResult: coerceGameResult(data.gameResult),
-  };
-};
-
-const loadPersistedState = (): PersistedState | null => {
-  if (typeof window === "undefined") return null;
-  try {
-    const raw = window.localStorage.getItem(STORAGE_KEY);
-    if (!raw) return null;
-    const parsed = JSON.parse(raw);
-    return normalizePersistedState(parsed);
-  } catch (error) {
-    console.warn("Failed to load saved board state.", error);
-    return null;
-  }
-};
-
-const getScoreLastDigit = (score: number): number => ((score % 10) + 10) % 10;
-
-const parseGameDate = (value: string | undefined): Date | null => {
-  if (!value) return null;
-  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
-  if (!match) return null;
-  const [, y, m, d] = match;
-  const parsed = new Date(Number(y), Number(m) - 1, Number(d), 0, 0, 0, 0);
-  if (Number.isNaN(parsed.getTime())) return null;
-  return parsed;
-};
+const DEFAULT_BOARD_STORE = createDefaultBoardStore();
 
 const formatTimestamp = (date: Date): string =>
   new Intl.DateTimeFormat(undefined, {
@@ -320,52 +298,85 @@ const formatTimestamp = (date: Date): string =>
     minute: "2-digit",
   }).format(date);
 
-const App: React.FC = () => {
-  const [persistedState] = useState(() => loadPersistedState());
-  const [isRemoteReady, setIsRemoteReady] = useState(
-    SHOULD_USE_LOCAL_SQLITE ? false : !isSupabaseConfigured,
-  );
+type BoardAppProps = {
+  boardId: string;
+  store: BoardStore;
+  isAdmin: boolean;
+  onLogin: (session: AdminSession) => void;
+  onLogout: () => void;
+  onSessionExpired: () => void;
+  onNavigate: (path: string) => void;
+};
+
+const BoardApp: React.FC<BoardAppProps> = ({
+  boardId,
+  store,
+  isAdmin,
+  onLogin,
+  onLogout,
+  onSessionExpired,
+  onNavigate,
+}) => {
+  const [isStoreReady, setIsStoreReady] = useState(false);
   const skipNextSaveRef = useRef(false);
   const lastSavedRef = useRef<string | null>(null);
-  const announcedResultRef = useRef<string | null>(null);
-  const seedRef = useRef<PersistedState>(
-    normalizePersistedState(persistedState) ?? {
-      version: 2,
-      pricePerSquare: 3,
-      isLocked: false,
-      rowLabels: INITIAL_ROWS,
-      colLabels: INITIAL_COLS,
-      grid: createEmptyGrid(),
-      gameResult: null,
-    },
+  // Server revision and state as of the last sync; rejected saves merge against them.
+  const revisionRef = useRef<number | null>(null);
+  const syncedStateRef = useRef<PersistedState | null>(null);
+  const queuedSaveRef = useRef<PersistedState | null>(null);
+  const isSavingRef = useRef(false);
+  const queuedWholeBoardOpRef = useRef<WholeBoardOpIntent | null>(null);
+  // Saves that failed to reach the server wait here, oldest first, and are replayed before new ones.
+  const [unsyncedCount, setUnsyncedCount] = useState(0);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  // Set when the server refused a save; those are not queued or retried.
+  const [rejectedSaveError, setRejectedSaveError] = useState<string | null>(null);
+  const unsyncedQueue = useMemo(
+    () => createUnsyncedSaveQueue(boardId, setUnsyncedCount),
+    [boardId],
   );
+  const [boardRevision, setBoardRevision] = useState<number | null>(null);
+  const [saveConflict, setSaveConflict] = useState<SaveConflict | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingBoardImport | null>(null);
+  // Set when the stored board came from a newer app; nothing is saved over it.
+  const newerBoardVersionRef = useRef<number | null>(null);
+  const [newerBoardVersion, setNewerBoardVersion] = useState<number | null>(null);
+  const [stateWarnings, setStateWarnings] = useState<string[]>([]);
+  const [boardFileError, setBoardFileError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const announcedResultRef = useRef<string | null>(null);
 
   // Game Configuration State
-  const [homeTeam] = useState("Seahawks");
-  const [awayTeam] = useState("Patriots");
-  const [pricePerSquare, setPricePerSquare] = useState(
-    () => persistedState?.pricePerSquare ?? 3,
-  );
-  const [isLocked, setIsLocked] = useState(
-    () => persistedState?.isLocked ?? false,
-  );
-  const [adminPasscode, setAdminPasscode] = useState<string | null>(null);
+  const [gameSettings, setGameSettings] = useState<GameSettings>(DEFAULT_GAME_SETTINGS);
+  const homeTeam = gameSettings.homeTeamName;
+  const awayTeam = gameSettings.awayTeamName;
+  const { rowTeam } = gameSettings;
+  const rowTeamName = rowTeam === "home" ? homeTeam : awayTeam;
+  const colTeamName = rowTeam === "home" ? awayTeam : homeTeam;
+  const [pricePerSquare, setPricePerSquare] = useState(3);
+  const [isLocked, setIsLocked] = useState(false);
+  const [boardSummary, setBoardSummary] = useState<BoardSummary | null>(null);
 
   // Board State
-  const [rowLabels, setRowLabels] = useState<number[]>(
-    () => persistedState?.rowLabels ?? INITIAL_ROWS,
-  );
-  const [colLabels, setColLabels] = useState<number[]>(
-    () => persistedState?.colLabels ?? INITIAL_COLS,
-  );
+  const [rowLabels, setRowLabels] = useState<number[]>(INITIAL_ROWS);
+  const [colLabels, setColLabels] = useState<number[]>(INITIAL_COLS);
 
   // 10x10 grid state
-  const [grid, setGrid] = useState<GridCell[][]>(
-    () => persistedState?.grid ?? createEmptyGrid(),
-  );
-  const [gameResult, setGameResult] = useState<GameResult | null>(
-    () => persistedState?.gameResult ?? null,
+  const [grid, setGrid] = useState<GridCell[][]>(createEmptyGrid);
+  const [periodResults, setPeriodResults] = useState<GameResult[]>([]);
+  const [payoutRules, setPayoutRules] = useState<PayoutRules>(DEFAULT_PAYOUT_RULES);
+  const [fairDraw, setFairDraw] = useState<FairDraw | null>(null);
+  const [drawError, setDrawError] = useState<string | null>(null);
+  const [claimHoldMinutes, setClaimHoldMinutes] = useState(DEFAULT_CLAIM_HOLD_MINUTES);
+  const [payments, setPayments] = useState<PlayerPayment[]>([]);
+  const [periodScores, setPeriodScores] = useState<PeriodScoreCapture[]>([]);
+  const [claimClock, setClaimClock] = useState(() => Date.now());
+  const [claimNotice, setClaimNotice] = useState<ClaimNotice | null>(null);
+  const gameResult = useMemo(
+    () => periodResults.find((result) => result.period === "final") ?? null,
+    [periodResults],
   );
+  const latestPeriodResult = periodResults[periodResults.length - 1] ?? null;
 
   // UI State
   const [activeCell, setActiveCell] = useState<{
@@ -380,14 +391,17 @@ const App: React.FC = () => {
   const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
   const [isWinnerModalOpen, setIsWinnerModalOpen] = useState(false);
   const [finalizeError, setFinalizeError] = useState<string | null>(null);
-  const [homeFinalScore, setHomeFinalScore] = useState(
-    () =>
-      persistedState?.gameResult ? String(persistedState.gameResult.homeScore) : "",
-  );
-  const [awayFinalScore, setAwayFinalScore] = useState(
-    () =>
-      persistedState?.gameResult ? String(persistedState.gameResult.awayScore) : "",
+  // Score entry follows the latest recorded period once the board loads.
+  const [scorePeriod, setScorePeriod] = useState<PayoutPeriod>(PAYOUT_PERIODS[0]);
+  const [homeFinalScore, setHomeFinalScore] = useState("");
+  const [awayFinalScore, setAwayFinalScore] = useState("");
+  const [finalScoreProposal, setFinalScoreProposal] = useState<FinalScoreProposal | null>(
+    null,
   );
+  const finalScoreCheckRef = useRef<FinalScoreCheck | null>(null);
+  const previousLiveSnapshotRef = useRef<LiveGameSnapshot | null>(null);
+  const dismissedFinalScoreRef = useRef<string | null>(null);
+  const [pendingFinalScore, setPendingFinalScore] = useState<PendingFinalScore | null>(null);
   const [squareOdds, setSquareOdds] = useState<SquareOddsComputationResult | null>(
     null,
   );
@@ -409,21 +423,14 @@ const App: React.FC = () => {
   const [localCustomEventTeam, setLocalCustomEventTeam] =
     useState<SimulatorEventTeam>("neutral");
   const localLiveEventCounterRef = useRef(1);
+  const [liveRecorder, setLiveRecorder] = useState<LiveSessionRecorder | null>(null);
+  const [liveRecordedCount, setLiveRecordedCount] = useState(0);
+  const [liveReplay, setLiveReplay] = useState<LiveReplayFrame | null>(null);
   const [isSquareOddsLoading, setIsSquareOddsLoading] = useState(false);
   const [squareOddsError, setSquareOddsError] = useState<string | null>(null);
 
-  const adminPasscodeEnv = import.meta.env.VITE_ADMIN_PASSCODE;
-  const isAdmin = !!adminPasscodeEnv && adminPasscode === adminPasscodeEnv;
-  const isLandingPath = useMemo(() => {
-    if (typeof window === "undefined") return false;
-    return window.location.pathname === "/";
-  }, []);
-
   const scoreUnlockAt = useMemo(() => {
-    const gameDate = parseGameDate(
-      (import.meta.env.VITE_GAME_DATE as string | undefined) ??
-        DEFAULT_GAME_DATE,
-    );
+    const gameDate = parseGameDate(gameSettings.gameDate);
     if (!gameDate) return null;
     return new Date(
       gameDate.getFullYear(),
@@ -434,24 +441,30 @@ const App: React.FC = () => {
       0,
       0,
     );
-  }, []);
+  }, [gameSettings.gameDate]);
 
   const scoreUnlockText = scoreUnlockAt
     ? formatTimestamp(scoreUnlockAt)
     : "10:00 PM Sunday";
   const canFinalizeGame = isLocked;
-  const shouldComputeSquareOdds = isLocked && !gameResult;
-  const shouldShowSquareOdds = !gameResult;
   const homeTeamCode = useMemo(() => resolveTeamCodeByName(homeTeam), [homeTeam]);
   const awayTeamCode = useMemo(() => resolveTeamCodeByName(awayTeam), [awayTeam]);
   const isUsingLocalLiveSimulator =
     ENABLE_LOCAL_LIVE_SIMULATOR && isAdmin && isLocalLiveSimulatorEnabled;
+  const isReplayingLiveSession = isAdmin && liveReplay !== null && !isUsingLocalLiveSimulator;
+  // A replayed session drives the odds even after the board's own final score is recorded.
+  const shouldComputeSquareOdds = isLocked && (!gameResult || isReplayingLiveSession);
+  const shouldShowSquareOdds = !gameResult || isReplayingLiveSession;
+  // The SQLite server polls once per board for every viewer and sends the odds with each update.
+  // A recording admin polls here instead, because the recorder must see the responses itself.
+  const usesSharedLiveFeed =
+    HAS_SHARED_LIVE_FEED && !liveRecorder && !isUsingLocalLiveSimulator && !isReplayingLiveSession;
   const activeSquareOdds = realtimeSquareOdds ?? squareOdds;
   const boardSquareOdds = useMemo(() => {
-    if (gameResult) return null;
+    if (!shouldShowSquareOdds) return null;
     if (!isLocked) return PRE_LOCK_UNIFORM_ODDS;
     return activeSquareOdds?.boardPercentages ?? null;
-  }, [gameResult, isLocked, activeSquareOdds]);
+  }, [shouldShowSquareOdds, isLocked, activeSquareOdds]);
 
   const applyPersistedState = useCallback((next: PersistedState) => {
     setPricePerSquare(next.pricePerSquare);
@@ -459,9 +472,29 @@ const App: React.FC = () => {
     setRowLabels(next.rowLabels);
     setColLabels(next.colLabels);
     setGrid(next.grid);
-    setGameResult(next.gameResult);
+    setPeriodResults(next.periodResults);
+    setPayoutRules(next.payoutRules);
+    setGameSettings(next.gameSettings);
+    setFairDraw(next.fairDraw);
+    setClaimHoldMinutes(next.claimHoldMinutes);
+    setPayments(next.payments);
+    setPeriodScores(next.periodScores);
   }, []);
 
+  useEffect(() => {
+    let cancelled = false;
+    getBoardSummary(boardId)
+      .then((summary) => {
+        if (!cancelled) setBoardSummary(summary);
+      })
+      .catch((error) => {
+        console.warn("Failed to load board details.", error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [boardId]);
+
   const appendLocalLivePlay = useCallback(
     (input: {
       team: SimulatorEventTeam;
@@ -631,14 +664,18 @@ const App: React.FC = () => {
   ]);
 
   useEffect(() => {
-    if (!gameResult) return;
-    if (!isLandingPath) return;
-    if (announcedResultRef.current === gameResult.submittedAt) return;
-    announcedResultRef.current = gameResult.submittedAt;
-    setHomeFinalScore(String(gameResult.homeScore));
-    setAwayFinalScore(String(gameResult.awayScore));
+    if (!latestPeriodResult) return;
+    if (announcedResultRef.current === latestPeriodResult.submittedAt) return;
+    announcedResultRef.current = latestPeriodResult.submittedAt;
+    setScorePeriod(latestPeriodResult.period);
+    setHomeFinalScore(String(latestPeriodResult.homeScore));
+    setAwayFinalScore(String(latestPeriodResult.awayScore));
     setIsWinnerModalOpen(true);
-  }, [gameResult, isLandingPath]);
+  }, [latestPeriodResult]);
+
+  useEffect(() => {
+    if (!isAdmin) setLiveRecorder(null);
+  }, [isAdmin]);
 
   useEffect(() => {
     if (isAdmin) return;
@@ -696,6 +733,7 @@ const App: React.FC = () => {
         snapshot,
         rowLabels,
         colLabels,
+        rowTeam,
       });
       setRealtimeSquareOdds(realtime);
     } else {
@@ -706,6 +744,7 @@ const App: React.FC = () => {
     colLabels,
     isUsingLocalLiveSimulator,
     rowLabels,
+    rowTeam,
     shouldComputeSquareOdds,
     squareOdds,
   ]);
@@ -725,6 +764,11 @@ const App: React.FC = () => {
         cancelled = true;
       };
     }
+    if (usesSharedLiveFeed) {
+      return () => {
+        cancelled = true;
+      };
+    }
 
     setIsSquareOddsLoading(true);
     setSquareOddsError(null);
@@ -737,6 +781,7 @@ const App: React.FC = () => {
       awayTeamName: awayTeam,
       rowLabels,
       colLabels,
+      rowTeam,
     })
       .then((result) => {
         if (cancelled) return;
@@ -759,7 +804,87 @@ const App: React.FC = () => {
     return () => {
       cancelled = true;
     };
-  }, [shouldComputeSquareOdds, homeTeam, awayTeam, rowLabels, colLabels]);
+  }, [
+    shouldComputeSquareOdds,
+    usesSharedLiveFeed,
+    homeTeam,
+    awayTeam,
+    rowLabels,
+    colLabels,
+    rowTeam,
+  ]);
+
+  const { liveFeedProvider: liveFeedProviderId, mockFeedUrl } = gameSettings;
+  const liveFeedProvider = useMemo(
+    () =>
+      createLiveFeedProvider(
+        { liveFeedProvider: liveFeedProviderId, mockFeedUrl },
+        { fetchEspnPayload: liveRecorder?.fetchPayload },
+      ),
+    [liveFeedProviderId, liveRecorder, mockFeedUrl],
+  );
+
+  const handleStartLiveRecording = () => {
+    setLiveRecordedCount(0);
+    setLiveRecorder(
+      createLiveSessionRecorder(
+        {
+          homeTeamName: homeTeam,
+          awayTeamName: awayTeam,
+          gameDate: gameSettings.gameDate,
+          eventId: gameSettings.eventId ?? undefined,
+        },
+        setLiveRecordedCount,
+      ),
+    );
+  };
+
+  const handleStopLiveRecording = () => {
+    if (!liveRecorder) return;
+    const session = liveRecorder.getSession();
+    setLiveRecorder(null);
+    downloadFile(
+      getLiveSessionFilename(boardId, session),
+      JSON.stringify(session),
+      "application/json",
+    );
+  };
+
+  useEffect(() => {
+    if (!shouldComputeSquareOdds || !squareOdds || !isReplayingLiveSession) return;
+
+    const snapshot = liveReplay?.snapshot ?? null;
+    setLiveSnapshot(snapshot);
+    setIsLiveFeedLoading(false);
+    setLiveFeedError(null);
+
+    if (
+      snapshot &&
+      (snapshot.status === "in_progress" ||
+        snapshot.status === "halftime" ||
+        snapshot.status === "final")
+    ) {
+      setRealtimeSquareOdds(
+        buildRealtimeSquareOdds({
+          baseModel: squareOdds,
+          snapshot,
+          rowLabels,
+          colLabels,
+          rowTeam,
+        }),
+      );
+    } else {
+      setRealtimeSquareOdds(null);
+    }
+  }, [
+    colLabels,
+    isReplayingLiveSession,
+    liveReplay,
+    rowLabels,
+    rowTeam,
+    shouldComputeSquareOdds,
+    squareOdds,
+  ]);
 
   useEffect(() => {
     let cancelled = false;
@@ -767,6 +892,13 @@ const App: React.FC = () => {
     let inFlight = false;
     let failureCount = 0;
 
+    // Followed by the effect below instead.
+    if (shouldComputeSquareOdds && usesSharedLiveFeed) {
+      return () => {
+        cancelled = true;
+      };
+    }
+
     if (!shouldComputeSquareOdds || !squareOdds) {
       setIsLiveFeedLoading(false);
       setLiveFeedError(null);
@@ -777,7 +909,7 @@ const App: React.FC = () => {
       };
     }
 
-    if (isUsingLocalLiveSimulator) {
+    if (isUsingLocalLiveSimulator || isReplayingLiveSession) {
       setIsLiveFeedLoading(false);
       setLiveFeedError(null);
       return () => {
@@ -791,13 +923,11 @@ const App: React.FC = () => {
       setIsLiveFeedLoading(true);
 
       try {
-        const snapshot = await fetchLiveGameSnapshot({
+        const snapshot = await liveFeedProvider.fetchSnapshot({
           homeTeamName: homeTeam,
           awayTeamName: awayTeam,
-          gameDate:
-            (import.meta.env.VITE_GAME_DATE as string | undefined) ??
-            DEFAULT_GAME_DATE,
-          eventIdOverride: LIVE_EVENT_ID_OVERRIDE,
+          gameDate: gameSettings.gameDate,
+          eventId: gameSettings.eventId ?? undefined,
         });
 
         if (cancelled) return;
@@ -824,13 +954,14 @@ const App: React.FC = () => {
             snapshot,
             rowLabels,
             colLabels,
+            rowTeam,
           });
           setRealtimeSquareOdds(nextRealtime);
         } else {
           setRealtimeSquareOdds(null);
         }
 
-        timer = setTimeout(pollLiveFeed, getLivePollIntervalMs(snapshot));
+        timer = setTimeout(pollLiveFeed, liveFeedProvider.getPollIntervalMs(snapshot));
       } catch (error) {
         if (cancelled) return;
         failureCount += 1;
@@ -858,239 +989,517 @@ const App: React.FC = () => {
       }
     };
   }, [
+    boardId,
+    isReplayingLiveSession,
     isUsingLocalLiveSimulator,
+    liveFeedProvider,
     shouldComputeSquareOdds,
     squareOdds,
+    usesSharedLiveFeed,
     homeTeam,
     awayTeam,
+    gameSettings.gameDate,
+    gameSettings.eventId,
     rowLabels,
     colLabels,
+    rowTeam,
   ]);
 
   useEffect(() => {
-    if (!SHOULD_USE_LOCAL_SQLITE) return;
-    let cancelled = false;
-
-    const handleLocalSqlitePayload = (payload: unknown) => {
-      const normalized = normalizePersistedState(payload);
-      if (!normalized) return;
-      const nextString = JSON.stringify(normalized);
-      if (nextString === lastSavedRef.current) return;
-      skipNextSaveRef.current = true;
-      applyPersistedState(normalized);
+    if (!shouldComputeSquareOdds || !usesSharedLiveFeed) return;
+    setIsSquareOddsLoading(true);
+    setIsLiveFeedLoading(true);
+    const unsubscribe = subscribeToSharedLiveFeed(boardId, (update) => {
+      setIsSquareOddsLoading(false);
+      setIsLiveFeedLoading(false);
+      setLiveFeedError(update.error);
+      setLiveSnapshot(update.snapshot);
+      setSquareOdds(update.squareOdds);
+      setRealtimeSquareOdds(update.realtimeOdds);
+      setPendingFinalScore(update.pendingFinalScore);
+    });
+    return () => {
+      unsubscribe();
+      setPendingFinalScore(null);
     };
+  }, [boardId, shouldComputeSquareOdds, usesSharedLiveFeed]);
 
-    const loadLocalSqliteState = async () => {
-      try {
-        const response = await fetch(
-          `${SQLITE_API_BASE}/${encodeURIComponent(BOARD_ID)}`,
-        );
-        if (!response.ok) {
-          throw new Error(`Local SQLite fetch failed with ${response.status}`);
-        }
-        const data = (await response.json()) as { data?: unknown };
+  // Simulated, replayed and mock games never reach the real board's results.
+  const isUsingMockFeed = liveFeedProviderId === "mock";
+  const canAutoFinalize =
+    isAdmin &&
+    isLocked &&
+    !gameResult &&
+    gameSettings.autoFinalize !== "off" &&
+    !isUsingLocalLiveSimulator &&
+    !isUsingMockFeed &&
+    !isReplayingLiveSession;
 
-        if (cancelled) return;
+  useEffect(() => {
+    if (!canAutoFinalize) {
+      finalScoreCheckRef.current = null;
+      setFinalScoreProposal(null);
+      return;
+    }
 
-        if (data?.data) {
-          handleLocalSqlitePayload(data.data);
-        } else {
-          await fetch(`${SQLITE_API_BASE}/${encodeURIComponent(BOARD_ID)}`, {
-            method: "PUT",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ data: seedRef.current }),
-          });
-        }
-      } catch (error) {
-        console.warn("Failed to load board from local SQLite.", error);
-      } finally {
-        if (!cancelled) setIsRemoteReady(true);
-      }
-    };
+    // The server runs the countdown in "auto" mode; this tab only shows it.
+    if (HAS_SHARED_LIVE_FEED && gameSettings.autoFinalize === "auto") {
+      finalScoreCheckRef.current = null;
+      setFinalScoreProposal(
+        pendingFinalScore && dismissedFinalScoreRef.current !== pendingFinalScore.key
+          ? {
+              key: pendingFinalScore.key,
+              homeScore: pendingFinalScore.homeScore,
+              awayScore: pendingFinalScore.awayScore,
+              recordAt: Date.parse(pendingFinalScore.recordAt),
+              isRecordedByServer: true,
+            }
+          : null,
+      );
+      return;
+    }
 
-    loadLocalSqliteState();
+    const check = trackFinalSnapshot(finalScoreCheckRef.current, liveSnapshot, homeTeam);
+    finalScoreCheckRef.current = check;
+    if (!check) {
+      setFinalScoreProposal(null);
+      return;
+    }
+    if (!isFinalScoreConfirmed(check) || dismissedFinalScoreRef.current === check.key) return;
+
+    const isAuto = gameSettings.autoFinalize === "auto";
+    setFinalScoreProposal((prev) =>
+      prev?.key === check.key && (prev.recordAt !== null) === isAuto
+        ? prev
+        : {
+            key: check.key,
+            homeScore: check.homeScore,
+            awayScore: check.awayScore,
+            recordAt: isAuto ? Date.now() + AUTO_FINALIZE_DELAY_MS : null,
+            isRecordedByServer: false,
+          },
+    );
+  }, [canAutoFinalize, gameSettings.autoFinalize, homeTeam, liveSnapshot, pendingFinalScore]);
 
-    return () => {
-      cancelled = true;
-    };
-  }, [applyPersistedState]);
+  // The SQLite server captures them itself while anyone has the board open.
+  const canCapturePeriodScores =
+    isAdmin &&
+    isLocked &&
+    !HAS_SHARED_LIVE_FEED &&
+    !isUsingLocalLiveSimulator &&
+    !isUsingMockFeed &&
+    !isReplayingLiveSession;
 
   useEffect(() => {
-    if (SHOULD_USE_LOCAL_SQLITE || !isSupabaseConfigured || !supabase) return;
-    let cancelled = false;
+    const previous = previousLiveSnapshotRef.current;
+    previousLiveSnapshotRef.current = canCapturePeriodScores ? liveSnapshot : null;
+    if (!canCapturePeriodScores || !liveSnapshot || liveSnapshot === previous) return;
 
-    const handleRemotePayload = (payload: unknown) => {
-      const normalized = normalizePersistedState(payload);
-      if (!normalized) return;
-      const nextString = JSON.stringify(normalized);
-      if (nextString === lastSavedRef.current) return;
-      skipNextSaveRef.current = true;
-      applyPersistedState(normalized);
-    };
+    const captures = capturePeriodScores(previous, liveSnapshot, homeTeam);
+    if (captures.length > 0) {
+      setPeriodScores((prev) => mergePeriodScores(prev, captures));
+    }
+  }, [canCapturePeriodScores, homeTeam, liveSnapshot]);
 
-    const loadRemoteState = async () => {
-      const { data, error } = await supabase
-        .from("board_state")
-        .select("data")
-        .eq("id", BOARD_ID)
-        .maybeSingle();
+  const setSyncedRevision = useCallback((revision: number) => {
+    revisionRef.current = revision;
+    setBoardRevision(revision);
+  }, []);
 
-      if (cancelled) return;
+  const blockNewerBoard = useCallback((version: number) => {
+    newerBoardVersionRef.current = version;
+    queuedSaveRef.current = null;
+    setNewerBoardVersion(version);
+  }, []);
 
-      if (error) {
-        console.warn("Failed to load board from Supabase.", error);
-        setIsRemoteReady(true);
+  const addStateWarnings = useCallback((warnings: string[]) => {
+    if (warnings.length === 0) return;
+    setStateWarnings((prev) => Array.from(new Set([...prev, ...warnings])));
+  }, []);
+
+  const receiveRemoteState = useCallback(
+    (snapshot: BoardStateSnapshot) => {
+      // Streams re-send the current state on reconnect, and may echo our own saves.
+      if (revisionRef.current !== null && snapshot.revision <= revisionRef.current) return;
+      const read = readPersistedState(snapshot.data);
+      if (!read) return;
+      if (read.status === "newer") {
+        blockNewerBoard(read.version);
         return;
       }
+      const normalized = read.state;
+      addStateWarnings(read.warnings);
+      setSyncedRevision(snapshot.revision);
+      syncedStateRef.current = normalized;
+      // Unsynced edits stay on screen; replaying them merges this state in.
+      if (unsyncedQueue.list().length > 0) return;
+      if (JSON.stringify(normalized) === lastSavedRef.current) return;
+      skipNextSaveRef.current = true;
+      applyPersistedState(normalized);
+    },
+    [addStateWarnings, applyPersistedState, blockNewerBoard, setSyncedRevision, unsyncedQueue],
+  );
 
-      if (data?.data) {
-        handleRemotePayload(data.data);
-      } else {
-        await supabase.from("board_state").upsert({
-          id: BOARD_ID,
-          data: seedRef.current,
-        });
+  /** Returns false when the batch does not follow our revision and a reload is needed. */
+  const receiveRemoteOps = useCallback(
+    (batch: BoardOpBatch): boolean => {
+      const revision = revisionRef.current;
+      if (revision !== null && batch.revision <= revision) return true;
+      const base = revision === null ? EMPTY_BOARD_STATE : syncedStateRef.current;
+      if (!base || batch.revision !== (revision ?? 0) + 1) return false;
+      try {
+        receiveRemoteState({ data: applyBoardOps(base, batch.ops), revision: batch.revision });
+        return true;
+      } catch (error) {
+        console.warn("Could not apply board ops; reloading the board.", error);
+        return false;
       }
+    },
+    [receiveRemoteState],
+  );
 
-      setIsRemoteReady(true);
-    };
-
-    loadRemoteState();
+  useEffect(() => {
+    let cancelled = false;
+    // Empty boards are seeded by the first save below.
+    unsyncedQueue
+      .load()
+      .then(() => store.load(boardId))
+      .then((snapshot) => {
+        if (!cancelled && snapshot) receiveRemoteState(snapshot);
+      })
+      .catch((error) => {
+        console.warn("Failed to load board state.", error);
+      })
+      .finally(() => {
+        if (cancelled) return;
+        const unsynced = unsyncedQueue.list();
+        if (unsynced.length > 0) {
+          // Show the board as it was left on this device; the retry below syncs it.
+          const read = readPersistedState(unsynced[unsynced.length - 1].nextState);
+          if (read?.status === "ok") {
+            const tip = read.state;
+            lastSavedRef.current = JSON.stringify(tip);
+            skipNextSaveRef.current = true;
+            applyPersistedState(tip);
+          } else {
+            void unsyncedQueue.clear();
+            addStateWarnings([
+              "Unsynced changes left by another version of the app were discarded.",
+            ]);
+          }
+        }
+        setIsStoreReady(true);
+      });
 
-    const channel = supabase
-      .channel(`board-state:${BOARD_ID}`)
-      .on(
-        "postgres_changes",
-        {
-          event: "INSERT",
-          schema: "public",
-          table: "board_state",
-          filter: `id=eq.${BOARD_ID}`,
-        },
-        (payload) => handleRemotePayload(payload.new?.data),
-      )
-      .on(
-        "postgres_changes",
-        {
-          event: "UPDATE",
-          schema: "public",
-          table: "board_state",
-          filter: `id=eq.${BOARD_ID}`,
-        },
-        (payload) => handleRemotePayload(payload.new?.data),
-      )
-      .subscribe();
+    const unsubscribe = store.subscribe(boardId, {
+      onSnapshot: receiveRemoteState,
+      onOps: receiveRemoteOps,
+    });
 
     return () => {
       cancelled = true;
-      supabase.removeChannel(channel);
+      unsubscribe();
     };
-  }, [applyPersistedState]);
+  }, [
+    addStateWarnings,
+    applyPersistedState,
+    receiveRemoteState,
+    receiveRemoteOps,
+    boardId,
+    store,
+    unsyncedQueue,
+  ]);
 
-  useEffect(() => {
-    if (SHOULD_USE_LOCAL_SQLITE || isSupabaseConfigured) return;
-    const payload: PersistedState = {
-      version: 2,
+  const boardState = useMemo<PersistedState>(
+    () => ({
+      version: BOARD_STATE_VERSION,
       pricePerSquare,
       isLocked,
       rowLabels,
       colLabels,
       grid,
-      gameResult,
-    };
-    try {
-      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(payload));
-    } catch (error) {
-      console.warn("Failed to save board state.", error);
-    }
-  }, [pricePerSquare, isLocked, rowLabels, colLabels, grid, gameResult]);
-
-  useEffect(() => {
-    if (!SHOULD_USE_LOCAL_SQLITE || !isRemoteReady) return;
-    if (skipNextSaveRef.current) {
-      skipNextSaveRef.current = false;
-      return;
-    }
-    const payload: PersistedState = {
-      version: 2,
+      periodResults,
+      payoutRules,
+      gameSettings,
+      fairDraw,
+      claimHoldMinutes,
+      payments,
+      periodScores,
+    }),
+    [
       pricePerSquare,
       isLocked,
       rowLabels,
       colLabels,
       grid,
-      gameResult,
-    };
-    const payloadString = JSON.stringify(payload);
-    if (payloadString === lastSavedRef.current) return;
-    lastSavedRef.current = payloadString;
+      periodResults,
+      payoutRules,
+      gameSettings,
+      fairDraw,
+      claimHoldMinutes,
+      payments,
+      periodScores,
+    ],
+  );
 
-    fetch(`${SQLITE_API_BASE}/${encodeURIComponent(BOARD_ID)}`, {
-      method: "PUT",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ data: payload }),
-    })
-      .then((response) => {
-        if (!response.ok) {
-          throw new Error(`Local SQLite save failed with ${response.status}`);
+  /**
+   * Rebases local edits onto the server's state after a rejected save.
+   * Returns false when that state came from a newer app and saving stops.
+   */
+  const rebaseOnRemote = useCallback(
+    (current: BoardStateSnapshot, base: PersistedState | null, local: PersistedState) => {
+      const read = readPersistedState(current.data);
+      if (!read) throw new Error("The saved board state could not be read.");
+      if (read.status === "newer") {
+        blockNewerBoard(read.version);
+        return false;
+      }
+      const remote = read.state;
+      addStateWarnings(read.warnings);
+      const { merged, conflicts } = mergeBoardStates(base ?? EMPTY_BOARD_STATE, local, remote);
+      setSyncedRevision(current.revision);
+      syncedStateRef.current = remote;
+      queuedSaveRef.current = merged;
+      lastSavedRef.current = JSON.stringify(merged);
+      applyPersistedState(merged);
+      if (conflicts.length > 0) {
+        setSaveConflict({ local, conflicts });
+      }
+      return true;
+    },
+    [addStateWarnings, applyPersistedState, blockNewerBoard, setSyncedRevision],
+  );
+
+  /** Sends saves queued while offline, oldest first. Returns false if any are left. */
+  const replayUnsyncedSaves = useCallback(async () => {
+    let unsynced = unsyncedQueue.list();
+    // Later saves build on the revision the one before them created.
+    let baseRevision = unsynced[0]?.baseRevision ?? 0;
+    while (unsynced.length > 0 && newerBoardVersionRef.current === null) {
+      const [oldest] = unsynced;
+      let result: SaveBoardStateResult;
+      try {
+        result = await store.save(boardId, {
+          ops: oldest.ops,
+          baseState: oldest.baseState,
+          nextState: oldest.nextState,
+          baseRevision,
+        });
+      } catch (error) {
+        if (isNetworkError(error)) throw error;
+        // The server refused it, so drop it and send the rest.
+        setRejectedSaveError(error instanceof Error ? error.message : "The save was refused.");
+        console.warn("Dropped a queued board change the server refused.", error);
+        await unsyncedQueue.shift();
+        unsynced = unsyncedQueue.list();
+        continue;
+      }
+
+      if (result.status === "saved") {
+        await unsyncedQueue.shift();
+        if (result.revision >= (revisionRef.current ?? 0)) {
+          setSyncedRevision(result.revision);
+          syncedStateRef.current = oldest.nextState;
         }
-      })
-      .catch((error) => {
-        console.warn("Failed to save board to local SQLite.", error);
-      });
+        baseRevision = result.revision;
+      } else if (result.status === "unauthorized") {
+        // Kept for after the next login.
+        onSessionExpired();
+        throw new Error("Admin session expired. Log in again to sync your changes.");
+      } else {
+        // The board moved on while we were offline: merge everything left in one go.
+        const local = queuedSaveRef.current ?? unsynced[unsynced.length - 1].nextState;
+        await unsyncedQueue.clear();
+        rebaseOnRemote(result.current, oldest.baseState, local);
+      }
+      unsynced = unsyncedQueue.list();
+    }
+    return unsynced.length === 0;
+  }, [boardId, onSessionExpired, rebaseOnRemote, setSyncedRevision, store, unsyncedQueue]);
+
+  const flushBoardSave = useCallback(async () => {
+    // One request in flight at a time so every save carries the latest revision.
+    if (isSavingRef.current) return;
+    isSavingRef.current = true;
+    try {
+      try {
+        await replayUnsyncedSaves();
+        setSyncError(null);
+      } catch (error) {
+        setSyncError(error instanceof Error ? error.message : "Could not reach the server.");
+        console.warn("Failed to sync queued board changes.", error);
+      }
+      while (queuedSaveRef.current && newerBoardVersionRef.current === null) {
+        const payload = queuedSaveRef.current;
+        const unsynced = unsyncedQueue.list();
+        const base =
+          unsynced.length > 0 ? unsynced[unsynced.length - 1].nextState : syncedStateRef.current;
+        const wholeBoardOp = queuedWholeBoardOpRef.current;
+        queuedSaveRef.current = null;
+        queuedWholeBoardOpRef.current = null;
+        const ops: BoardOp[] = wholeBoardOp
+          ? [{ ...wholeBoardOp, state: payload }]
+          : diffBoardStates(base, payload);
+        if (ops.length === 0) continue;
+        const save = {
+          ops,
+          baseState: base,
+          nextState: payload,
+          baseRevision: revisionRef.current ?? 0,
+        };
+        // Queued saves go first, so this one waits behind them.
+        if (unsynced.length > 0) {
+          await unsyncedQueue.push(save);
+          continue;
+        }
+
+        let result: SaveBoardStateResult;
+        try {
+          result = await store.save(boardId, save);
+        } catch (error) {
+          if (!isNetworkError(error)) {
+            setRejectedSaveError(error instanceof Error ? error.message : "The save was refused.");
+            console.warn("The server refused a board save.", error);
+            continue;
+          }
+          setSyncError(error instanceof Error ? error.message : "Could not reach the server.");
+          console.warn("Failed to save board state; keeping it to sync later.", error);
+          await unsyncedQueue.push(save);
+          continue;
+        }
+
+        if (result.status === "saved") {
+          setRejectedSaveError(null);
+          if (result.revision >= (revisionRef.current ?? 0)) {
+            setSyncedRevision(result.revision);
+            syncedStateRef.current = payload;
+          }
+          continue;
+        }
+
+        if (result.status === "unauthorized") {
+          queuedSaveRef.current = null;
+          lastSavedRef.current = null;
+          onSessionExpired();
+          throw new Error("Admin session expired. Log in again to save changes.");
+        }
+
+        // Someone saved first: rebase our edits onto their state and retry.
+        if (!rebaseOnRemote(result.current, base, queuedSaveRef.current ?? payload)) break;
+      }
+    } catch (error) {
+      console.warn("Failed to save board state.", error);
+    } finally {
+      isSavingRef.current = false;
+    }
   }, [
-    pricePerSquare,
-    isLocked,
-    rowLabels,
-    colLabels,
-    grid,
-    gameResult,
-    isRemoteReady,
+    boardId,
+    onSessionExpired,
+    rebaseOnRemote,
+    replayUnsyncedSaves,
+    setSyncedRevision,
+    store,
+    unsyncedQueue,
   ]);
 
-  useEffect(() => {
-    if (
-      SHOULD_USE_LOCAL_SQLITE ||
-      !isSupabaseConfigured ||
-      !supabase ||
-      !isRemoteReady
-    ) {
-      return;
+  const handleRevertRejectedSave = () => {
+    setRejectedSaveError(null);
+    const synced = syncedStateRef.current;
+    if (!synced) return;
+    lastSavedRef.current = JSON.stringify(synced);
+    skipNextSaveRef.current = true;
+    applyPersistedState(synced);
+  };
+
+  const handleDiscardUnsynced = async () => {
+    if (!window.confirm("Discard the changes that have not synced yet?")) return;
+    await unsyncedQueue.clear();
+    queuedSaveRef.current = null;
+    setSyncError(null);
+    const synced = syncedStateRef.current;
+    if (!synced) return;
+    lastSavedRef.current = JSON.stringify(synced);
+    skipNextSaveRef.current = true;
+    applyPersistedState(synced);
+  };
+
+  const loadBoardRevision = useCallback(
+    async (revision: number) => {
+      const read = readPersistedState(await fetchBoardRevision(boardId, revision));
+      if (read?.status === "newer") {
+        throw new Error(`Revision #${revision} was saved by a newer version of the app.`);
+      }
+      return read?.state ?? null;
+    },
+    [boardId],
+  );
+
+  /** Saved as one op so history and the audit log name it, even when nothing differs. */
+  const replaceWholeBoard = async (next: PersistedState, intent: WholeBoardOpIntent) => {
+    if (newerBoardVersionRef.current !== null) {
+      throw new Error("This board was saved by a newer version of the app. Reload to update.");
     }
+    applyPersistedState(next);
+    queuedSaveRef.current = next;
+    queuedWholeBoardOpRef.current = intent;
+    lastSavedRef.current = JSON.stringify(next);
+    await flushBoardSave();
+  };
+
+  const handleRestoreRevision = async (revision: number, action: BoardRestoreAction) => {
+    if (!isAdmin) return;
+    const restored = await loadBoardRevision(revision);
+    if (!restored) throw new Error(`Revision #${revision} could not be loaded.`);
+    await replaceWholeBoard(restored, { type: "restore", revision, action });
+  };
+
+  useEffect(() => {
+    if (!isStoreReady || newerBoardVersion !== null) return;
     if (skipNextSaveRef.current) {
       skipNextSaveRef.current = false;
       return;
     }
-    const payload: PersistedState = {
-      version: 2,
-      pricePerSquare,
-      isLocked,
-      rowLabels,
-      colLabels,
-      grid,
-      gameResult,
-    };
-    const payloadString = JSON.stringify(payload);
+    // Shared stores only accept admin writes.
+    if (store.isShared && !isAdmin) return;
+    const payloadString = JSON.stringify(boardState);
     if (payloadString === lastSavedRef.current) return;
     lastSavedRef.current = payloadString;
-    supabase
-      .from("board_state")
-      .upsert({ id: BOARD_ID, data: payload })
-      .then(({ error }) => {
-        if (error) {
-          console.warn("Failed to save board to Supabase.", error);
-        }
-      });
-  }, [
-    pricePerSquare,
-    isLocked,
-    rowLabels,
-    colLabels,
-    grid,
-    gameResult,
-    isRemoteReady,
-  ]);
+    queuedSaveRef.current = boardState;
+    void flushBoardSave();
+  }, [boardState, isStoreReady, newerBoardVersion, isAdmin, flushBoardSave, store]);
+
+  const hasUnsyncedSaves = unsyncedCount > 0;
+  useEffect(() => {
+    if (!hasUnsyncedSaves || !isStoreReady || newerBoardVersion !== null) return;
+    if (store.isShared && !isAdmin) return;
+    const retry = () => void flushBoardSave();
+    // Browsers report "online" optimistically, so keep retrying on a timer as well.
+    retry();
+    window.addEventListener("online", retry);
+    const timer = window.setInterval(retry, UNSYNCED_RETRY_MS);
+    return () => {
+      window.removeEventListener("online", retry);
+      window.clearInterval(timer);
+    };
+  }, [hasUnsyncedSaves, isStoreReady, newerBoardVersion, isAdmin, flushBoardSave, store]);
+
+  useEffect(() => {
+    const timer = window.setInterval(
+      () => setClaimClock(Date.now()),
+      CLAIM_RELEASE_CHECK_MS,
+    );
+    return () => window.clearInterval(timer);
+  }, []);
+
+  // Every client drops lapsed requests from its view; only admins persist it. Once the board
+  // is locked the grid is part of the draw, so pending squares wait for the admin instead.
+  useEffect(() => {
+    if (isLocked) return;
+    setGrid((prev) => releaseExpiredClaims(prev, claimHoldMinutes, claimClock));
+  }, [claimHoldMinutes, claimClock, isLocked]);
 
   // Derived State
+  const pendingClaims = useMemo(() => listPendingClaims(grid), [grid]);
   const totalEntries = useMemo(() => {
     let count = 0;
     grid.forEach((row) =>
@@ -1102,14 +1511,68 @@ const App: React.FC = () => {
   }, [grid]);
 
   const totalPot = totalEntries * pricePerSquare;
+  const payoutBreakdown = useMemo(
+    () => computePayoutBreakdown(totalPot, payoutRules),
+    [payoutRules, totalPot],
+  );
+  const payoutSummaryText = [
+    ...PAYOUT_PERIODS.filter(
+      (period) =>
+        payoutRules.periodPercentages[period] > 0 || payoutRules.fixedPrizes[period] > 0,
+    ).map((period) => {
+      const fixedPrize = payoutRules.fixedPrizes[period];
+      const percentage = payoutRules.periodPercentages[period];
+      return `${PAYOUT_PERIOD_LABELS[period]} ${[
+        fixedPrize > 0 ? formatPayoutAmount(fixedPrize) : null,
+        percentage > 0 ? `${percentage}%` : null,
+      ]
+        .filter(Boolean)
+        .join(" + ")}`;
+    }),
+    payoutRules.houseCutPercent > 0
+      ? `${payoutRules.houseCutLabel} ${payoutRules.houseCutPercent}%`
+      : null,
+  ]
+    .filter(Boolean)
+    .join(" • ");
+  const payoutSettlement = useMemo(
+    () => computePayoutSettlement(periodResults, payoutBreakdown, payoutRules),
+    [payoutBreakdown, payoutRules, periodResults],
+  );
+  const payoutAwards = payoutSettlement.awards;
+  const paymentLedger = useMemo(
+    () =>
+      buildPaymentLedger({ grid, pricePerSquare, payments, awards: payoutAwards }),
+    [grid, pricePerSquare, payments, payoutAwards],
+  );
+  const latestBonusCells = useMemo(
+    () =>
+      latestPeriodResult
+        ? payoutAwards
+            .filter(
+              (award) =>
+                award.period === latestPeriodResult.period &&
+                (award.kind === "reverse" || award.kind === "neighbor"),
+            )
+            .map((award) => ({
+              row: award.row,
+              col: award.col,
+              kind: award.kind as Extract<PayoutAwardKind, "reverse" | "neighbor">,
+            }))
+        : [],
+    [latestPeriodResult, payoutAwards],
+  );
   const finalScoreDisplay = gameResult
     ? `${homeTeam} ${gameResult.homeScore} - ${awayTeam} ${gameResult.awayScore}`
     : "Not available";
   const finalScoreStatusMessage = gameResult
     ? `Final score posted. Winning square: #${gameResult.winnerSquareNumber}.`
-    : "Final score not available yet.";
+    : latestPeriodResult
+      ? `${PAYOUT_PERIOD_LABELS[latestPeriodResult.period]} score posted. Winning square: #${latestPeriodResult.winnerSquareNumber}.`
+      : "Final score not available yet.";
   const isFinalScorePristine =
-    !gameResult &&
+    periodResults.length === 0 &&
+    periodScores.length === 0 &&
     homeFinalScore.trim() === "" &&
     awayFinalScore.trim() === "" &&
     !finalizeError;
@@ -1133,10 +1596,12 @@ const App: React.FC = () => {
     !isUsingLocalLiveSimulator &&
     liveSnapshotAgeMs !== null &&
     liveSnapshotAgeMs > LIVE_SNAPSHOT_STALE_AFTER_MS;
-  const shouldShowLeadersPanel = isLocked && !gameResult;
-  const leadersStatusMessage = realtimeSquareOdds
-    ? "Realtime leaderboard: rankings update continuously as the live model moves."
-    : "Smart-model leaderboard: rankings use current square win probabilities.";
+  const shouldShowLeadersPanel = isLocked;
+  const leadersStatusMessage = gameResult
+    ? "Final leaderboard: rankings use amounts won across all payout periods."
+    : realtimeSquareOdds
+      ? "Realtime leaderboard: rankings update continuously as the live model moves."
+      : "Smart-model leaderboard: rankings use current square win probabilities.";
   const playerLeaders = useMemo(() => {
     const players = new Map<string, PlayerLeaderboardEntry>();
 
@@ -1147,7 +1612,7 @@ const App: React.FC = () => {
         const rawPlayer = cell.player?.trim();
         if (!rawPlayer) continue;
 
-        const playerKey = normalizeText(rawPlayer);
+        const playerKey = getPlayerKey(rawPlayer);
         if (!playerKey) continue;
 
         const oddsValue = boardSquareOdds?.[rowIndex]?.[colIndex];
@@ -1155,6 +1620,7 @@ const App: React.FC = () => {
           typeof oddsValue === "number" && Number.isFinite(oddsValue)
             ? oddsValue
             : 1;
+        const squareAmountWon = sumAwardsForSquare(payoutAwards, rowIndex, colIndex);
 
         const existing = players.get(playerKey);
         if (!existing) {
@@ -1163,17 +1629,22 @@ const App: React.FC = () => {
             playerName: rawPlayer,
             totalWinProbability: squareWinProbability,
             squareCount: 1,
+            amountWon: squareAmountWon,
           });
           continue;
         }
 
         existing.totalWinProbability += squareWinProbability;
         existing.squareCount += 1;
+        existing.amountWon += squareAmountWon;
       }
     }
 
     const allEntries = Array.from(players.values());
     const sorted = [...allEntries].sort((left, right) => {
+      if (Math.abs(right.amountWon - left.amountWon) > 0.001) {
+        return right.amountWon - left.amountWon;
+      }
       if (Math.abs(right.totalWinProbability - left.totalWinProbability) > 0.0001) {
         return right.totalWinProbability - left.totalWinProbability;
       }
@@ -1187,7 +1658,7 @@ const App: React.FC = () => {
       playerCount: allEntries.length,
       topFive: sorted.slice(0, TOP_LEADERS_LIMIT),
     };
-  }, [boardSquareOdds, grid]);
+  }, [boardSquareOdds, grid, payoutAwards]);
 
   const selectedSquareCell = selectedSquare
     ? grid[selectedSquare.row]?.[selectedSquare.col] ?? null
@@ -1204,27 +1675,76 @@ const App: React.FC = () => {
             : null;
         })()
       : null;
-  const selectedSquareHomeDigit = selectedSquare
+  const selectedSquareAmountWon = selectedSquare
+    ? sumAwardsForSquare(payoutAwards, selectedSquare.row, selectedSquare.col)
+    : 0;
+  const selectedSquareRowDigit = selectedSquare
     ? rowLabels[selectedSquare.row] ?? null
     : null;
-  const selectedSquareAwayDigit = selectedSquare
+  const selectedSquareColDigit = selectedSquare
     ? colLabels[selectedSquare.col] ?? null
     : null;
 
   // Actions
-  const handleShuffle = useCallback(() => {
-    if (!isAdmin || isLocked) return;
-    const shuffle = (array: number[]) => {
-      const newArr = [...array];
-      for (let i = newArr.length - 1; i > 0; i -= 1) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [newArr[i], newArr[j]] = [newArr[j], newArr[i]];
-      }
-      return newArr;
-    };
-    setRowLabels(shuffle(rowLabels));
-    setColLabels(shuffle(colLabels));
-  }, [rowLabels, colLabels, isAdmin, isLocked]);
+  const handleCommitDraw = useCallback(async () => {
+    if (!isAdmin || isLocked || fairDraw?.seed) return;
+    if (
+      fairDraw &&
+      !window.confirm(
+        "Replace the published draw commitment? The old hash stays listed on the board as replaced.",
+      )
+    ) {
+      return;
+    }
+    try {
+      const seed = generateDrawSeed();
+      const commitment = await createDrawCommitment(seed, fairDraw);
+      storeDrawSeed(boardId, seed);
+      setFairDraw(commitment);
+      setDrawError(null);
+    } catch (error) {
+      setDrawError(
+        error instanceof Error ? error.message : "Could not commit the draw.",
+      );
+    }
+  }, [boardId, fairDraw, isAdmin, isLocked]);
+
+  const handleToggleLock = useCallback(async () => {
+    if (!isAdmin) return;
+    if (isLocked) {
+      setIsLocked(false);
+      return;
+    }
+    // Numbers drawn at an earlier lock stay put when the board is re-locked.
+    if (fairDraw?.seed) {
+      setIsLocked(true);
+      return;
+    }
+    if (!fairDraw) {
+      setDrawError("Commit the draw before locking the board.");
+      return;
+    }
+    const seed = readStoredDrawSeed(boardId);
+    if (!seed) {
+      setDrawError(
+        "This browser does not hold the committed seed. Re-commit the draw before locking.",
+      );
+      return;
+    }
+    try {
+      const revealed = await revealDraw(fairDraw, seed, grid);
+      setRowLabels(revealed.rowLabels);
+      setColLabels(revealed.colLabels);
+      setFairDraw(revealed.draw);
+      setIsLocked(true);
+      setDrawError(null);
+      storeDrawSeed(boardId, null);
+    } catch (error) {
+      setDrawError(
+        error instanceof Error ? error.message : "Could not reveal the draw.",
+      );
+    }
+  }, [boardId, fairDraw, grid, isAdmin, isLocked]);
 
   const handleSquareClick = (row: number, col: number) => {
     setSelectedSquare({ row, col });
@@ -1236,13 +1756,19 @@ const App: React.FC = () => {
     setIsEditModalOpen(true);
   };
 
+  const handleRequestSquareFromDetails = () => {
+    if (!selectedSquare || isAdmin || isLocked) return;
+    setActiveCell(selectedSquare);
+    setIsEditModalOpen(true);
+  };
+
   const handleSaveSquare = (name: string) => {
     if (activeCell && isAdmin) {
       const newGrid = grid.map((row) => [...row]);
-      const cell = newGrid[activeCell.row][activeCell.col];
 
       newGrid[activeCell.row][activeCell.col] = {
-        ...cell,
+        row: activeCell.row,
+        col: activeCell.col,
         player: name || null,
         status: name ? "approved" : "empty",
       };
@@ -1251,11 +1777,36 @@ const App: React.FC = () => {
     }
   };
 
+  const handleRequestSquare = async (name: string) => {
+    if (!activeCell || isAdmin || isLocked) return;
+    const square = activeCell;
+    const squareNumber = square.row * 10 + square.col + 1;
+    try {
+      const payload = await requestSquareClaim(boardId, { ...square, player: name });
+      if (payload) {
+        const read = readPersistedState(payload);
+        if (read?.status === "ok") applyPersistedState(read.state);
+      } else {
+        setGrid(applySquareClaim(grid, square, name, claimHoldMinutes, Date.now()));
+      }
+      setClaimNotice({
+        tone: "success",
+        message: `Square #${squareNumber} is pending for ${name.trim()}. The admin will confirm it.`,
+      });
+    } catch (error) {
+      setClaimNotice({
+        tone: "error",
+        message: error instanceof Error ? error.message : "Square request failed.",
+      });
+    }
+  };
+
   const handleDeleteSquare = () => {
     if (activeCell && isAdmin) {
       const newGrid = grid.map((row) => [...row]);
       newGrid[activeCell.row][activeCell.col] = {
-        ...newGrid[activeCell.row][activeCell.col],
+        row: activeCell.row,
+        col: activeCell.col,
         player: null,
         status: "empty",
       };
@@ -1265,27 +1816,78 @@ const App: React.FC = () => {
 
   const handleApproveSquare = () => {
     if (activeCell && isAdmin) {
-      const newGrid = grid.map((row) => [...row]);
-      newGrid[activeCell.row][activeCell.col] = {
-        ...newGrid[activeCell.row][activeCell.col],
-        status: "approved",
-      };
-      setGrid(newGrid);
+      setGrid(resolvePendingClaims(grid, [activeCell], "approve"));
     }
   };
 
-  const handleResetBoard = () => {
+  const handleSavePayment = (
+    update: Omit<PlayerPayment, "playerKey" | "updatedAt">,
+  ) => {
+    if (!isAdmin) return;
+    setPayments((prev) => upsertPlayerPayment(prev, update));
+  };
+
+  const handleExportLedgerCsv = () => {
+    if (!isAdmin) return;
+    downloadFile(
+      `${boardId}-payments.csv`,
+      buildPaymentLedgerCsv(paymentLedger),
+      "text/csv;charset=utf-8",
+    );
+  };
+
+  const handleExportAuditCsv = (entries: AuditEntry[]) => {
+    downloadFile(`${boardId}-audit-log.csv`, buildAuditLogCsv(entries), "text/csv;charset=utf-8");
+  };
+
+  const handleResolveClaims = (
+    squares: { row: number; col: number }[],
+    decision: ClaimDecision,
+  ) => {
     if (!isAdmin) return;
+    setGrid((prev) => resolvePendingClaims(prev, squares, decision));
+  };
+
+  const handleResolveSaveConflict = (keepLocalKeys: Set<string>) => {
+    if (saveConflict && keepLocalKeys.size > 0) {
+      applyPersistedState(
+        applyConflictChoices(
+          boardState,
+          saveConflict.local,
+          saveConflict.conflicts,
+          keepLocalKeys,
+        ),
+      );
+    }
+    setSaveConflict(null);
+  };
+
+  const handleResetBoard = () => {
+    if (!isAdmin || newerBoardVersion !== null) return;
     if (
       window.confirm(
-        "Are you sure you want to clear the entire board? This cannot be undone.",
+        HAS_REMOTE_BOARD_STATE
+          ? "Are you sure you want to clear the entire board? You can undo this from History."
+          : "Are you sure you want to clear the entire board? This cannot be undone.",
       )
     ) {
-      setGrid(createEmptyGrid());
-      setRowLabels(INITIAL_ROWS);
-      setColLabels(INITIAL_COLS);
-      setIsLocked(false);
-      setGameResult(null);
+      void replaceWholeBoard(
+        {
+          ...boardState,
+          grid: createEmptyGrid(),
+          rowLabels: INITIAL_ROWS,
+          colLabels: INITIAL_COLS,
+          isLocked: false,
+          fairDraw: null,
+          payments: [],
+          periodResults: [],
+          periodScores: [],
+        },
+        { type: "reset_board" },
+      );
+      setDrawError(null);
+      storeDrawSeed(boardId, null);
+      setScorePeriod(PAYOUT_PERIODS[0]);
       setHomeFinalScore("");
       setAwayFinalScore("");
       setFinalizeError(null);
@@ -1293,6 +1895,59 @@ const App: React.FC = () => {
     }
   };
 
+  const handleExportBoard = () => {
+    if (!isAdmin) return;
+    const file = buildBoardExport({ id: boardId, name: boardSummary?.name ?? null }, boardState);
+    downloadFile(
+      getBoardExportFilename(boardId),
+      JSON.stringify(file, null, 2),
+      "application/json",
+    );
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Clear the input so choosing the same file again still fires a change.
+    event.target.value = "";
+    if (!isAdmin || !file) return;
+    setBoardFileError(null);
+    try {
+      const source = parseBoardExport(await file.text());
+      const read = readPersistedState(source.state);
+      if (!read) throw new Error("The board in that file could not be read.");
+      if (read.status === "newer") {
+        throw new Error(
+          "That board was saved by a newer version of the app. Update to import it.",
+        );
+      }
+      setPendingImport({
+        fileName: file.name,
+        source,
+        state: read.state,
+        changes: diffBoardStates(boardState, read.state).map(describeBoardOp),
+        warnings: read.warnings,
+      });
+    } catch (error) {
+      setBoardFileError(
+        error instanceof Error ? error.message : "That file could not be imported.",
+      );
+    }
+  };
+
+  const handleConfirmImport = () => {
+    if (!isAdmin || !pendingImport || newerBoardVersion !== null) return;
+    const { state } = pendingImport;
+    setPendingImport(null);
+    // A seed kept in this browser only matches the commitment it was made for.
+    if (state.fairDraw?.commitment !== fairDraw?.commitment) {
+      storeDrawSeed(boardId, null);
+    }
+    setDrawError(null);
+    setFinalizeError(null);
+    setSelectedSquare(null);
+    void replaceWholeBoard(state, { type: "replace_state" });
+  };
+
   const handleFinalizeGame = (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     if (!isAdmin) return;
@@ -1315,47 +1970,98 @@ const App: React.FC = () => {
       return;
     }
 
-    const homeLastDigit = getScoreLastDigit(homeScore);
-    const awayLastDigit = getScoreLastDigit(awayScore);
+    recordPeriodResult(scorePeriod, homeScore, awayScore);
+  };
 
-    const winnerRow = rowLabels.findIndex((label) => label === homeLastDigit);
-    const winnerCol = colLabels.findIndex((label) => label === awayLastDigit);
+  const recordPeriodResult = (period: PayoutPeriod, homeScore: number, awayScore: number) => {
+    const nextResult = resolvePeriodResult({
+      period,
+      homeScore,
+      awayScore,
+      rowLabels,
+      colLabels,
+      grid,
+      rules: payoutRules,
+      rowTeam,
+    });
 
-    if (winnerRow === -1 || winnerCol === -1) {
+    if (!nextResult) {
       setFinalizeError("Could not map score digits to the board labels.");
       return;
     }
 
-    const winningCell = grid[winnerRow][winnerCol];
+    announcedResultRef.current = nextResult.submittedAt;
+    setPeriodResults((prev) => upsertPeriodResult(prev, nextResult));
+    setFinalizeError(null);
+    setIsWinnerModalOpen(true);
+  };
 
-    const nextResult: GameResult = {
-      homeScore,
-      awayScore,
-      homeLastDigit,
-      awayLastDigit,
-      winnerRow,
-      winnerCol,
-      winnerSquareNumber: winnerRow * 10 + winnerCol + 1,
-      winnerName: winningCell.player ? winningCell.player.trim() : null,
-      winnerStatus: winningCell.status,
-      submittedAt: new Date().toISOString(),
-    };
+  const handleRecordProposedFinalScore = () => {
+    if (!isAdmin || !isLocked || !finalScoreProposal) return;
+    const { homeScore, awayScore } = finalScoreProposal;
+    setFinalScoreProposal(null);
+    setScorePeriod("final");
+    setHomeFinalScore(String(homeScore));
+    setAwayFinalScore(String(awayScore));
+    recordPeriodResult("final", homeScore, awayScore);
+  };
+
+  const handleDismissProposedFinalScore = () => {
+    // The same score is not offered again; a corrected one is.
+    dismissedFinalScoreRef.current = finalScoreProposal?.key ?? null;
+    // Stops the server's countdown; later final scores wait for approval.
+    if (finalScoreProposal?.isRecordedByServer) {
+      setGameSettings((prev) => ({ ...prev, autoFinalize: "approve" }));
+    }
+    setFinalScoreProposal(null);
+  };
 
-    setGameResult(nextResult);
+  const handleScorePeriodChange = (period: PayoutPeriod) => {
+    const existing =
+      periodResults.find((result) => result.period === period) ??
+      periodScores.find((score) => score.period === period);
+    setScorePeriod(period);
+    setHomeFinalScore(existing ? String(existing.homeScore) : "");
+    setAwayFinalScore(existing ? String(existing.awayScore) : "");
     setFinalizeError(null);
-    setIsWinnerModalOpen(true);
+  };
+
+  const handleUsePeriodScore = (score: PeriodScoreCapture) => {
+    setScorePeriod(score.period);
+    setHomeFinalScore(String(score.homeScore));
+    setAwayFinalScore(String(score.awayScore));
+    setFinalizeError(null);
+  };
+
+  const handleCorrectPeriodScore = (
+    period: PeriodScoreCapture["period"],
+    homeScore: number,
+    awayScore: number,
+  ) => {
+    if (!isAdmin) return;
+    setPeriodScores((prev) =>
+      prev.map((score) =>
+        score.period === period
+          ? { ...score, homeScore, awayScore, source: "admin", isExact: true }
+          : score,
+      ),
+    );
   };
 
   const handleResetFinalScore = () => {
     if (!isAdmin) return;
     if (
       !window.confirm(
-        "Reset final score and winner announcement back to initial state?",
+        "Reset all recorded period scores and winner announcements back to initial state?",
       )
     ) {
       return;
     }
-    setGameResult(null);
+    setPeriodResults([]);
+    setPeriodScores([]);
+    // Lets a boundary the game is sitting at be captured again.
+    previousLiveSnapshotRef.current = null;
+    setScorePeriod(PAYOUT_PERIODS[0]);
     setHomeFinalScore("");
     setAwayFinalScore("");
     setFinalizeError(null);
@@ -1455,6 +2161,22 @@ const App: React.FC = () => {
                 <p className="text-xs sm:text-sm text-slate-400">
                   Official Game Host: Robel Kebede
                 </p>
+                <a
+                  href={BOARD_DIRECTORY_PATH}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    onNavigate(BOARD_DIRECTORY_PATH);
+                  }}
+                  className="text-xs text-emerald-400 hover:text-emerald-300 hover:underline"
+                  title="Open the board directory"
+                >
+                  {boardSummary?.name ?? boardId} • All Boards
+                </a>
+                {boardSummary?.archived && (
+                  <span className="text-xs bg-slate-800 text-slate-400 px-2 py-0.5 rounded-full border border-slate-700">
+                    Archived
+                  </span>
+                )}
                 {isAdmin ? (
                   <span className="text-xs bg-emerald-900 text-emerald-300 px-2 py-0.5 rounded-full border border-emerald-700">
                     Admin Mode
@@ -1497,7 +2219,7 @@ const App: React.FC = () => {
                 <Button
                   variant={isLocked ? "danger" : "primary"}
                   size="sm"
-                  onClick={() => setIsLocked(!isLocked)}
+                  onClick={handleToggleLock}
                   icon={isLocked ? <Lock size={16} /> : <Unlock size={16} />}
                 >
                   {isLocked ? "Board Locked" : "Board Open"}
@@ -1505,7 +2227,7 @@ const App: React.FC = () => {
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => setAdminPasscode(null)}
+                  onClick={onLogout}
                   icon={<LogOut size={16} />}
                 >
                   Logout
@@ -1526,6 +2248,93 @@ const App: React.FC = () => {
       </header>
 
       <main className="max-w-[1600px] mx-auto px-4 sm:px-6 lg:px-8 py-8 sm:py-10 space-y-10">
+        {newerBoardVersion !== null && (
+          <section className="bg-amber-950/40 border border-amber-700 rounded-xl px-4 py-3 text-sm text-amber-200">
+            This board was saved by a newer version of the app (data version {newerBoardVersion}).
+            Reload the page to update. Until then, changes made here are not saved.
+          </section>
+        )}
+
+        {unsyncedCount > 0 && (
+          <section className="bg-sky-950/40 border border-sky-700 rounded-xl px-4 py-3 text-sm text-sky-200 flex flex-wrap items-center gap-3">
+            <CloudOff className="w-4 h-4 shrink-0" />
+            <div className="flex-1 min-w-[14rem]">
+              <p className="font-semibold">
+                {unsyncedCount === 1 ? "1 change" : `${unsyncedCount} changes`} not synced yet
+              </p>
+              <p className="text-xs text-sky-300/80">
+                {isAdmin
+                  ? "They are kept on this device and sync in order once the server can be reached."
+                  : "They are kept on this device. Log in as admin to sync them."}
+                {syncError && ` Last error: ${syncError}`}
+              </p>
+            </div>
+            {isAdmin && (
+              <Button size="sm" variant="secondary" onClick={() => void flushBoardSave()}>
+                Retry Now
+              </Button>
+            )}
+            <Button size="sm" variant="ghost" onClick={() => void handleDiscardUnsynced()}>
+              Discard
+            </Button>
+          </section>
+        )}
+
+        {isAdmin && rejectedSaveError && (
+          <section className="bg-red-950/40 border border-red-800 rounded-xl px-4 py-3 text-sm text-red-200 flex flex-wrap items-center gap-3">
+            <div className="flex-1 min-w-[14rem]">
+              <p className="font-semibold">
+                The server refused your last change, so it was not saved.
+              </p>
+              <p className="text-xs text-red-300/80">{rejectedSaveError}</p>
+            </div>
+            <Button size="sm" variant="secondary" onClick={handleRevertRejectedSave}>
+              Show Saved Board
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setRejectedSaveError(null)}>
+              Dismiss
+            </Button>
+          </section>
+        )}
+
+        {finalScoreProposal && (
+          <FinalScoreProposalBanner
+            homeTeam={homeTeam}
+            awayTeam={awayTeam}
+            homeScore={finalScoreProposal.homeScore}
+            awayScore={finalScoreProposal.awayScore}
+            recordAt={finalScoreProposal.recordAt}
+            onRecord={handleRecordProposedFinalScore}
+            onCountdownEnd={
+              finalScoreProposal.isRecordedByServer ? undefined : handleRecordProposedFinalScore
+            }
+            onDismiss={handleDismissProposedFinalScore}
+          />
+        )}
+
+        {isAdmin && stateWarnings.length > 0 && (
+          <section className="bg-amber-950/40 border border-amber-700 rounded-xl px-4 py-3 text-sm text-amber-200 space-y-2">
+            <div className="flex items-start justify-between gap-3">
+              <p className="font-semibold">Some saved board data could not be read as-is:</p>
+              <button
+                type="button"
+                onClick={() => setStateWarnings([])}
+                className="text-xs text-amber-300 hover:text-amber-100"
+              >
+                Dismiss
+              </button>
+            </div>
+            <ul className="list-disc pl-5 text-xs space-y-0.5">
+              {stateWarnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+            <p className="text-xs text-amber-300/80">
+              The next save keeps the values now showing, so check them before editing.
+            </p>
+          </section>
+        )}
+
         {/* Game Info Banner */}
         <section className="bg-slate-900/50 border border-slate-800 rounded-xl p-6 relative overflow-hidden">
           <div className="absolute top-0 right-0 p-4 opacity-10">
@@ -1546,6 +2355,7 @@ const App: React.FC = () => {
                   <p>
                     ${pricePerSquare} per square. Total pot grows as players join.
                   </p>
+                  <p className="mt-1 text-xs text-slate-400">{payoutSummaryText}</p>
                 </div>
               </div>
               <div className="flex items-start gap-3">
@@ -1568,9 +2378,17 @@ const App: React.FC = () => {
                 <div>
                   <p className="font-semibold text-white mb-1">Fair Play Numbers</p>
                   <p>
-                    Row and column numbers (0-9) are hidden and randomized. They are
-                    revealed only after the board is locked.
+                    Row and column numbers (0-9) are drawn from a seed committed
+                    before lock, so anyone can check the draw below.
                   </p>
+                  <div className="mt-3">
+                    <DrawVerificationPanel
+                      fairDraw={fairDraw}
+                      rowLabels={rowLabels}
+                      colLabels={colLabels}
+                      grid={grid}
+                    />
+                  </div>
                 </div>
               </div>
             </div>
@@ -1613,6 +2431,16 @@ const App: React.FC = () => {
                     />
                   </div>
                 </div>
+                <div>
+                  <label className="block text-xs text-slate-500 mb-1">
+                    Payout Rules
+                  </label>
+                  <PayoutRulesEditor
+                    rules={payoutRules}
+                    grossPot={totalPot}
+                    onSave={setPayoutRules}
+                  />
+                </div>
               </div>
 
               {/* Action Buttons */}
@@ -1622,14 +2450,22 @@ const App: React.FC = () => {
                 </h2>
                 <div className="flex gap-3 flex-col sm:flex-row">
                   <Button
-                    onClick={handleShuffle}
+                    onClick={handleCommitDraw}
                     variant="secondary"
                     className="flex-1"
                     icon={<Shuffle size={16} />}
-                    disabled={isLocked}
-                    title={isLocked ? "Unlock board to shuffle" : "Shuffle row and column numbers"}
+                    disabled={isLocked || Boolean(fairDraw?.seed)}
+                    title={
+                      fairDraw?.seed
+                        ? "Numbers were drawn when the board locked"
+                        : "Publish a hash of the secret draw seed"
+                    }
                   >
-                    Shuffle Numbers
+                    {fairDraw?.seed
+                      ? "Draw Revealed"
+                      : fairDraw
+                        ? "Re-commit Draw"
+                        : "Commit Draw"}
                   </Button>
                   <Button
                     onClick={handleResetBoard}
@@ -1640,11 +2476,55 @@ const App: React.FC = () => {
                     Reset Board
                   </Button>
                 </div>
-                {isLocked && (
+                <div className="flex gap-3 flex-col sm:flex-row">
+                  <Button
+                    onClick={handleExportBoard}
+                    variant="secondary"
+                    className="flex-1"
+                    icon={<Download size={16} />}
+                    title="Download this board as a JSON file"
+                  >
+                    Export Board
+                  </Button>
+                  <Button
+                    onClick={() => importInputRef.current?.click()}
+                    variant="secondary"
+                    className="flex-1"
+                    icon={<Upload size={16} />}
+                    title="Replace this board from an exported JSON file"
+                  >
+                    Import Board
+                  </Button>
+                  <input
+                    ref={importInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={handleImportFile}
+                  />
+                </div>
+                {boardFileError && <p className="text-xs text-red-400">{boardFileError}</p>}
+                {drawError ? (
+                  <p className="text-xs text-red-400">{drawError}</p>
+                ) : (
                   <p className="text-xs text-slate-400">
-                    Numbers are frozen while the board is locked.
+                    {fairDraw?.seed
+                      ? "Numbers were drawn from the revealed seed and are frozen."
+                      : fairDraw
+                        ? "Draw committed. Locking the board reveals the seed and draws the numbers."
+                        : "Commit the draw before locking so players can verify the numbers."}
                   </p>
                 )}
+                <div>
+                  <label className="block text-xs text-slate-500 mb-1">
+                    Matchup
+                  </label>
+                  <GameSettingsPanel
+                    settings={gameSettings}
+                    isLocked={isLocked}
+                    onSave={setGameSettings}
+                  />
+                </div>
               </div>
 
               {/* Final Score Controls */}
@@ -1653,12 +2533,42 @@ const App: React.FC = () => {
                   Finalize Game
                 </h2>
                 <p className="text-xs text-slate-400">
-                  Enter the final score to calculate the winning square and announce the
-                  winner. For players, results are typically posted around {scoreUnlockText}.
-                  Admins can submit anytime after the board is locked.
+                  Record the score at the end of each payout period to calculate its
+                  winning square. For players, final results are typically posted around{" "}
+                  {scoreUnlockText}. Admins can submit anytime after the board is locked.
                 </p>
 
+                {(isLocked || periodScores.length > 0) && (
+                  <PeriodScoreCapturePanel
+                    scores={periodScores}
+                    results={periodResults}
+                    homeTeam={homeTeam}
+                    awayTeam={awayTeam}
+                    onUse={handleUsePeriodScore}
+                    onCorrect={handleCorrectPeriodScore}
+                  />
+                )}
+
                 <form onSubmit={handleFinalizeGame} className="space-y-3">
+                  <label className="block text-xs text-slate-400">
+                    Period
+                    <select
+                      value={scorePeriod}
+                      onChange={(e) =>
+                        handleScorePeriodChange(e.target.value as PayoutPeriod)
+                      }
+                      className="mt-1 w-full bg-slate-900 border border-slate-700 rounded px-2 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none"
+                    >
+                      {PAYOUT_PERIODS.map((period) => (
+                        <option key={period} value={period}>
+                          {PAYOUT_PERIOD_LABELS[period]}
+                          {periodResults.some((result) => result.period === period)
+                            ? " (recorded)"
+                            : ""}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
                     <label className="block text-xs text-slate-400">
                       {homeTeam} score
@@ -1702,7 +2612,11 @@ const App: React.FC = () => {
                   )}
                   <div className="flex gap-2 flex-col sm:flex-row">
                     <Button type="submit" className="flex-1" disabled={!canFinalizeGame}>
-                      {gameResult ? "Update Result" : "Finalize Winner"}
+                      {periodResults.some((result) => result.period === scorePeriod)
+                        ? "Update Result"
+                        : scorePeriod === "final"
+                          ? "Finalize Winner"
+                          : "Record Winner"}
                     </Button>
                     <Button
                       type="button"
@@ -1711,9 +2625,9 @@ const App: React.FC = () => {
                       onClick={handleResetFinalScore}
                       disabled={isFinalScorePristine}
                     >
-                      Reset Final Score
+                      Reset Scores
                     </Button>
-                    {gameResult && (
+                    {latestPeriodResult && (
                       <Button
                         type="button"
                         variant="ghost"
@@ -2035,10 +2949,90 @@ const App: React.FC = () => {
                   )}
                 </div>
               )}
+
+              <div className="space-y-4 bg-slate-950/60 border border-slate-700/80 rounded-lg p-4">
+                <h2 className="text-sm font-bold text-slate-400 uppercase tracking-wider">
+                  Live Session Recorder
+                </h2>
+                <LiveSessionPanel
+                  recordedCount={liveRecorder ? liveRecordedCount : null}
+                  canRecord={liveFeedProvider.id === "espn"}
+                  onStartRecording={handleStartLiveRecording}
+                  onStopRecording={handleStopLiveRecording}
+                  onReplayChange={setLiveReplay}
+                />
+                {isReplayingLiveSession && !isLocked && (
+                  <p className="text-[11px] text-amber-300">
+                    Lock the board to see the replayed game on the grid.
+                  </p>
+                )}
+              </div>
             </div>
           </section>
         )}
 
+        {/* Pending Requests (Admin Only) */}
+        {isAdmin && (
+          <section className="bg-slate-900 rounded-xl border border-slate-800 p-6 shadow-xl space-y-4">
+            <h2 className="text-sm font-bold text-slate-500 uppercase tracking-wider">
+              Pending Requests ({pendingClaims.length})
+            </h2>
+            <ClaimQueuePanel
+              claims={pendingClaims}
+              holdMinutes={claimHoldMinutes}
+              now={claimClock}
+              onHoldMinutesChange={(minutes) =>
+                setClaimHoldMinutes(coerceClaimHoldMinutes(minutes))
+              }
+              onResolve={handleResolveClaims}
+            />
+          </section>
+        )}
+
+        {/* Payments Ledger (Admin Only) */}
+        {isAdmin && (
+          <section className="bg-slate-900 rounded-xl border border-slate-800 p-6 shadow-xl space-y-4">
+            <h2 className="text-sm font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+              <DollarSign size={16} /> Payments
+            </h2>
+            <PaymentLedgerPanel
+              entries={paymentLedger}
+              showSettlement={periodResults.length > 0}
+              onSavePayment={handleSavePayment}
+              onExportCsv={handleExportLedgerCsv}
+            />
+          </section>
+        )}
+
+        {/* Revision History (Admin Only) */}
+        {isAdmin && HAS_REMOTE_BOARD_STATE && (
+          <section className="bg-slate-900 rounded-xl border border-slate-800 p-6 shadow-xl space-y-4">
+            <h2 className="text-sm font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+              <History size={16} /> History
+            </h2>
+            <BoardHistoryPanel
+              boardId={boardId}
+              revision={boardRevision}
+              loadRevision={loadBoardRevision}
+              onRestore={handleRestoreRevision}
+            />
+          </section>
+        )}
+
+        {/* Audit Log (read-only for everyone) */}
+        {HAS_REMOTE_BOARD_STATE && (
+          <section className="bg-slate-900 rounded-xl border border-slate-800 p-6 shadow-xl space-y-4">
+            <h2 className="text-sm font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+              <ScrollText size={16} /> Audit Log
+            </h2>
+            <AuditLogPanel
+              boardId={boardId}
+              revision={boardRevision}
+              onExportCsv={handleExportAuditCsv}
+            />
+          </section>
+        )}
+
         {/* Final Score View */}
         <section className="bg-slate-900/80 border border-slate-800 rounded-xl p-6 shadow-xl">
           <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
@@ -2052,8 +3046,21 @@ const App: React.FC = () => {
               <p className="mt-1 text-sm text-slate-400">
                 {finalScoreStatusMessage}
               </p>
+              {periodResults.length > 0 && (
+                <div className="mt-3 flex flex-wrap gap-2">
+                  {periodResults.map((result) => (
+                    <span
+                      key={result.period}
+                      className="rounded-full border border-slate-700 bg-slate-950/70 px-3 py-1 text-[11px] text-slate-300"
+                    >
+                      {PAYOUT_PERIOD_LABELS[result.period]}: {result.homeScore}-
+                      {result.awayScore} • {result.winnerName ?? "Unclaimed"}
+                    </span>
+                  ))}
+                </div>
+              )}
             </div>
-            {gameResult && (
+            {latestPeriodResult && (
               <Button
                 type="button"
                 variant="secondary"
@@ -2073,7 +3080,18 @@ const App: React.FC = () => {
               <h2 className="text-2xl font-bold text-white mb-1">Game Board</h2>
               {!isAdmin && (
                 <p className="text-slate-400 text-sm">
-                  Tell the admin which number (1-100) you want to claim.
+                  {isLocked
+                    ? "The board is locked. No new requests are being taken."
+                    : "Click an open square to request it. It stays pending until the admin approves it."}
+                </p>
+              )}
+              {!isAdmin && claimNotice && (
+                <p
+                  className={`text-sm ${
+                    claimNotice.tone === "success" ? "text-emerald-400" : "text-red-400"
+                  }`}
+                >
+                  {claimNotice.message}
                 </p>
               )}
               {isAdmin && (
@@ -2126,7 +3144,10 @@ const App: React.FC = () => {
                         realtimeSquareOdds &&
                         liveSnapshotUpdatedText && (
                           <p className="text-[11px] text-slate-500">
-                            Last live update {liveSnapshotUpdatedText}
+                            Last live update {liveSnapshotUpdatedText} from{" "}
+                            {isReplayingLiveSession
+                              ? "a recorded session"
+                              : LIVE_FEED_PROVIDER_LABELS[liveFeedProvider.id]}
                             {isLiveSnapshotStale ? " (stale feed, retrying)." : "."}
                           </p>
                         )}
@@ -2209,10 +3230,15 @@ const App: React.FC = () => {
                         </span>
                       </div>
                       <p className="mt-2 text-xl font-black text-emerald-300">
-                        {entry.totalWinProbability.toFixed(2)}%
+                        {gameResult
+                          ? formatPayoutAmount(entry.amountWon)
+                          : `${entry.totalWinProbability.toFixed(2)}%`}
                       </p>
                       <p className="text-[11px] text-slate-500">
                         {entry.squareCount} square{entry.squareCount === 1 ? "" : "s"}
+                        {!gameResult && entry.amountWon > 0
+                          ? ` • Won ${formatPayoutAmount(entry.amountWon)}`
+                          : ""}
                       </p>
                     </div>
                   ))}
@@ -2226,8 +3252,8 @@ const App: React.FC = () => {
             colLabels={colLabels}
             grid={grid}
             onSquareClick={handleSquareClick}
-            homeTeamName={homeTeam}
-            awayTeamName={awayTeam}
+            rowTeamName={rowTeamName}
+            colTeamName={colTeamName}
             isAdmin={isAdmin}
             isLocked={isLocked}
             showSquareOdds={shouldShowSquareOdds}
@@ -2245,13 +3271,14 @@ const App: React.FC = () => {
             liveHeatmapUpdatedAt={liveSnapshotUpdatedText}
             isLiveHeatmapStale={isLiveSnapshotStale}
             winningCell={
-              gameResult
+              latestPeriodResult
                 ? {
-                    row: gameResult.winnerRow,
-                    col: gameResult.winnerCol,
+                    row: latestPeriodResult.winnerRow,
+                    col: latestPeriodResult.winnerCol,
                   }
                 : null
             }
+            bonusCells={latestBonusCells}
           />
         </section>
       </main>
@@ -2260,7 +3287,7 @@ const App: React.FC = () => {
       <EditModal
         isOpen={isEditModalOpen}
         onClose={() => setIsEditModalOpen(false)}
-        onSave={handleSaveSquare}
+        onSave={isAdmin ? handleSaveSquare : handleRequestSquare}
         onDelete={handleDeleteSquare}
         onApprove={handleApproveSquare}
         initialName={activeCell ? grid[activeCell.row][activeCell.col].player : ""}
@@ -2276,28 +3303,56 @@ const App: React.FC = () => {
         onClose={() => setSelectedSquare(null)}
         squareNumber={selectedSquareNumber}
         playerName={selectedSquareCell?.player ?? null}
-        rowDigit={selectedSquareHomeDigit}
-        colDigit={selectedSquareAwayDigit}
-        homeTeamName={homeTeam}
-        awayTeamName={awayTeam}
+        rowDigit={selectedSquareRowDigit}
+        colDigit={selectedSquareColDigit}
+        rowTeamName={rowTeamName}
+        colTeamName={colTeamName}
         winPercentage={selectedSquareWinProbability}
         areDigitsRevealed={isLocked}
         areOddsVisible={!gameResult}
         cellStatus={selectedSquareCell?.status ?? "empty"}
+        amountWon={selectedSquareAmountWon}
         isAdmin={isAdmin}
         onManageSquare={isAdmin ? handleManageSquareFromDetails : undefined}
+        onRequestSquare={
+          !isAdmin && !isLocked ? handleRequestSquareFromDetails : undefined
+        }
       />
 
+      {pendingImport && isAdmin && (
+        <BoardImportModal
+          fileName={pendingImport.fileName}
+          source={pendingImport.source}
+          imported={pendingImport.state}
+          changes={pendingImport.changes}
+          warnings={pendingImport.warnings}
+          onConfirm={handleConfirmImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
+      {saveConflict && isAdmin && (
+        <ConflictModal
+          conflicts={saveConflict.conflicts}
+          local={saveConflict.local}
+          current={boardState}
+          onResolve={handleResolveSaveConflict}
+        />
+      )}
+
       <AuthModal
         isOpen={isAuthModalOpen}
         onClose={() => setIsAuthModalOpen(false)}
-        onLogin={setAdminPasscode}
+        onLogin={onLogin}
       />
 
       <WinnerModal
         isOpen={isWinnerModalOpen}
         onClose={() => setIsWinnerModalOpen(false)}
-        result={gameResult}
+        results={periodResults}
+        settlement={payoutSettlement}
+        breakdown={payoutBreakdown}
+        houseCutLabel={payoutRules.houseCutLabel}
         homeTeam={homeTeam}
         awayTeam={awayTeam}
       />
@@ -2305,4 +3360,72 @@ const App: React.FC = () => {
   );
 };
 
+const App: React.FC = () => {
+  const [route, setRoute] = useState<BoardRoute>(() =>
+    parseBoardRoute(typeof window === "undefined" ? "/" : window.location.pathname),
+  );
+  const [adminSession, setAdminSession] = useState<AdminSession | null>(null);
+  const isAdmin = adminSession !== null;
+
+  useEffect(() => {
+    let cancelled = false;
+    restoreAdminSession()
+      .then((session) => {
+        if (!cancelled) setAdminSession(session);
+      })
+      .catch((error) => {
+        console.warn("Failed to restore admin session.", error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleLogout = useCallback(() => {
+    setAdminSession(null);
+    void logoutAdmin();
+  }, []);
+
+  const handleSessionExpired = useCallback(() => {
+    clearAdminSession();
+    setAdminSession(null);
+  }, []);
+
+  useEffect(() => {
+    const handlePopState = () => setRoute(parseBoardRoute(window.location.pathname));
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, []);
+
+  const handleNavigate = useCallback((path: string) => {
+    window.history.pushState(null, "", path);
+    setRoute(parseBoardRoute(path));
+    window.scrollTo(0, 0);
+  }, []);
+
+  if (route.kind === "directory") {
+    return (
+      <BoardDirectory
+        isAdmin={isAdmin}
+        onLogin={setAdminSession}
+        onLogout={handleLogout}
+        onNavigate={handleNavigate}
+      />
+    );
+  }
+
+  return (
+    <BoardApp
+      key={route.boardId}
+      boardId={route.boardId}
+      store={DEFAULT_BOARD_STORE}
+      isAdmin={isAdmin}
+      onLogin={setAdminSession}
+      onLogout={handleLogout}
+      onSessionExpired={handleSessionExpired}
+      onNavigate={handleNavigate}
+    />
+  );
+};
+
 export default App;
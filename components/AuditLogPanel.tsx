@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from "react";
+import { Download } from "lucide-react";
+import { Button } from "./Button";
+import { AuditEntry } from "../types";
+import { listAuditLog } from "../services/auditLogService";
+import { AUDIT_ACTION_LABELS } from "../services/auditLogRules";
+
+interface AuditLogPanelProps {
+  boardId: string;
+  /** Current board revision; the log reloads whenever it changes. */
+  revision: number | null;
+  onExportCsv: (entries: AuditEntry[]) => void;
+}
+
+const COLLAPSED_ENTRY_COUNT = 50;
+
+const formatTimestamp = (value: string): string => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+};
+
+export const AuditLogPanel: React.FC<AuditLogPanelProps> = ({
+  boardId,
+  revision,
+  onExportCsv,
+}) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState("");
+  const [showAll, setShowAll] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    listAuditLog(boardId)
+      .then((next) => {
+        if (cancelled) return;
+        setEntries(next);
+        setError(null);
+      })
+      .catch((loadError) => {
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : "Could not load the audit log.");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [boardId, revision]);
+
+  const query = filter.trim().toLowerCase();
+  const matchingEntries = [...entries]
+    .reverse()
+    .filter(
+      (entry) =>
+        !query ||
+        [entry.actor, entry.target, entry.before, entry.after, AUDIT_ACTION_LABELS[entry.action]]
+          .join(" ")
+          .toLowerCase()
+          .includes(query),
+    );
+  const visibleEntries = showAll
+    ? matchingEntries
+    : matchingEntries.slice(0, COLLAPSED_ENTRY_COUNT);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Filter by player, square or action"
+          className="flex-1 min-w-[12rem] bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-xs text-slate-200 focus:border-emerald-500 focus:outline-none"
+        />
+        <Button
+          size="sm"
+          variant="secondary"
+          icon={<Download size={14} />}
+          onClick={() => onExportCsv(entries)}
+          disabled={entries.length === 0}
+        >
+          Export CSV
+        </Button>
+      </div>
+
+      {error && <p className="text-xs text-rose-400">{error}</p>}
+
+      {visibleEntries.length === 0 ? (
+        <p className="text-xs text-slate-500">
+          {entries.length === 0 ? "Nothing has been recorded yet." : "No entries match."}
+        </p>
+      ) : (
+        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-[10px] uppercase tracking-wider text-slate-500">
+                <th className="pb-2 pr-2 font-semibold">When</th>
+                <th className="pb-2 pr-2 font-semibold">Who</th>
+                <th className="pb-2 pr-2 font-semibold">What</th>
+                <th className="pb-2 pr-2 font-semibold">Before</th>
+                <th className="pb-2 font-semibold">After</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleEntries.map((entry) => (
+                <tr key={entry.id} className="border-t border-slate-800 align-top">
+                  <td className="py-1.5 pr-2 text-slate-500 whitespace-nowrap">
+                    {formatTimestamp(entry.createdAt)}
+                  </td>
+                  <td className="py-1.5 pr-2 text-slate-300">{entry.actor}</td>
+                  <td className="py-1.5 pr-2 text-white">
+                    {AUDIT_ACTION_LABELS[entry.action] ?? entry.action}
+                    <span className="block text-[11px] text-slate-500">{entry.target}</span>
+                  </td>
+                  <td className="py-1.5 pr-2 text-slate-400">{entry.before || "—"}</td>
+                  <td className="py-1.5 text-emerald-300">{entry.after || "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {matchingEntries.length > COLLAPSED_ENTRY_COUNT && (
+        <button
+          type="button"
+          onClick={() => setShowAll((prev) => !prev)}
+          className="text-xs text-emerald-400 hover:text-emerald-300"
+        >
+          {showAll ? "Show recent only" : `Show all ${matchingEntries.length} entries`}
+        </button>
+      )}
+    </div>
+  );
+};
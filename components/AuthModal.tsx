@@ -1,11 +1,13 @@
 import React, { useState } from "react";
 import { Lock } from "lucide-react";
 import { Button } from "./Button";
+import { AdminSession } from "../types";
+import { ADMIN_AUTH_MODE, loginAdmin } from "../services/adminAuthService";
 
 interface AuthModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onLogin: (passcode: string) => void;
+  onLogin: (session: AdminSession) => void;
 }
 
 export const AuthModal: React.FC<AuthModalProps> = ({
@@ -13,20 +15,31 @@ export const AuthModal: React.FC<AuthModalProps> = ({
   onClose,
   onLogin,
 }) => {
+  const [email, setEmail] = useState("");
   const [passcode, setPasscode] = useState("");
   const [error, setError] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
 
   if (!isOpen) return null;
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const isLocalMode = ADMIN_AUTH_MODE === "local";
+  const isSupabaseMode = ADMIN_AUTH_MODE === "supabase";
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    const adminPasscodeEnv = import.meta.env.VITE_ADMIN_PASSCODE;
-    if (adminPasscodeEnv && passcode === adminPasscodeEnv) {
-      onLogin(passcode);
+    setIsSubmitting(true);
+    try {
+      const session = await loginAdmin({ email, passcode });
+      onLogin(session);
       onClose();
+      setPasscode("");
       setError("");
-    } else {
-      setError("Unauthorized passcode.");
+    } catch (loginError) {
+      setError(
+        loginError instanceof Error ? loginError.message : "Unauthorized passcode.",
+      );
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
@@ -38,25 +51,47 @@ export const AuthModal: React.FC<AuthModalProps> = ({
             <Lock className="w-6 h-6 text-emerald-400" />
           </div>
           <h3 className="text-xl font-bold text-white">Admin Login</h3>
-          <p className="text-slate-400 text-sm">
-            Enter the passcode to manage the board
+          <p className="text-slate-400 text-sm text-center">
+            {isLocalMode
+              ? "This board is only saved in this browser, so no passcode is needed."
+              : isSupabaseMode
+                ? "Sign in with your Supabase admin account"
+                : "Enter the passcode to manage the board"}
           </p>
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-4">
-          <div>
-            <label className="block text-xs font-medium text-slate-400 mb-1">
-              Passcode
-            </label>
-            <input
-              type="password"
-              value={passcode}
-              onChange={(e) => setPasscode(e.target.value)}
-              className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-2 text-white focus:border-emerald-500 focus:outline-none"
-              placeholder="donteventry"
-              autoFocus
-            />
-          </div>
+          {isSupabaseMode && (
+            <div>
+              <label className="block text-xs font-medium text-slate-400 mb-1">
+                Email
+              </label>
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-2 text-white focus:border-emerald-500 focus:outline-none"
+                placeholder="admin@example.com"
+                autoFocus
+              />
+            </div>
+          )}
+
+          {!isLocalMode && (
+            <div>
+              <label className="block text-xs font-medium text-slate-400 mb-1">
+                {isSupabaseMode ? "Password" : "Passcode"}
+              </label>
+              <input
+                type="password"
+                value={passcode}
+                onChange={(e) => setPasscode(e.target.value)}
+                className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-2 text-white focus:border-emerald-500 focus:outline-none"
+                placeholder="donteventry"
+                autoFocus={!isSupabaseMode}
+              />
+            </div>
+          )}
 
           {error && <p className="text-red-400 text-sm">{error}</p>}
 
@@ -69,8 +104,8 @@ export const AuthModal: React.FC<AuthModalProps> = ({
             >
               Cancel
             </Button>
-            <Button type="submit" className="flex-1">
-              Login
+            <Button type="submit" className="flex-1" disabled={isSubmitting}>
+              {isSubmitting ? "Checking..." : "Login"}
             </Button>
           </div>
         </form>
@@ -0,0 +1,248 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  Archive,
+  ArchiveRestore,
+  LayoutGrid,
+  LogOut,
+  Plus,
+  Trash2,
+  UserCog,
+} from "lucide-react";
+import { Button } from "./Button";
+import { AuthModal } from "./AuthModal";
+import { AdminSession, BoardSummary } from "../types";
+import {
+  DEFAULT_BOARD_ID,
+  createBoard,
+  deleteBoard,
+  getBoardPath,
+  listBoards,
+  setBoardArchived,
+} from "../services/boardDirectoryService";
+
+interface BoardDirectoryProps {
+  isAdmin: boolean;
+  onLogin: (session: AdminSession) => void;
+  onLogout: () => void;
+  onNavigate: (path: string) => void;
+}
+
+const formatCreatedAt = (createdAt: string | null): string => {
+  if (!createdAt) return "Original board";
+  const parsed = new Date(createdAt);
+  if (Number.isNaN(parsed.getTime())) return "Original board";
+  return `Created ${parsed.toLocaleDateString()}`;
+};
+
+export const BoardDirectory: React.FC<BoardDirectoryProps> = ({
+  isAdmin,
+  onLogin,
+  onLogout,
+  onNavigate,
+}) => {
+  const [boards, setBoards] = useState<BoardSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newBoardName, setNewBoardName] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
+
+  const refreshBoards = useCallback(async () => {
+    try {
+      setBoards(await listBoards());
+      setError(null);
+    } catch (loadError) {
+      setError(
+        loadError instanceof Error ? loadError.message : "Could not load boards.",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshBoards();
+  }, [refreshBoards]);
+
+  const runBoardAction = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      await refreshBoards();
+    } catch (actionError) {
+      setError(
+        actionError instanceof Error ? actionError.message : "Board update failed.",
+      );
+    }
+  };
+
+  const handleCreateBoard = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newBoardName.trim()) return;
+    setIsCreating(true);
+    try {
+      const board = await createBoard(newBoardName);
+      setNewBoardName("");
+      onNavigate(getBoardPath(board.id));
+    } catch (createError) {
+      setError(
+        createError instanceof Error ? createError.message : "Could not create board.",
+      );
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleDeleteBoard = (board: BoardSummary) => {
+    if (
+      !window.confirm(
+        `Delete "${board.name}"? Every square and result on this board will be removed.`,
+      )
+    ) {
+      return;
+    }
+    runBoardAction(() => deleteBoard(board.id));
+  };
+
+  const activeBoards = boards.filter((board) => !board.archived);
+  const archivedBoards = boards.filter((board) => board.archived);
+
+  const renderBoard = (board: BoardSummary) => {
+    const path = getBoardPath(board.id);
+    const isDefault = board.id === DEFAULT_BOARD_ID;
+    return (
+      <li
+        key={board.id}
+        className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-lg border border-slate-800 bg-slate-900 px-4 py-3"
+      >
+        <a
+          href={path}
+          onClick={(e) => {
+            e.preventDefault();
+            onNavigate(path);
+          }}
+          className="group min-w-0"
+        >
+          <p className="font-semibold text-white group-hover:text-emerald-300 truncate">
+            {board.name}
+            {isDefault && (
+              <span className="ml-2 text-[10px] uppercase tracking-wider text-emerald-400">
+                Default
+              </span>
+            )}
+          </p>
+          <p className="text-xs text-slate-500">
+            {path} • {formatCreatedAt(board.createdAt)}
+          </p>
+        </a>
+        {isAdmin && !isDefault && (
+          <div className="flex gap-2 shrink-0">
+            <Button
+              variant="ghost"
+              size="sm"
+              icon={board.archived ? <ArchiveRestore size={14} /> : <Archive size={14} />}
+              onClick={() => runBoardAction(() => setBoardArchived(board.id, !board.archived))}
+            >
+              {board.archived ? "Restore" : "Archive"}
+            </Button>
+            <Button
+              variant="danger"
+              size="sm"
+              icon={<Trash2 size={14} />}
+              onClick={() => handleDeleteBoard(board)}
+            >
+              Delete
+            </Button>
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="min-h-screen pb-20 bg-slate-950">
+      <header className="bg-slate-900 border-b border-slate-800 shadow-2xl">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 py-5 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <div className="bg-gradient-to-br from-emerald-600 to-emerald-800 p-3 rounded-xl shadow-lg shadow-emerald-900/50">
+              <LayoutGrid className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-xl sm:text-2xl font-black text-white leading-none tracking-tight">
+                SQUARES BOARDS
+              </h1>
+              <p className="text-xs sm:text-sm text-slate-400 mt-1">
+                Pick a board to open, or start a new one.
+              </p>
+            </div>
+          </div>
+          {isAdmin ? (
+            <Button variant="ghost" size="sm" onClick={onLogout} icon={<LogOut size={16} />}>
+              Logout
+            </Button>
+          ) : (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsAuthModalOpen(true)}
+              icon={<UserCog size={16} />}
+            >
+              Admin Login
+            </Button>
+          )}
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 py-8 space-y-8">
+        {isAdmin && (
+          <form
+            onSubmit={handleCreateBoard}
+            className="flex flex-col sm:flex-row gap-3 rounded-xl border border-slate-800 bg-slate-900 p-4"
+          >
+            <input
+              value={newBoardName}
+              onChange={(e) => setNewBoardName(e.target.value)}
+              placeholder="New board name, e.g. Office Pool 2027"
+              maxLength={60}
+              className="flex-1 bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:border-emerald-500 focus:outline-none"
+            />
+            <Button
+              type="submit"
+              icon={<Plus size={16} />}
+              disabled={isCreating || !newBoardName.trim()}
+            >
+              Create Board
+            </Button>
+          </form>
+        )}
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <section className="space-y-3">
+          <h2 className="text-sm font-bold text-slate-500 uppercase tracking-wider">
+            Boards
+          </h2>
+          {isLoading ? (
+            <p className="text-sm text-slate-500">Loading boards...</p>
+          ) : (
+            <ul className="space-y-2">{activeBoards.map(renderBoard)}</ul>
+          )}
+        </section>
+
+        {archivedBoards.length > 0 && (
+          <section className="space-y-3">
+            <h2 className="text-sm font-bold text-slate-500 uppercase tracking-wider">
+              Archived
+            </h2>
+            <ul className="space-y-2 opacity-75">{archivedBoards.map(renderBoard)}</ul>
+          </section>
+        )}
+      </main>
+
+      <AuthModal
+        isOpen={isAuthModalOpen}
+        onClose={() => setIsAuthModalOpen(false)}
+        onLogin={onLogin}
+      />
+    </div>
+  );
+};
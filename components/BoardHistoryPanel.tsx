@@ -0,0 +1,202 @@
+import React, { useEffect, useState } from "react";
+import { History, Redo2, Undo2 } from "lucide-react";
+import { Button } from "./Button";
+import {
+  BoardHistoryAction,
+  BoardHistoryEntry,
+  BoardRestoreAction,
+  PersistedState,
+} from "../types";
+import {
+  getRedoTarget,
+  getUndoTarget,
+  listBoardHistory,
+} from "../services/boardHistoryService";
+import { describeBoardOp, diffBoardStates } from "../services/boardOpsReducer";
+
+interface BoardHistoryPanelProps {
+  boardId: string;
+  /** Current board revision; the list reloads whenever it changes. */
+  revision: number | null;
+  loadRevision: (revision: number) => Promise<PersistedState | null>;
+  onRestore: (revision: number, action: BoardRestoreAction) => Promise<void>;
+}
+
+const MAX_DIFF_LINES = 25;
+
+const ACTION_LABELS: Record<BoardHistoryAction, string> = {
+  edit: "Edit",
+  request: "Square request",
+  undo: "Undo",
+  redo: "Redo",
+  restore: "Restore",
+};
+
+const formatTimestamp = (value: string): string => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+};
+
+export const BoardHistoryPanel: React.FC<BoardHistoryPanelProps> = ({
+  boardId,
+  revision,
+  loadRevision,
+  onRestore,
+}) => {
+  const [entries, setEntries] = useState<BoardHistoryEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [selectedRevision, setSelectedRevision] = useState<number | null>(null);
+  const [changes, setChanges] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listBoardHistory(boardId)
+      .then((next) => {
+        if (!cancelled) setEntries(next);
+      })
+      .catch((loadError) => {
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : "Could not load history.");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [boardId, revision]);
+
+  useEffect(() => {
+    if (selectedRevision === null) return;
+    let cancelled = false;
+    setChanges(null);
+    Promise.all([loadRevision(selectedRevision - 1), loadRevision(selectedRevision)])
+      .then(([before, after]) => {
+        if (cancelled) return;
+        if (!after) {
+          setChanges(["This revision is no longer available."]);
+        } else if (!before) {
+          setChanges(["No earlier revision to compare with."]);
+        } else {
+          const lines = diffBoardStates(before, after).map(describeBoardOp);
+          setChanges(lines.length > 0 ? lines : ["No changes."]);
+        }
+      })
+      .catch((loadError) => {
+        if (!cancelled) {
+          setChanges([loadError instanceof Error ? loadError.message : "Could not load changes."]);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [loadRevision, selectedRevision]);
+
+  const undoTarget = getUndoTarget(entries);
+  const redoTarget = getRedoTarget(entries);
+
+  const restore = async (target: number, action: BoardRestoreAction) => {
+    setIsRestoring(true);
+    setError(null);
+    try {
+      await onRestore(target, action);
+    } catch (restoreError) {
+      setError(restoreError instanceof Error ? restoreError.message : "Restore failed.");
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Button
+          size="sm"
+          variant="secondary"
+          icon={<Undo2 size={14} />}
+          disabled={undoTarget === null || isRestoring}
+          onClick={() => undoTarget !== null && restore(undoTarget, "undo")}
+        >
+          Undo
+        </Button>
+        <Button
+          size="sm"
+          variant="secondary"
+          icon={<Redo2 size={14} />}
+          disabled={redoTarget === null || isRestoring}
+          onClick={() => redoTarget !== null && restore(redoTarget, "redo")}
+        >
+          Redo
+        </Button>
+        {revision !== null && (
+          <span className="ml-auto text-[11px] text-slate-500">Revision #{revision}</span>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-rose-400">{error}</p>}
+
+      {entries.length === 0 ? (
+        <p className="text-xs text-slate-500">No saved revisions yet.</p>
+      ) : (
+        <ul className="max-h-72 overflow-y-auto divide-y divide-slate-800 rounded-lg border border-slate-800">
+          {[...entries].reverse().map((entry) => {
+            const isSelected = entry.revision === selectedRevision;
+            return (
+              <li key={entry.revision}>
+                <button
+                  type="button"
+                  onClick={() => setSelectedRevision(isSelected ? null : entry.revision)}
+                  className={`w-full text-left px-3 py-2 text-sm hover:bg-slate-800/40 ${
+                    isSelected ? "bg-slate-800/60" : ""
+                  }`}
+                >
+                  <span className="flex items-center gap-2">
+                    <History size={12} className="text-slate-500" />
+                    <span className="font-semibold text-white">#{entry.revision}</span>
+                    <span className="text-slate-300">
+                      {ACTION_LABELS[entry.action]}
+                      {entry.restoredFrom !== null && ` to #${entry.restoredFrom}`}
+                    </span>
+                    <span className="ml-auto text-[11px] text-slate-500 truncate">
+                      {entry.author}
+                    </span>
+                  </span>
+                  <span className="block text-[11px] text-slate-500">
+                    {formatTimestamp(entry.createdAt)}
+                  </span>
+                </button>
+                {isSelected && (
+                  <div className="px-3 pb-3 space-y-2">
+                    {changes === null ? (
+                      <p className="text-xs text-slate-500">Loading changes…</p>
+                    ) : (
+                      <ul className="text-xs text-slate-300 list-disc pl-4 space-y-0.5">
+                        {changes.slice(0, MAX_DIFF_LINES).map((line, index) => (
+                          <li key={index}>{line}</li>
+                        ))}
+                        {changes.length > MAX_DIFF_LINES && (
+                          <li className="text-slate-500">
+                            and {changes.length - MAX_DIFF_LINES} more
+                          </li>
+                        )}
+                      </ul>
+                    )}
+                    {entry.revision !== revision && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={isRestoring}
+                        onClick={() => restore(entry.revision, "restore")}
+                      >
+                        Restore this revision
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import React from "react";
+import { Upload } from "lucide-react";
+import { Button } from "./Button";
+import { BoardExportFile, PersistedState } from "../types";
+
+interface BoardImportModalProps {
+  fileName: string;
+  source: BoardExportFile;
+  imported: PersistedState;
+  /** What importing would change, one line each. */
+  changes: string[];
+  /** Parts of the file that could not be read as-is. */
+  warnings: string[];
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const MAX_CHANGE_LINES = 25;
+
+const formatExportedAt = (value: string): string => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? "at an unknown time" : date.toLocaleString();
+};
+
+export const BoardImportModal: React.FC<BoardImportModalProps> = ({
+  fileName,
+  source,
+  imported,
+  changes,
+  warnings,
+  onConfirm,
+  onCancel,
+}) => {
+  const takenSquares = imported.grid.flat().filter((cell) => cell.player).length;
+  const { awayTeamName, homeTeamName, gameDate } = imported.gameSettings;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-slate-800 border border-slate-700 rounded-xl shadow-2xl w-full max-w-lg p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <div className="bg-slate-700 p-2 rounded-full">
+            <Upload className="w-5 h-5 text-emerald-300" />
+          </div>
+          <div className="min-w-0">
+            <h3 className="text-lg font-bold text-white">Import Board</h3>
+            <p className="text-slate-400 text-xs truncate">
+              {fileName}: {source.board.name || source.board.id || "Unnamed board"}, exported{" "}
+              {formatExportedAt(source.exportedAt)}
+            </p>
+          </div>
+        </div>
+
+        <div className="rounded-lg border border-slate-700 bg-slate-900/60 px-3 py-2 text-xs text-slate-300 mb-3">
+          {awayTeamName} @ {homeTeamName} on {gameDate} · {takenSquares} squares taken ·{" "}
+          {imported.isLocked ? "locked" : "open"} · {imported.periodResults.length} scores ·{" "}
+          {imported.payments.length} payments
+        </div>
+
+        {warnings.length > 0 && (
+          <ul className="mb-3 rounded-lg border border-amber-700 bg-amber-950/40 px-3 py-2 text-xs text-amber-200 list-disc pl-7 space-y-0.5">
+            {warnings.map((warning) => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        )}
+
+        <p className="text-xs font-semibold text-slate-400 mb-1">Changes to this board</p>
+        <ul className="max-h-60 overflow-y-auto text-xs text-slate-300 list-disc pl-5 space-y-0.5">
+          {changes.length === 0 ? (
+            <li className="text-slate-500">Nothing; the file matches this board.</li>
+          ) : (
+            changes
+              .slice(0, MAX_CHANGE_LINES)
+              .map((line, index) => <li key={index}>{line}</li>)
+          )}
+          {changes.length > MAX_CHANGE_LINES && (
+            <li className="text-slate-500">and {changes.length - MAX_CHANGE_LINES} more</li>
+          )}
+        </ul>
+
+        <div className="mt-4 flex justify-end gap-2">
+          <Button variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button variant="danger" onClick={onConfirm}>
+            Replace Board
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
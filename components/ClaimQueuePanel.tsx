@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from "react";
+import { Check, X } from "lucide-react";
+import { Button } from "./Button";
+import { GridCell } from "../types";
+import {
+  ClaimDecision,
+  MAX_CLAIM_HOLD_MINUTES,
+  getClaimExpiresAt,
+} from "../services/squareClaimRules";
+
+interface ClaimQueuePanelProps {
+  claims: GridCell[];
+  holdMinutes: number;
+  now: number;
+  onHoldMinutesChange: (minutes: number) => void;
+  onResolve: (squares: { row: number; col: number }[], decision: ClaimDecision) => void;
+}
+
+const getSquareKey = (cell: GridCell): string => `${cell.row}:${cell.col}`;
+
+const formatTimeLeft = (expiresAt: number | null, now: number): string => {
+  if (expiresAt === null) return "Held until reviewed";
+  const minutesLeft = Math.max(0, Math.ceil((expiresAt - now) / 60_000));
+  if (minutesLeft >= 60) {
+    return `Releases in ${Math.floor(minutesLeft / 60)}h ${minutesLeft % 60}m`;
+  }
+  return `Releases in ${minutesLeft}m`;
+};
+
+export const ClaimQueuePanel: React.FC<ClaimQueuePanelProps> = ({
+  claims,
+  holdMinutes,
+  now,
+  onHoldMinutesChange,
+  onResolve,
+}) => {
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+
+  // Drop selections for squares that were resolved or released elsewhere.
+  useEffect(() => {
+    setSelectedKeys((prev) => {
+      const pendingKeys = new Set(claims.map(getSquareKey));
+      const next = new Set([...prev].filter((key) => pendingKeys.has(key)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [claims]);
+
+  const isAllSelected = claims.length > 0 && selectedKeys.size === claims.length;
+
+  const toggleClaim = (cell: GridCell) => {
+    setSelectedKeys((prev) => {
+      const next = new Set(prev);
+      const key = getSquareKey(cell);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedKeys(isAllSelected ? new Set() : new Set(claims.map(getSquareKey)));
+  };
+
+  const resolveSelected = (decision: ClaimDecision) => {
+    const squares = claims
+      .filter((cell) => selectedKeys.has(getSquareKey(cell)))
+      .map(({ row, col }) => ({ row, col }));
+    if (squares.length === 0) return;
+    onResolve(squares, decision);
+    setSelectedKeys(new Set());
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-[11px] text-slate-400">
+        Hold pending squares for (minutes, 0 = until reviewed)
+        <input
+          type="number"
+          min="0"
+          max={MAX_CLAIM_HOLD_MINUTES}
+          value={holdMinutes}
+          onChange={(e) => onHoldMinutesChange(parseInt(e.target.value, 10) || 0)}
+          className="mt-1 w-32 block bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm text-slate-200 focus:border-emerald-500 focus:outline-none"
+        />
+      </label>
+
+      {claims.length === 0 ? (
+        <p className="text-xs text-slate-500">No squares are waiting for approval.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="flex items-center gap-2 text-xs text-slate-400 mr-auto">
+              <input type="checkbox" checked={isAllSelected} onChange={toggleAll} />
+              Select all ({claims.length})
+            </label>
+            <Button
+              size="sm"
+              icon={<Check size={14} />}
+              disabled={selectedKeys.size === 0}
+              onClick={() => resolveSelected("approve")}
+            >
+              Approve
+            </Button>
+            <Button
+              size="sm"
+              variant="danger"
+              icon={<X size={14} />}
+              disabled={selectedKeys.size === 0}
+              onClick={() => resolveSelected("reject")}
+            >
+              Reject
+            </Button>
+          </div>
+          <ul className="divide-y divide-slate-800 rounded-lg border border-slate-800">
+            {claims.map((cell) => (
+              <li key={getSquareKey(cell)}>
+                <label className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer hover:bg-slate-800/40">
+                  <input
+                    type="checkbox"
+                    checked={selectedKeys.has(getSquareKey(cell))}
+                    onChange={() => toggleClaim(cell)}
+                  />
+                  <span className="flex-1 min-w-0">
+                    <span className="block font-semibold text-white truncate">
+                      {cell.player}
+                    </span>
+                    <span className="block text-[11px] text-slate-500">
+                      Square #{cell.row * 10 + cell.col + 1} •{" "}
+                      {formatTimeLeft(getClaimExpiresAt(cell, holdMinutes), now)}
+                    </span>
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
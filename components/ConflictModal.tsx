@@ -0,0 +1,129 @@
+import React, { useState } from "react";
+import { GitMerge } from "lucide-react";
+import { Button } from "./Button";
+import { BoardConflict, GridCell, PersistedState } from "../types";
+import { BOARD_MERGE_FIELD_LABELS, getConflictKey } from "../services/boardMergeService";
+import { PAYOUT_PERIOD_LABELS } from "../services/payoutService";
+
+interface ConflictModalProps {
+  conflicts: BoardConflict[];
+  local: PersistedState;
+  current: PersistedState;
+  onResolve: (keepLocalKeys: Set<string>) => void;
+}
+
+const describeCell = (cell: GridCell): string => {
+  if (!cell.player) return "Empty";
+  return cell.status === "pending" ? `${cell.player} (pending)` : cell.player;
+};
+
+const describeField = (state: PersistedState, conflict: BoardConflict): string => {
+  if (conflict.kind === "cell") return describeCell(state.grid[conflict.row][conflict.col]);
+  switch (conflict.field) {
+    case "pricePerSquare":
+      return `$${state.pricePerSquare}`;
+    case "isLocked":
+      return state.isLocked ? "Locked" : "Open";
+    case "claimHoldMinutes":
+      return state.claimHoldMinutes === 0 ? "Until reviewed" : `${state.claimHoldMinutes} min`;
+    case "rowLabels":
+      return state.rowLabels.join(" ");
+    case "colLabels":
+      return state.colLabels.join(" ");
+    case "gameSettings":
+      return `${state.gameSettings.awayTeamName} @ ${state.gameSettings.homeTeamName}`;
+    case "periodResults":
+      return `${state.periodResults.length} recorded`;
+    case "payments":
+      return `${state.payments.length} players`;
+    case "periodScores":
+      return state.periodScores
+        .map((score) => `${PAYOUT_PERIOD_LABELS[score.period]} ${score.homeScore}-${score.awayScore}`)
+        .join(", ");
+    default:
+      return "Edited";
+  }
+};
+
+const getConflictLabel = (conflict: BoardConflict): string =>
+  conflict.kind === "cell"
+    ? `Square #${conflict.row * 10 + conflict.col + 1}`
+    : BOARD_MERGE_FIELD_LABELS[conflict.field];
+
+export const ConflictModal: React.FC<ConflictModalProps> = ({
+  conflicts,
+  local,
+  current,
+  onResolve,
+}) => {
+  const [keepLocalKeys, setKeepLocalKeys] = useState<Set<string>>(new Set());
+
+  const toggleConflict = (key: string) => {
+    setKeepLocalKeys((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-slate-800 border border-slate-700 rounded-xl shadow-2xl w-full max-w-lg p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <div className="bg-slate-700 p-2 rounded-full">
+            <GitMerge className="w-5 h-5 text-amber-300" />
+          </div>
+          <div>
+            <h3 className="text-lg font-bold text-white">Someone Else Saved First</h3>
+            <p className="text-slate-400 text-xs">
+              Your other edits were merged. These were changed on both sides, so the saved
+              version is showing. Tick any you want to overwrite with yours.
+            </p>
+          </div>
+        </div>
+
+        <ul className="max-h-72 overflow-y-auto divide-y divide-slate-700 rounded-lg border border-slate-700">
+          {conflicts.map((conflict) => {
+            const key = getConflictKey(conflict);
+            return (
+              <li key={key}>
+                <label className="flex items-start gap-3 px-3 py-2 text-sm cursor-pointer hover:bg-slate-700/40">
+                  <input
+                    type="checkbox"
+                    className="mt-1"
+                    checked={keepLocalKeys.has(key)}
+                    onChange={() => toggleConflict(key)}
+                  />
+                  <span className="flex-1 min-w-0">
+                    <span className="block font-semibold text-white">
+                      {getConflictLabel(conflict)}
+                    </span>
+                    <span className="block text-[11px] text-slate-400 truncate">
+                      Saved: {describeField(current, conflict)}
+                    </span>
+                    <span className="block text-[11px] text-emerald-400 truncate">
+                      Yours: {describeField(local, conflict)}
+                    </span>
+                  </span>
+                </label>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="mt-4 flex justify-end gap-2">
+          <Button variant="ghost" onClick={() => onResolve(new Set())}>
+            Keep Saved
+          </Button>
+          <Button onClick={() => onResolve(keepLocalKeys)}>
+            {keepLocalKeys.size > 0 ? `Keep ${keepLocalKeys.size} of Mine` : "Done"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
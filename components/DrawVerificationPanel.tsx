@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from "react";
+import { CheckCircle2, ShieldCheck, XCircle } from "lucide-react";
+import { Button } from "./Button";
+import { FairDraw, FairDrawVerification, GridCell } from "../types";
+import { verifyDraw } from "../services/fairDrawService";
+
+interface DrawVerificationPanelProps {
+  fairDraw: FairDraw | null;
+  rowLabels: number[];
+  colLabels: number[];
+  grid: GridCell[][];
+}
+
+const formatTimestamp = (value: string | null): string => {
+  if (!value) return "—";
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? value : parsed.toLocaleString();
+};
+
+const HashValue: React.FC<{ label: string; value: string | null }> = ({
+  label,
+  value,
+}) => (
+  <div>
+    <p className="text-[10px] uppercase tracking-wider text-slate-500">{label}</p>
+    <p className="font-mono text-[11px] text-slate-300 break-all">{value ?? "—"}</p>
+  </div>
+);
+
+const CheckLine: React.FC<{ passed: boolean; label: string }> = ({ passed, label }) => (
+  <p
+    className={`flex items-center gap-1.5 text-xs ${
+      passed ? "text-emerald-400" : "text-red-400"
+    }`}
+  >
+    {passed ? <CheckCircle2 size={14} /> : <XCircle size={14} />}
+    {label}
+  </p>
+);
+
+export const DrawVerificationPanel: React.FC<DrawVerificationPanelProps> = ({
+  fairDraw,
+  rowLabels,
+  colLabels,
+  grid,
+}) => {
+  const [verification, setVerification] = useState<FairDrawVerification | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  useEffect(() => {
+    setVerification(null);
+    setError(null);
+  }, [fairDraw, rowLabels, colLabels, grid]);
+
+  if (!fairDraw) {
+    return (
+      <p className="text-xs text-slate-400">
+        No verifiable draw has been committed for this board yet.
+      </p>
+    );
+  }
+
+  const handleVerify = async () => {
+    setIsVerifying(true);
+    try {
+      setVerification(await verifyDraw(fairDraw, rowLabels, colLabels, grid));
+      setError(null);
+    } catch (verifyError) {
+      setError(
+        verifyError instanceof Error ? verifyError.message : "Verification failed.",
+      );
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <HashValue label="Seed commitment (SHA-256)" value={fairDraw.commitment} />
+      <p className="text-[11px] text-slate-500">
+        Committed {formatTimestamp(fairDraw.committedAt)}
+      </p>
+      {fairDraw.previousCommitments.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-[11px] text-amber-400">
+            The admin replaced the commitment{" "}
+            {fairDraw.previousCommitments.length === 1
+              ? "once"
+              : `${fairDraw.previousCommitments.length} times`}{" "}
+            before the board locked. Earlier hashes:
+          </p>
+          <ul className="space-y-1">
+            {fairDraw.previousCommitments.map((previous) => (
+              <li key={previous.commitment} className="text-[11px] text-slate-500">
+                <span className="font-mono text-slate-400 break-all">{previous.commitment}</span>
+                <br />
+                Committed {formatTimestamp(previous.committedAt)}, replaced{" "}
+                {formatTimestamp(previous.replacedAt)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {fairDraw.seed ? (
+        <>
+          <HashValue label="Revealed seed" value={fairDraw.seed} />
+          <HashValue label="Grid hash at lock" value={fairDraw.gridHash} />
+          <p className="text-[11px] text-slate-500">
+            Revealed {formatTimestamp(fairDraw.revealedAt)} • {fairDraw.algorithm}
+          </p>
+          <Button
+            size="sm"
+            variant="secondary"
+            icon={<ShieldCheck size={14} />}
+            onClick={handleVerify}
+            disabled={isVerifying}
+          >
+            {isVerifying ? "Verifying..." : "Verify Draw"}
+          </Button>
+          {verification && (
+            <div className="space-y-1">
+              <CheckLine
+                passed={verification.commitmentMatches}
+                label={
+                  verification.commitmentMatches
+                    ? "Seed matches the published commitment"
+                    : "Seed does not match the commitment"
+                }
+              />
+              <CheckLine
+                passed={verification.labelsMatch}
+                label={
+                  verification.labelsMatch
+                    ? "Board numbers match the derived draw"
+                    : `Expected rows ${verification.expectedRowLabels.join(" ")} / columns ${verification.expectedColLabels.join(" ")}`
+                }
+              />
+              {!verification.gridUnchanged && (
+                <p className="text-[11px] text-amber-400">
+                  Squares were edited after the draw, so the current grid no longer
+                  matches the hash used at lock.
+                </p>
+              )}
+            </div>
+          )}
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </>
+      ) : (
+        <p className="text-xs text-slate-400">
+          The seed stays secret until the board locks, then anyone can check the draw
+          here.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from "react";
+import { Flag } from "lucide-react";
+import { Button } from "./Button";
+
+interface FinalScoreProposalBannerProps {
+  homeTeam: string;
+  awayTeam: string;
+  homeScore: number;
+  awayScore: number;
+  /** When the score records itself (ms since epoch), or null to wait for approval. */
+  recordAt: number | null;
+  onRecord: () => void;
+  /** Left out when the server records the score itself. */
+  onCountdownEnd?: () => void;
+  onDismiss: () => void;
+}
+
+export const FinalScoreProposalBanner: React.FC<FinalScoreProposalBannerProps> = ({
+  homeTeam,
+  awayTeam,
+  homeScore,
+  awayScore,
+  recordAt,
+  onRecord,
+  onCountdownEnd,
+  onDismiss,
+}) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (recordAt === null) return;
+    const tick = window.setInterval(() => setNow(Date.now()), 1000);
+    const timer = onCountdownEnd
+      ? window.setTimeout(onCountdownEnd, Math.max(0, recordAt - Date.now()))
+      : null;
+    return () => {
+      window.clearInterval(tick);
+      if (timer !== null) window.clearTimeout(timer);
+    };
+  }, [onCountdownEnd, recordAt]);
+
+  const secondsLeft = recordAt === null ? null : Math.max(0, Math.ceil((recordAt - now) / 1000));
+
+  return (
+    <section className="bg-emerald-950/40 border border-emerald-700 rounded-xl px-4 py-3 text-sm text-emerald-200 flex flex-wrap items-center gap-3">
+      <Flag className="w-4 h-4 shrink-0" />
+      <div className="flex-1 min-w-[14rem]">
+        <p className="font-semibold">
+          Live feed final: {homeTeam} {homeScore}, {awayTeam} {awayScore}
+        </p>
+        <p className="text-xs text-emerald-300/80">
+          {secondsLeft === null
+            ? "Two feed updates in a row agree on this score. Record it as the final result?"
+            : `Recording it as the final result in ${secondsLeft}s unless you cancel.`}
+        </p>
+      </div>
+      <Button size="sm" variant="secondary" onClick={onRecord}>
+        {secondsLeft === null ? "Record Final Score" : "Record Now"}
+      </Button>
+      <Button size="sm" variant="ghost" onClick={onDismiss}>
+        {secondsLeft === null ? "Dismiss" : "Cancel"}
+      </Button>
+    </section>
+  );
+};
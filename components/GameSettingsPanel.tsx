@@ -0,0 +1,242 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "./Button";
+import { AutoFinalizeMode, BoardRowTeam, GameSettings, LiveFeedProviderId } from "../types";
+import { NFL_TEAMS } from "../constants";
+import {
+  DEFAULT_MOCK_FEED_URL,
+  LIVE_FEED_PROVIDER_LABELS,
+} from "../services/liveFeedProviders";
+import { AUTO_FINALIZE_LABELS } from "../services/autoFinalizeService";
+import { HAS_SHARED_LIVE_FEED } from "../services/liveFeedStreamService";
+
+interface GameSettingsPanelProps {
+  settings: GameSettings;
+  isLocked: boolean;
+  onSave: (settings: GameSettings) => void;
+}
+
+const GAME_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const validateGameSettings = (settings: GameSettings): string[] => {
+  const errors: string[] = [];
+  if (settings.homeTeamName === settings.awayTeamName) {
+    errors.push("Home and away teams must be different.");
+  }
+  if (!GAME_DATE_PATTERN.test(settings.gameDate)) {
+    errors.push("Game date must be a valid date.");
+  }
+  if (settings.eventId !== null && !/^\d+$/.test(settings.eventId)) {
+    errors.push("Event ID should only contain digits.");
+  }
+  if (settings.mockFeedUrl !== null && !/^(\/|https?:\/\/)/.test(settings.mockFeedUrl)) {
+    errors.push("Mock feed URL should start with / or http(s)://.");
+  }
+  return errors;
+};
+
+const inputClassName =
+  "mt-1 w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm text-slate-200 focus:border-emerald-500 focus:outline-none disabled:opacity-50";
+
+export const GameSettingsPanel: React.FC<GameSettingsPanelProps> = ({
+  settings,
+  isLocked,
+  onSave,
+}) => {
+  const [draft, setDraft] = useState<GameSettings>(settings);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    setDraft(settings);
+    setErrors([]);
+  }, [settings]);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(settings);
+
+  const updateDraft = (patch: Partial<GameSettings>) => {
+    setDraft((prev) => ({ ...prev, ...patch }));
+    setErrors([]);
+  };
+
+  const handleSave = () => {
+    const nextErrors = validateGameSettings(draft);
+    if (nextErrors.length > 0) {
+      setErrors(nextErrors);
+      return;
+    }
+    onSave(draft);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <label className="block text-[11px] text-slate-400">
+          Home team
+          <select
+            value={draft.homeTeamName}
+            disabled={isLocked}
+            onChange={(e) => updateDraft({ homeTeamName: e.target.value })}
+            className={inputClassName}
+          >
+            {NFL_TEAMS.map((team) => (
+              <option key={team.id} value={team.name}>
+                {team.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-[11px] text-slate-400">
+          Away team
+          <select
+            value={draft.awayTeamName}
+            disabled={isLocked}
+            onChange={(e) => updateDraft({ awayTeamName: e.target.value })}
+            className={inputClassName}
+          >
+            {NFL_TEAMS.map((team) => (
+              <option key={team.id} value={team.name}>
+                {team.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <label className="block text-[11px] text-slate-400">
+        Team on the rows
+        <select
+          value={draft.rowTeam}
+          disabled={isLocked}
+          onChange={(e) => updateDraft({ rowTeam: e.target.value as BoardRowTeam })}
+          className={inputClassName}
+        >
+          <option value="home">{draft.homeTeamName} (home)</option>
+          <option value="away">{draft.awayTeamName} (away)</option>
+        </select>
+      </label>
+      {isLocked && (
+        <p className="text-[11px] text-slate-500">
+          Unlock the board to change the matchup or row team.
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="block text-[11px] text-slate-400">
+          Game date
+          <input
+            type="date"
+            value={draft.gameDate}
+            onChange={(e) => updateDraft({ gameDate: e.target.value })}
+            className={inputClassName}
+          />
+        </label>
+        <label className="block text-[11px] text-slate-400">
+          ESPN event ID
+          <input
+            value={draft.eventId ?? ""}
+            onChange={(e) => updateDraft({ eventId: e.target.value.trim() || null })}
+            placeholder="Auto-detect"
+            className={inputClassName}
+          />
+        </label>
+      </div>
+      <p className="text-[11px] text-slate-500">
+        Leave the event ID blank to find the game by teams and date.
+      </p>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="block text-[11px] text-slate-400">
+          Live feed
+          <select
+            value={draft.liveFeedProvider}
+            onChange={(e) =>
+              updateDraft({ liveFeedProvider: e.target.value as LiveFeedProviderId })
+            }
+            className={inputClassName}
+          >
+            {(Object.keys(LIVE_FEED_PROVIDER_LABELS) as LiveFeedProviderId[]).map((id) => (
+              <option key={id} value={id}>
+                {LIVE_FEED_PROVIDER_LABELS[id]}
+              </option>
+            ))}
+          </select>
+        </label>
+        {draft.liveFeedProvider === "mock" && (
+          <label className="block text-[11px] text-slate-400">
+            Mock feed URL
+            <input
+              value={draft.mockFeedUrl ?? ""}
+              onChange={(e) => updateDraft({ mockFeedUrl: e.target.value.trim() || null })}
+              placeholder={DEFAULT_MOCK_FEED_URL}
+              className={inputClassName}
+            />
+          </label>
+        )}
+      </div>
+      {draft.liveFeedProvider === "mock" && (
+        <p className="text-[11px] text-slate-500">
+          Everyone viewing this board follows the scripted or recorded game in the file instead of ESPN.
+        </p>
+      )}
+
+      <label className="block text-[11px] text-slate-400">
+        Final score from the live feed
+        <select
+          value={draft.autoFinalize}
+          onChange={(e) => updateDraft({ autoFinalize: e.target.value as AutoFinalizeMode })}
+          className={inputClassName}
+        >
+          {(Object.keys(AUTO_FINALIZE_LABELS) as AutoFinalizeMode[]).map((mode) => (
+            <option key={mode} value={mode}>
+              {AUTO_FINALIZE_LABELS[mode]}
+            </option>
+          ))}
+        </select>
+      </label>
+      {draft.autoFinalize !== "off" && (
+        <p className="text-[11px] text-slate-500">
+          Once two feed updates in a row report the same final score,{" "}
+          {draft.autoFinalize === "approve"
+            ? "an admin with this board open can record it with one click."
+            : HAS_SHARED_LIVE_FEED
+              ? "the server records it a minute later unless an admin cancels."
+              : "it is recorded a minute later unless an admin cancels. An admin tab must stay open."}
+          {draft.liveFeedProvider === "mock" && " Mock feeds never record scores."}
+        </p>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="space-y-1">
+          {errors.map((error) => (
+            <li key={error} className="text-[11px] text-red-400">
+              {error}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          size="sm"
+          className="flex-1"
+          onClick={handleSave}
+          disabled={!isDirty}
+        >
+          Save Game Settings
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          onClick={() => {
+            setDraft(settings);
+            setErrors([]);
+          }}
+          disabled={!isDirty}
+        >
+          Revert
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,13 @@
 import React from "react";
-import { AlertCircle, CheckCircle2, HelpCircle, Trophy } from "lucide-react";
-import { GridCell } from "../types";
+import {
+  AlertCircle,
+  ArrowLeftRight,
+  CheckCircle2,
+  HelpCircle,
+  Medal,
+  Trophy,
+} from "lucide-react";
+import { GridCell, PayoutAwardKind } from "../types";
 import { getTeamLogo } from "../constants";
 
 interface GridBoardProps {
@@ -8,8 +15,8 @@ interface GridBoardProps {
   colLabels: number[];
   grid: GridCell[][];
   onSquareClick: (row: number, col: number) => void;
-  homeTeamName: string;
-  awayTeamName: string;
+  rowTeamName: string;
+  colTeamName: string;
   isAdmin: boolean;
   isLocked: boolean;
   showSquareOdds?: boolean;
@@ -19,6 +26,11 @@ interface GridBoardProps {
   liveHeatmapUpdatedAt?: string | null;
   isLiveHeatmapStale?: boolean;
   winningCell?: { row: number; col: number } | null;
+  bonusCells?: Array<{
+    row: number;
+    col: number;
+    kind: Extract<PayoutAwardKind, "reverse" | "neighbor">;
+  }>;
 }
 
 const clamp = (value: number, min: number, max: number): number =>
@@ -72,8 +84,8 @@ export const GridBoard: React.FC<GridBoardProps> = ({
   colLabels,
   grid,
   onSquareClick,
-  homeTeamName,
-  awayTeamName,
+  rowTeamName,
+  colTeamName,
   isAdmin,
   isLocked,
   showSquareOdds = false,
@@ -83,9 +95,10 @@ export const GridBoard: React.FC<GridBoardProps> = ({
   liveHeatmapUpdatedAt = null,
   isLiveHeatmapStale = false,
   winningCell = null,
+  bonusCells = [],
 }) => {
-  const homeLogo = getTeamLogo(homeTeamName);
-  const awayLogo = getTeamLogo(awayTeamName);
+  const rowLogo = getTeamLogo(rowTeamName);
+  const colLogo = getTeamLogo(colTeamName);
   const showOdds = showSquareOdds;
 
   const flattenedOdds = showOdds && squareOddsPercentages
@@ -107,6 +120,10 @@ export const GridBoard: React.FC<GridBoardProps> = ({
     const hasPlayer = Boolean(cell.player);
     const squareNumber = rIndex * 10 + cIndex + 1;
     const isWinner = winningCell?.row === rIndex && winningCell?.col === cIndex;
+    const bonusKind = isWinner
+      ? null
+      : bonusCells.find((entry) => entry.row === rIndex && entry.col === cIndex)
+          ?.kind ?? null;
     const oddsValue = showOdds ? squareOddsPercentages?.[rIndex]?.[cIndex] : null;
     const hasOddsValue = typeof oddsValue === "number" && Number.isFinite(oddsValue);
     const normalizedOdds = hasOddsValue
@@ -138,6 +155,8 @@ export const GridBoard: React.FC<GridBoardProps> = ({
           }
           cursor-pointer
           ${isWinner ? "ring-2 ring-amber-400 ring-offset-1 ring-offset-slate-900" : ""}
+          ${bonusKind === "reverse" ? "ring-2 ring-sky-400 ring-offset-1 ring-offset-slate-900" : ""}
+          ${bonusKind === "neighbor" ? "ring-1 ring-violet-400/80 ring-offset-1 ring-offset-slate-900" : ""}
         `}
       >
         {showOdds && heatOverlay && (
@@ -204,6 +223,24 @@ export const GridBoard: React.FC<GridBoardProps> = ({
             <Trophy className={compact ? "h-2.5 w-2.5" : "h-3 w-3"} />
           </div>
         )}
+
+        {bonusKind === "reverse" && (
+          <div
+            className="pointer-events-none absolute left-1 top-1 rounded-full bg-sky-400/90 p-0.5 text-slate-950 z-20"
+            title="Reverse-digit winner"
+          >
+            <ArrowLeftRight className={compact ? "h-2.5 w-2.5" : "h-3 w-3"} />
+          </div>
+        )}
+
+        {bonusKind === "neighbor" && (
+          <div
+            className="pointer-events-none absolute left-1 top-1 rounded-full bg-violet-400/90 p-0.5 text-slate-950 z-20"
+            title="Adjacent-square winner"
+          >
+            <Medal className={compact ? "h-2.5 w-2.5" : "h-3 w-3"} />
+          </div>
+        )}
       </button>
     );
   };
@@ -249,24 +286,24 @@ export const GridBoard: React.FC<GridBoardProps> = ({
           <div className="grid grid-cols-2 gap-2 mb-3">
             <div className="bg-slate-800/50 rounded-lg border border-slate-700/50 p-2 flex items-center gap-2">
               <img
-                src={homeLogo}
-                alt={homeTeamName}
+                src={rowLogo}
+                alt={rowTeamName}
                 className="h-8 w-8 object-contain"
               />
               <div>
                 <div className="text-[10px] uppercase tracking-wider text-slate-500">Rows</div>
-                <div className="text-xs font-bold text-slate-200 uppercase">{homeTeamName}</div>
+                <div className="text-xs font-bold text-slate-200 uppercase">{rowTeamName}</div>
               </div>
             </div>
             <div className="bg-slate-800/50 rounded-lg border border-slate-700/50 p-2 flex items-center gap-2">
               <img
-                src={awayLogo}
-                alt={awayTeamName}
+                src={colLogo}
+                alt={colTeamName}
                 className="h-8 w-8 object-contain"
               />
               <div>
                 <div className="text-[10px] uppercase tracking-wider text-slate-500">Columns</div>
-                <div className="text-xs font-bold text-slate-200 uppercase">{awayTeamName}</div>
+                <div className="text-xs font-bold text-slate-200 uppercase">{colTeamName}</div>
               </div>
             </div>
           </div>
@@ -325,35 +362,35 @@ export const GridBoard: React.FC<GridBoardProps> = ({
       {/* Desktop / Larger screens */}
       <div className="hidden md:block w-full overflow-x-auto grid-scroll pb-4">
         <div className="min-w-[1000px] flex flex-col">
-          {/* AWAY TEAM HEADER (Horizontal) */}
+          {/* COLUMN TEAM HEADER (Horizontal) */}
           <div className="flex mb-4">
             <div className="w-[180px] shrink-0" />
             <div className="flex-1 flex flex-col items-center justify-center bg-slate-800/50 rounded-xl border border-slate-700/50 p-4 mb-2 relative overflow-hidden">
               <div className="absolute inset-0 bg-gradient-to-b from-red-900/10 to-transparent pointer-events-none" />
               <img
-                src={awayLogo}
-                alt={awayTeamName}
+                src={colLogo}
+                alt={colTeamName}
                 className="h-16 w-16 object-contain mb-2 drop-shadow-lg"
               />
               <h2 className="text-4xl font-black text-slate-100 uppercase tracking-tighter drop-shadow-md">
-                {awayTeamName}
+                {colTeamName}
               </h2>
             </div>
           </div>
 
           <div className="flex">
-            {/* HOME TEAM HEADER (Vertical) */}
+            {/* ROW TEAM HEADER (Vertical) */}
             <div className="w-[180px] shrink-0 flex flex-col items-center justify-center bg-slate-800/50 rounded-xl border border-slate-700/50 p-4 mr-4 relative overflow-hidden">
               <div className="absolute inset-0 bg-gradient-to-r from-blue-900/10 to-transparent pointer-events-none" />
               <div className="flex flex-col items-center sticky top-4">
                 <img
-                  src={homeLogo}
-                  alt={homeTeamName}
+                  src={rowLogo}
+                  alt={rowTeamName}
                   className="h-16 w-16 object-contain mb-6 drop-shadow-lg"
                 />
                 <div className="flex flex-row-reverse items-center gap-4">
                   <h2 className="text-4xl font-black text-slate-100 uppercase tracking-tighter [writing-mode:vertical-rl] rotate-180 drop-shadow-md">
-                    {homeTeamName}
+                    {rowTeamName}
                   </h2>
                 </div>
               </div>
@@ -0,0 +1,224 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Circle, FolderOpen, Pause, Play, Square } from "lucide-react";
+import { Button } from "./Button";
+import { LiveGameSnapshot, LiveSession } from "../types";
+import {
+  getLiveSessionDurationMs,
+  getLiveSessionEntryIndex,
+  parseLiveSession,
+  replayLiveSession,
+} from "../services/liveSessionService";
+
+export interface LiveReplayFrame {
+  snapshot: LiveGameSnapshot | null;
+}
+
+interface LiveSessionPanelProps {
+  /** Requests recorded so far, or null when not recording. */
+  recordedCount: number | null;
+  canRecord: boolean;
+  onStartRecording: () => void;
+  /** Stops recording and downloads the session file. */
+  onStopRecording: () => void;
+  /** Called with each replayed frame, and with null when replay ends. */
+  onReplayChange: (frame: LiveReplayFrame | null) => void;
+}
+
+const REPLAY_SPEEDS = [1, 2, 5, 10, 30];
+const REPLAY_TICK_MS = 250;
+
+const formatOffset = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}`
+    : `${minutes}:${seconds}`;
+};
+
+export const LiveSessionPanel: React.FC<LiveSessionPanelProps> = ({
+  recordedCount,
+  canRecord,
+  onStartRecording,
+  onStopRecording,
+  onReplayChange,
+}) => {
+  const [session, setSession] = useState<LiveSession | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [positionMs, setPositionMs] = useState(0);
+  const [speed, setSpeed] = useState(1);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const durationMs = session ? getLiveSessionDurationMs(session) : 0;
+  const entryIndex = useMemo(
+    () => (session ? getLiveSessionEntryIndex(session, positionMs) : -1),
+    [session, positionMs],
+  );
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = window.setInterval(() => {
+      setPositionMs((prev) => Math.min(durationMs, prev + REPLAY_TICK_MS * speed));
+    }, REPLAY_TICK_MS);
+    return () => window.clearInterval(timer);
+  }, [durationMs, isPlaying, speed]);
+
+  useEffect(() => {
+    if (isPlaying && positionMs >= durationMs) setIsPlaying(false);
+  }, [durationMs, isPlaying, positionMs]);
+
+  useEffect(() => () => onReplayChange(null), [onReplayChange]);
+
+  // Only a new recorded response can change the snapshot, so replay per entry, not per tick.
+  useEffect(() => {
+    if (!session) return;
+    let cancelled = false;
+    replayLiveSession(session, entryIndex)
+      .then((snapshot) => {
+        if (!cancelled) onReplayChange({ snapshot });
+      })
+      .catch((replayError) => {
+        if (cancelled) return;
+        setFileError(replayError instanceof Error ? replayError.message : "Replay failed.");
+        onReplayChange({ snapshot: null });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [entryIndex, onReplayChange, session]);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      setSession(parseLiveSession(await file.text()));
+      setFileError(null);
+      setPositionMs(0);
+      setIsPlaying(false);
+    } catch (parseError) {
+      setFileError(parseError instanceof Error ? parseError.message : "Could not read the file.");
+    }
+  };
+
+  const stopReplay = () => {
+    setSession(null);
+    setIsPlaying(false);
+    setPositionMs(0);
+    onReplayChange(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-slate-400">
+        Record every ESPN response this browser receives while the board is locked, then replay
+        the file later through the same parser and heatmap model.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {recordedCount === null ? (
+          <Button
+            type="button"
+            size="sm"
+            variant="secondary"
+            icon={<Circle size={14} />}
+            onClick={onStartRecording}
+            disabled={!canRecord || session !== null}
+          >
+            Record Session
+          </Button>
+        ) : (
+          <Button
+            type="button"
+            size="sm"
+            variant="danger"
+            icon={<Square size={14} />}
+            onClick={onStopRecording}
+          >
+            Stop &amp; Save ({recordedCount})
+          </Button>
+        )}
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          icon={<FolderOpen size={14} />}
+          onClick={() => fileInputRef.current?.click()}
+          disabled={recordedCount !== null}
+        >
+          Open Session
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleFile}
+        />
+      </div>
+      {!canRecord && recordedCount === null && (
+        <p className="text-[11px] text-slate-500">Recording needs the ESPN live feed.</p>
+      )}
+
+      {fileError && <p className="text-[11px] text-red-300">{fileError}</p>}
+
+      {session && (
+        <div className="space-y-2 rounded-lg border border-slate-700 bg-slate-900/60 p-3">
+          <p className="text-[11px] text-slate-400">
+            {session.query.awayTeamName} @ {session.query.homeTeamName}, recorded{" "}
+            {new Date(session.startedAt).toLocaleString()} · response {entryIndex + 1} of{" "}
+            {session.entries.length}
+          </p>
+          <input
+            type="range"
+            min={0}
+            max={durationMs}
+            step={1000}
+            value={positionMs}
+            onChange={(e) => setPositionMs(Number(e.target.value))}
+            className="w-full accent-emerald-500"
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              type="button"
+              size="sm"
+              variant="secondary"
+              icon={isPlaying ? <Pause size={14} /> : <Play size={14} />}
+              onClick={() => {
+                if (!isPlaying && positionMs >= durationMs) setPositionMs(0);
+                setIsPlaying((prev) => !prev);
+              }}
+            >
+              {isPlaying ? "Pause" : "Play"}
+            </Button>
+            <select
+              value={speed}
+              onChange={(e) => setSpeed(Number(e.target.value))}
+              className="bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200"
+            >
+              {REPLAY_SPEEDS.map((option) => (
+                <option key={option} value={option}>
+                  {option}x
+                </option>
+              ))}
+            </select>
+            <span className="text-[11px] text-slate-400 tabular-nums">
+              {formatOffset(positionMs)} / {formatOffset(durationMs)}
+            </span>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              className="ml-auto"
+              onClick={stopReplay}
+            >
+              End Replay
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,260 @@
+import React, { useEffect, useState } from "react";
+import { Check, Download } from "lucide-react";
+import { Button } from "./Button";
+import { PaymentLedgerEntry, PaymentMethod, PlayerPayment } from "../types";
+import { formatPayoutAmount, toCents } from "../services/payoutService";
+import { PAYMENT_METHOD_LABELS, PAYMENT_METHODS } from "../services/paymentLedgerService";
+
+type PaymentUpdate = Omit<PlayerPayment, "playerKey" | "updatedAt">;
+
+interface PaymentLedgerPanelProps {
+  entries: PaymentLedgerEntry[];
+  showSettlement: boolean;
+  onSavePayment: (update: PaymentUpdate) => void;
+  onExportCsv: () => void;
+}
+
+type PaymentDraft = {
+  amountPaid: string;
+  method: PaymentMethod | "";
+  notes: string;
+};
+
+const inputClassName =
+  "w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:border-emerald-500 focus:outline-none";
+
+const toDraft = (entry: PaymentLedgerEntry): PaymentDraft => ({
+  amountPaid: entry.amountPaid ? String(entry.amountPaid) : "",
+  method: entry.method ?? "",
+  notes: entry.notes,
+});
+
+const PaymentRow: React.FC<{
+  entry: PaymentLedgerEntry;
+  onSave: (update: PaymentUpdate) => void;
+}> = ({ entry, onSave }) => {
+  const [draft, setDraft] = useState<PaymentDraft>(() => toDraft(entry));
+
+  useEffect(() => {
+    setDraft(toDraft(entry));
+  }, [entry]);
+
+  const parsedPaid = Number.parseFloat(draft.amountPaid);
+  const isValid = draft.amountPaid === "" || (Number.isFinite(parsedPaid) && parsedPaid >= 0);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(toDraft(entry));
+
+  const save = (next: PaymentDraft) => {
+    const amount = Number.parseFloat(next.amountPaid);
+    onSave({
+      playerName: entry.playerName,
+      amountPaid: Number.isFinite(amount) ? amount : 0,
+      method: next.method || null,
+      notes: next.notes,
+    });
+  };
+
+  return (
+    <tr className="border-t border-slate-800 align-top">
+      <td className="py-2 pr-2">
+        <p className="font-semibold text-white">{entry.playerName}</p>
+        <p className="text-[11px] text-slate-500">
+          {entry.squareCount} square{entry.squareCount === 1 ? "" : "s"} •{" "}
+          {formatPayoutAmount(entry.amountOwed)} owed
+        </p>
+      </td>
+      <td className="py-2 pr-2 w-24">
+        <input
+          type="number"
+          min="0"
+          step="0.01"
+          value={draft.amountPaid}
+          onChange={(e) => setDraft((prev) => ({ ...prev, amountPaid: e.target.value }))}
+          placeholder="0"
+          className={inputClassName}
+        />
+      </td>
+      <td className="py-2 pr-2 w-28">
+        <select
+          value={draft.method}
+          onChange={(e) =>
+            setDraft((prev) => ({ ...prev, method: e.target.value as PaymentMethod | "" }))
+          }
+          className={inputClassName}
+        >
+          <option value="">—</option>
+          {PAYMENT_METHODS.map((method) => (
+            <option key={method} value={method}>
+              {PAYMENT_METHOD_LABELS[method]}
+            </option>
+          ))}
+        </select>
+      </td>
+      <td className="py-2 pr-2">
+        <input
+          value={draft.notes}
+          onChange={(e) => setDraft((prev) => ({ ...prev, notes: e.target.value }))}
+          maxLength={120}
+          placeholder="Notes"
+          className={inputClassName}
+        />
+      </td>
+      <td
+        className={`py-2 pr-2 text-right font-semibold ${
+          entry.balanceDue > 0 ? "text-amber-300" : "text-emerald-400"
+        }`}
+      >
+        {entry.balanceDue === 0
+          ? "Paid"
+          : entry.balanceDue > 0
+            ? formatPayoutAmount(entry.balanceDue)
+            : `Credit ${formatPayoutAmount(-entry.balanceDue)}`}
+      </td>
+      <td className="py-2 text-right whitespace-nowrap">
+        {isDirty ? (
+          <Button size="sm" disabled={!isValid} onClick={() => save(draft)}>
+            Save
+          </Button>
+        ) : (
+          entry.balanceDue > 0 && (
+            <Button
+              size="sm"
+              variant="ghost"
+              icon={<Check size={14} />}
+              onClick={() => save({ ...draft, amountPaid: String(entry.amountOwed) })}
+            >
+              Paid in full
+            </Button>
+          )
+        )}
+      </td>
+    </tr>
+  );
+};
+
+export const PaymentLedgerPanel: React.FC<PaymentLedgerPanelProps> = ({
+  entries,
+  showSettlement,
+  onSavePayment,
+  onExportCsv,
+}) => {
+  const [showUnpaidOnly, setShowUnpaidOnly] = useState(false);
+
+  // Ledger amounts are rounded to cents, so plain comparisons are safe.
+  const unpaidEntries = entries.filter((entry) => entry.balanceDue > 0);
+  const visibleEntries = showUnpaidOnly ? unpaidEntries : entries;
+  const totalOwed = toCents(entries.reduce((sum, entry) => sum + entry.amountOwed, 0));
+  const totalPaid = toCents(entries.reduce((sum, entry) => sum + entry.amountPaid, 0));
+  const outstanding = toCents(unpaidEntries.reduce((sum, entry) => sum + entry.balanceDue, 0));
+  const collectFrom = entries.filter((entry) => entry.netSettlement < 0);
+  const payOutTo = entries.filter((entry) => entry.netSettlement > 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-4 text-xs text-slate-400">
+        <span>
+          Owed <span className="text-white font-semibold">{formatPayoutAmount(totalOwed)}</span>
+        </span>
+        <span>
+          Collected{" "}
+          <span className="text-emerald-400 font-semibold">{formatPayoutAmount(totalPaid)}</span>
+        </span>
+        <span>
+          Outstanding{" "}
+          <span className="text-amber-300 font-semibold">{formatPayoutAmount(outstanding)}</span>{" "}
+          from {unpaidEntries.length} player{unpaidEntries.length === 1 ? "" : "s"}
+        </span>
+        <div className="ml-auto flex items-center gap-2">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={showUnpaidOnly}
+              onChange={(e) => setShowUnpaidOnly(e.target.checked)}
+            />
+            Unpaid only
+          </label>
+          <Button
+            size="sm"
+            variant="secondary"
+            icon={<Download size={14} />}
+            onClick={onExportCsv}
+            disabled={entries.length === 0}
+          >
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      {visibleEntries.length === 0 ? (
+        <p className="text-xs text-slate-500">
+          {showUnpaidOnly ? "Everyone has paid." : "No players on the board yet."}
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-[10px] uppercase tracking-wider text-slate-500">
+                <th className="pb-2 pr-2 font-semibold">Player</th>
+                <th className="pb-2 pr-2 font-semibold">Paid</th>
+                <th className="pb-2 pr-2 font-semibold">Method</th>
+                <th className="pb-2 pr-2 font-semibold">Notes</th>
+                <th className="pb-2 pr-2 font-semibold text-right">Balance</th>
+                <th className="pb-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {visibleEntries.map((entry) => (
+                <PaymentRow key={entry.playerKey} entry={entry} onSave={onSavePayment} />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {showSettlement && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="rounded-lg border border-slate-800 p-3">
+            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">
+              Collect From
+            </h3>
+            {collectFrom.length === 0 ? (
+              <p className="text-xs text-slate-500">Nobody owes the pool.</p>
+            ) : (
+              <ul className="space-y-1 text-sm">
+                {collectFrom.map((entry) => (
+                  <li key={entry.playerKey} className="flex justify-between gap-2">
+                    <span className="text-slate-300">{entry.playerName}</span>
+                    <span className="font-semibold text-amber-300">
+                      {formatPayoutAmount(-entry.netSettlement)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <div className="rounded-lg border border-slate-800 p-3">
+            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">
+              Pay Out To
+            </h3>
+            {payOutTo.length === 0 ? (
+              <p className="text-xs text-slate-500">No payouts due yet.</p>
+            ) : (
+              <ul className="space-y-1 text-sm">
+                {payOutTo.map((entry) => (
+                  <li key={entry.playerKey} className="flex justify-between gap-2">
+                    <span className="text-slate-300">{entry.playerName}</span>
+                    <span className="font-semibold text-emerald-400">
+                      {formatPayoutAmount(entry.netSettlement)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className="mt-2 text-[11px] text-slate-500">
+              Winnings are netted against any unpaid entry fees.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,308 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "./Button";
+import {
+  BonusPrizeRules,
+  PayoutBreakdown,
+  PayoutPeriod,
+  PayoutRoundingMode,
+  PayoutRules,
+  UnclaimedPrizeRule,
+} from "../types";
+import {
+  PAYOUT_PERIOD_LABELS,
+  PAYOUT_PERIODS,
+  PAYOUT_ROUNDING_LABELS,
+  UNCLAIMED_PRIZE_RULE_LABELS,
+  computePayoutBreakdown,
+  formatPayoutAmount,
+  getPayoutPercentageTotal,
+  validatePayoutRules,
+} from "../services/payoutService";
+
+interface PayoutRulesEditorProps {
+  rules: PayoutRules;
+  grossPot: number;
+  onSave: (rules: PayoutRules) => void;
+}
+
+const parseAmount = (value: string): number => {
+  const parsed = Number.parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const inputClassName =
+  "mt-1 w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm text-slate-200 focus:border-emerald-500 focus:outline-none";
+
+export const PayoutRulesEditor: React.FC<PayoutRulesEditorProps> = ({
+  rules,
+  grossPot,
+  onSave,
+}) => {
+  const [draft, setDraft] = useState<PayoutRules>(rules);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    setDraft(rules);
+    setErrors([]);
+  }, [rules]);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(rules);
+  const percentageTotal = getPayoutPercentageTotal(draft);
+  const preview: PayoutBreakdown = computePayoutBreakdown(grossPot, draft);
+
+  const updatePeriodField = (
+    field: "periodPercentages" | "fixedPrizes",
+    period: PayoutPeriod,
+    value: string,
+  ) => {
+    setDraft((prev) => ({
+      ...prev,
+      [field]: { ...prev[field], [period]: parseAmount(value) },
+    }));
+    setErrors([]);
+  };
+
+  const updateBonusPrizes = (patch: Partial<BonusPrizeRules>) => {
+    setDraft((prev) => ({
+      ...prev,
+      bonusPrizes: { ...prev.bonusPrizes, ...patch },
+    }));
+    setErrors([]);
+  };
+
+  const handleSave = () => {
+    const nextErrors = validatePayoutRules(draft);
+    if (nextErrors.length > 0) {
+      setErrors(nextErrors);
+      return;
+    }
+    onSave({ ...draft, houseCutLabel: draft.houseCutLabel.trim() });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-[1fr_auto_auto] gap-x-2 gap-y-1 items-end text-[11px] text-slate-400">
+        <span className="uppercase tracking-wider text-slate-500">Period</span>
+        <span className="uppercase tracking-wider text-slate-500 w-16">Split %</span>
+        <span className="uppercase tracking-wider text-slate-500 w-20">Fixed $</span>
+        {PAYOUT_PERIODS.map((period) => (
+          <React.Fragment key={period}>
+            <span className="pb-2">
+              {PAYOUT_PERIOD_LABELS[period]}
+              <span className="block text-slate-500">
+                {formatPayoutAmount(preview.periodPayouts[period])}
+              </span>
+            </span>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              aria-label={`${PAYOUT_PERIOD_LABELS[period]} split percentage`}
+              value={draft.periodPercentages[period]}
+              onChange={(e) =>
+                updatePeriodField("periodPercentages", period, e.target.value)
+              }
+              className={`${inputClassName} w-16`}
+            />
+            <input
+              type="number"
+              min="0"
+              aria-label={`${PAYOUT_PERIOD_LABELS[period]} fixed prize`}
+              value={draft.fixedPrizes[period]}
+              onChange={(e) => updatePeriodField("fixedPrizes", period, e.target.value)}
+              className={`${inputClassName} w-20`}
+            />
+          </React.Fragment>
+        ))}
+      </div>
+      <p
+        className={`text-[11px] ${
+          Math.abs(percentageTotal - 100) < 0.001 ? "text-slate-500" : "text-amber-300"
+        }`}
+      >
+        Split totals {percentageTotal}% of the pot after the cut and fixed prizes.
+      </p>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="block text-[11px] text-slate-400">
+          Cut label
+          <input
+            value={draft.houseCutLabel}
+            onChange={(e) => {
+              setDraft((prev) => ({ ...prev, houseCutLabel: e.target.value }));
+              setErrors([]);
+            }}
+            placeholder="House or Charity"
+            className={inputClassName}
+          />
+        </label>
+        <label className="block text-[11px] text-slate-400">
+          Cut %
+          <input
+            type="number"
+            min="0"
+            max="99"
+            value={draft.houseCutPercent}
+            onChange={(e) => {
+              setDraft((prev) => ({
+                ...prev,
+                houseCutPercent: parseAmount(e.target.value),
+              }));
+              setErrors([]);
+            }}
+            className={inputClassName}
+          />
+        </label>
+      </div>
+
+      <label className="block text-[11px] text-slate-400">
+        Rounding
+        <select
+          value={draft.rounding}
+          onChange={(e) => {
+            setDraft((prev) => ({
+              ...prev,
+              rounding: e.target.value as PayoutRoundingMode,
+            }));
+            setErrors([]);
+          }}
+          className={inputClassName}
+        >
+          {(Object.keys(PAYOUT_ROUNDING_LABELS) as PayoutRoundingMode[]).map((mode) => (
+            <option key={mode} value={mode}>
+              {PAYOUT_ROUNDING_LABELS[mode]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="block text-[11px] text-slate-400">
+        When the winning square is unclaimed
+        <select
+          value={draft.unclaimedRule}
+          onChange={(e) => {
+            setDraft((prev) => ({
+              ...prev,
+              unclaimedRule: e.target.value as UnclaimedPrizeRule,
+            }));
+            setErrors([]);
+          }}
+          className={inputClassName}
+        >
+          {(Object.keys(UNCLAIMED_PRIZE_RULE_LABELS) as UnclaimedPrizeRule[]).map(
+            (rule) => (
+              <option key={rule} value={rule}>
+                {UNCLAIMED_PRIZE_RULE_LABELS[rule]}
+              </option>
+            ),
+          )}
+        </select>
+      </label>
+
+      <div className="space-y-2 rounded border border-slate-800 bg-slate-950/40 p-2">
+        <p className="text-[11px] uppercase tracking-wider text-slate-500">
+          Bonus Prizes (share of each period)
+        </p>
+        <div className="grid grid-cols-[1fr_auto] gap-2 items-center text-[11px] text-slate-400">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={draft.bonusPrizes.reverseEnabled}
+              onChange={(e) => updateBonusPrizes({ reverseEnabled: e.target.checked })}
+            />
+            Reverse digits square
+          </label>
+          <input
+            type="number"
+            min="0"
+            max="99"
+            aria-label="Reverse square share percentage"
+            value={draft.bonusPrizes.reverseSharePercent}
+            disabled={!draft.bonusPrizes.reverseEnabled}
+            onChange={(e) =>
+              updateBonusPrizes({ reverseSharePercent: parseAmount(e.target.value) })
+            }
+            className={`${inputClassName} w-16 mt-0 disabled:opacity-50`}
+          />
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={draft.bonusPrizes.neighborsEnabled}
+              onChange={(e) => updateBonusPrizes({ neighborsEnabled: e.target.checked })}
+            />
+            Squares touching the winner
+          </label>
+          <input
+            type="number"
+            min="0"
+            max="99"
+            aria-label="Adjacent squares share percentage"
+            value={draft.bonusPrizes.neighborSharePercent}
+            disabled={!draft.bonusPrizes.neighborsEnabled}
+            onChange={(e) =>
+              updateBonusPrizes({ neighborSharePercent: parseAmount(e.target.value) })
+            }
+            className={`${inputClassName} w-16 mt-0 disabled:opacity-50`}
+          />
+          <label className="col-span-2 flex items-center gap-2 pl-5">
+            <input
+              type="checkbox"
+              checked={draft.bonusPrizes.neighborsIncludeDiagonals}
+              disabled={!draft.bonusPrizes.neighborsEnabled}
+              onChange={(e) =>
+                updateBonusPrizes({ neighborsIncludeDiagonals: e.target.checked })
+              }
+            />
+            Include diagonal squares
+          </label>
+        </div>
+        <p className="text-[11px] text-slate-500">
+          Neighbor share is split evenly across the touching squares.
+        </p>
+      </div>
+
+      <p className="text-[11px] text-slate-500">
+        {draft.houseCutLabel.trim() || "House"} keeps{" "}
+        {formatPayoutAmount(preview.houseCut + preview.roundingRemainder)}
+        {preview.roundingRemainder > 0
+          ? ` (incl. ${formatPayoutAmount(preview.roundingRemainder)} rounding leftover)`
+          : ""}
+        .
+      </p>
+
+      {errors.length > 0 && (
+        <ul className="space-y-1">
+          {errors.map((error) => (
+            <li key={error} className="text-[11px] text-red-400">
+              {error}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          size="sm"
+          className="flex-1"
+          onClick={handleSave}
+          disabled={!isDirty}
+        >
+          Save Payout Rules
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          onClick={() => {
+            setDraft(rules);
+            setErrors([]);
+          }}
+          disabled={!isDirty}
+        >
+          Revert
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,173 @@
+import React, { useState } from "react";
+import { Button } from "./Button";
+import { GameResult, PeriodScoreCapture } from "../types";
+import { PAYOUT_PERIOD_LABELS } from "../services/payoutService";
+
+interface PeriodScoreCapturePanelProps {
+  scores: PeriodScoreCapture[];
+  results: GameResult[];
+  homeTeam: string;
+  awayTeam: string;
+  /** Copies a captured score into the score form. */
+  onUse: (score: PeriodScoreCapture) => void;
+  onCorrect: (period: PeriodScoreCapture["period"], homeScore: number, awayScore: number) => void;
+}
+
+type ScoreDraft = {
+  period: PeriodScoreCapture["period"];
+  home: string;
+  away: string;
+};
+
+const scoreInputClassName =
+  "w-16 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white focus:border-emerald-500 focus:outline-none";
+
+const describeSource = (score: PeriodScoreCapture): string => {
+  if (score.source === "admin") return "Corrected by admin";
+  return score.isExact
+    ? "From the live feed"
+    : "From the live feed; it skipped past the end of the period, so check this score";
+};
+
+export const PeriodScoreCapturePanel: React.FC<PeriodScoreCapturePanelProps> = ({
+  scores,
+  results,
+  homeTeam,
+  awayTeam,
+  onUse,
+  onCorrect,
+}) => {
+  const [draft, setDraft] = useState<ScoreDraft | null>(null);
+  const [draftError, setDraftError] = useState<string | null>(null);
+
+  const saveDraft = () => {
+    if (!draft) return;
+    const homeScore = Number.parseInt(draft.home, 10);
+    const awayScore = Number.parseInt(draft.away, 10);
+    if (
+      !Number.isInteger(homeScore) ||
+      !Number.isInteger(awayScore) ||
+      homeScore < 0 ||
+      awayScore < 0
+    ) {
+      setDraftError("Enter valid non-negative whole-number scores.");
+      return;
+    }
+    onCorrect(draft.period, homeScore, awayScore);
+    setDraft(null);
+    setDraftError(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-semibold text-slate-400">Captured from the live feed</p>
+      {scores.length === 0 ? (
+        <p className="text-[11px] text-slate-500">
+          While the board is open during the game, the score at the end of Q1, halftime and Q3 is
+          saved here.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {scores.map((score) => {
+            const result = results.find((entry) => entry.period === score.period);
+            const isEditing = draft?.period === score.period;
+            return (
+              <li
+                key={score.period}
+                className="rounded-lg border border-slate-700 bg-slate-900/60 px-3 py-2 space-y-1"
+              >
+                <div className="flex flex-wrap items-center gap-2 text-xs text-slate-200">
+                  <span className="font-semibold w-24">{PAYOUT_PERIOD_LABELS[score.period]}</span>
+                  {isEditing ? (
+                    <>
+                      <input
+                        type="number"
+                        min="0"
+                        inputMode="numeric"
+                        aria-label={`${homeTeam} score`}
+                        value={draft.home}
+                        onChange={(e) => setDraft({ ...draft, home: e.target.value })}
+                        className={scoreInputClassName}
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        inputMode="numeric"
+                        aria-label={`${awayTeam} score`}
+                        value={draft.away}
+                        onChange={(e) => setDraft({ ...draft, away: e.target.value })}
+                        className={scoreInputClassName}
+                      />
+                      <Button type="button" size="sm" variant="secondary" onClick={saveDraft}>
+                        Save
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => {
+                          setDraft(null);
+                          setDraftError(null);
+                        }}
+                      >
+                        Cancel
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <span className="tabular-nums">
+                        {homeTeam} {score.homeScore}, {awayTeam} {score.awayScore}
+                      </span>
+                      <span className="ml-auto flex gap-1">
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => onUse(score)}
+                        >
+                          Use
+                        </Button>
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="ghost"
+                          onClick={() =>
+                            setDraft({
+                              period: score.period,
+                              home: String(score.homeScore),
+                              away: String(score.awayScore),
+                            })
+                          }
+                        >
+                          Correct
+                        </Button>
+                      </span>
+                    </>
+                  )}
+                </div>
+                <p
+                  className={`text-[11px] ${
+                    score.source === "live_feed" && !score.isExact
+                      ? "text-amber-300"
+                      : "text-slate-500"
+                  }`}
+                >
+                  {describeSource(score)}
+                </p>
+                {result &&
+                  (result.homeScore !== score.homeScore ||
+                    result.awayScore !== score.awayScore) && (
+                    <p className="text-[11px] text-amber-300">
+                      The recorded result is {result.homeScore}-{result.awayScore}. Record the
+                      period again if this score is right.
+                    </p>
+                  )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {draftError && <p className="text-[11px] text-red-400">{draftError}</p>}
+    </div>
+  );
+};
@@ -2,6 +2,7 @@ import React, { useEffect } from "react";
 import { X } from "lucide-react";
 import { Button } from "./Button";
 import { SquareStatus } from "../types";
+import { formatPayoutAmount } from "../services/payoutService";
 
 interface SquareDetailsModalProps {
   isOpen: boolean;
@@ -10,14 +11,16 @@ interface SquareDetailsModalProps {
   playerName: string | null;
   rowDigit: number | null;
   colDigit: number | null;
-  homeTeamName: string;
-  awayTeamName: string;
+  rowTeamName: string;
+  colTeamName: string;
   winPercentage: number | null;
   areDigitsRevealed: boolean;
   areOddsVisible: boolean;
   cellStatus: SquareStatus;
+  amountWon?: number;
   isAdmin: boolean;
   onManageSquare?: () => void;
+  onRequestSquare?: () => void;
 }
 
 const getStatusLabel = (status: SquareStatus): string => {
@@ -33,14 +36,16 @@ export const SquareDetailsModal: React.FC<SquareDetailsModalProps> = ({
   playerName,
   rowDigit,
   colDigit,
-  homeTeamName,
-  awayTeamName,
+  rowTeamName,
+  colTeamName,
   winPercentage,
   areDigitsRevealed,
   areOddsVisible,
   cellStatus,
+  amountWon = 0,
   isAdmin,
   onManageSquare,
+  onRequestSquare,
 }) => {
   useEffect(() => {
     if (!isOpen) return;
@@ -56,9 +61,9 @@ export const SquareDetailsModal: React.FC<SquareDetailsModalProps> = ({
   if (!isOpen) return null;
 
   const playerLabel = playerName?.trim() ? playerName.trim() : "Unclaimed";
-  const homeDigitLabel =
+  const rowDigitLabel =
     areDigitsRevealed && rowDigit !== null ? String(rowDigit) : "?";
-  const awayDigitLabel =
+  const colDigitLabel =
     areDigitsRevealed && colDigit !== null ? String(colDigit) : "?";
   const oddsLabel = areOddsVisible
     ? typeof winPercentage === "number" && Number.isFinite(winPercentage)
@@ -114,15 +119,15 @@ export const SquareDetailsModal: React.FC<SquareDetailsModalProps> = ({
             <div className="mt-2 grid grid-cols-2 gap-2">
               <div className="rounded border border-slate-700 bg-slate-900 px-3 py-2">
                 <p className="text-[10px] uppercase tracking-wide text-slate-500">
-                  {homeTeamName}
+                  {rowTeamName}
                 </p>
-                <p className="text-lg font-bold text-white">{homeDigitLabel}</p>
+                <p className="text-lg font-bold text-white">{rowDigitLabel}</p>
               </div>
               <div className="rounded border border-slate-700 bg-slate-900 px-3 py-2">
                 <p className="text-[10px] uppercase tracking-wide text-slate-500">
-                  {awayTeamName}
+                  {colTeamName}
                 </p>
-                <p className="text-lg font-bold text-white">{awayDigitLabel}</p>
+                <p className="text-lg font-bold text-white">{colDigitLabel}</p>
               </div>
             </div>
             {!areDigitsRevealed && (
@@ -138,6 +143,21 @@ export const SquareDetailsModal: React.FC<SquareDetailsModalProps> = ({
             </p>
             <p className="mt-1 text-2xl font-black text-emerald-300">{oddsLabel}</p>
           </div>
+
+          {(amountWon > 0 || !areOddsVisible) && (
+            <div className="rounded-lg border border-slate-700/80 bg-slate-950/80 p-3">
+              <p className="text-[11px] uppercase tracking-wider text-slate-500">
+                Amount Won
+              </p>
+              <p
+                className={`mt-1 text-2xl font-black ${
+                  amountWon > 0 ? "text-amber-300" : "text-slate-400"
+                }`}
+              >
+                {formatPayoutAmount(amountWon)}
+              </p>
+            </div>
+          )}
         </div>
 
         <div className="mt-5 flex flex-wrap justify-end gap-2">
@@ -154,6 +174,18 @@ export const SquareDetailsModal: React.FC<SquareDetailsModalProps> = ({
               Manage Square
             </Button>
           )}
+          {cellStatus === "empty" && onRequestSquare && (
+            <Button
+              type="button"
+              size="sm"
+              onClick={() => {
+                onRequestSquare();
+                onClose();
+              }}
+            >
+              Request Square
+            </Button>
+          )}
           <Button type="button" size="sm" variant="ghost" onClick={onClose}>
             Close
           </Button>
@@ -1,30 +1,89 @@
 import React from "react";
 import { Trophy, X } from "lucide-react";
-import { GameResult } from "../types";
+import {
+  GameResult,
+  PayoutBreakdown,
+  PayoutSettlement,
+  UnclaimedPayoutOutcome,
+} from "../types";
+import {
+  PAYOUT_AWARD_KIND_LABELS,
+  PAYOUT_PERIOD_LABELS,
+  formatPayoutAmount,
+} from "../services/payoutService";
 
 interface WinnerModalProps {
   isOpen: boolean;
   onClose: () => void;
-  result: GameResult | null;
+  results: GameResult[];
+  settlement: PayoutSettlement;
+  breakdown: PayoutBreakdown;
+  houseCutLabel: string;
   homeTeam: string;
   awayTeam: string;
 }
 
+const describeUnclaimedOutcome = (
+  outcome: UnclaimedPayoutOutcome,
+  houseCutLabel: string,
+): string => {
+  const amount = formatPayoutAmount(outcome.amount);
+  if (outcome.rule === "rollover" && outcome.rolloverTo) {
+    return `${amount} rolls into the ${PAYOUT_PERIOD_LABELS[outcome.rolloverTo]} prize.`;
+  }
+  if (outcome.rule === "split_all_owners") {
+    return `${amount} is split across ${outcome.recipientCount} claimed square${
+      outcome.recipientCount === 1 ? "" : "s"
+    }.`;
+  }
+  if (outcome.rule === "nearest_claimed") {
+    return `${amount} goes to the nearest claimed square.`;
+  }
+  return `${amount} returns to the ${houseCutLabel.toLowerCase()}.`;
+};
+
 export const WinnerModal: React.FC<WinnerModalProps> = ({
   isOpen,
   onClose,
-  result,
+  results,
+  settlement,
+  breakdown,
+  houseCutLabel,
   homeTeam,
   awayTeam,
 }) => {
+  const { awards } = settlement;
+  const result = results[results.length - 1] ?? null;
   if (!isOpen || !result) return null;
 
+  const isFinal = result.period === "final";
+  const periodLabel = PAYOUT_PERIOD_LABELS[result.period];
   const hasWinner = Boolean(result.winnerName);
   const scoreline = `${homeTeam} ${result.homeScore} - ${awayTeam} ${result.awayScore}`;
+  const getAmountWon = (entry: GameResult): number =>
+    awards
+      .filter((award) => award.period === entry.period && award.kind === "winner")
+      .reduce((sum, award) => sum + award.amount, 0);
+  const bonusAwards = awards.filter(
+    (award) =>
+      award.period === result.period &&
+      (award.kind === "reverse" || award.kind === "neighbor"),
+  );
+  const redistributionAwards = awards.filter(
+    (award) => award.period === result.period && award.kind === "redistribution",
+  );
+  const getUnclaimedOutcome = (entry: GameResult) =>
+    settlement.unclaimed.find((outcome) => outcome.period === entry.period) ?? null;
+  const latestUnclaimedOutcome = getUnclaimedOutcome(result);
+  const rolledIn = settlement.rolledInByPeriod[result.period] ?? 0;
+  const houseTotal =
+    breakdown.houseCut +
+    breakdown.roundingRemainder +
+    settlement.unclaimed.reduce((sum, outcome) => sum + outcome.houseAmount, 0);
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
-      <div className="relative w-full max-w-xl rounded-2xl border border-emerald-700/40 bg-slate-900 p-6 shadow-2xl shadow-emerald-950/50">
+      <div className="relative w-full max-w-xl max-h-[90vh] overflow-y-auto rounded-2xl border border-emerald-700/40 bg-slate-900 p-6 shadow-2xl shadow-emerald-950/50">
         <button
           type="button"
           onClick={onClose}
@@ -36,7 +95,7 @@ export const WinnerModal: React.FC<WinnerModalProps> = ({
 
         <div className="mb-4 inline-flex items-center gap-2 rounded-full border border-emerald-700/50 bg-emerald-900/40 px-3 py-1 text-xs font-bold uppercase tracking-wider text-emerald-200">
           <Trophy size={14} />
-          Final Result
+          {isFinal ? "Final Result" : `${periodLabel} Result`}
         </div>
 
         <h3 className="text-xl font-black text-white sm:text-2xl">
@@ -44,12 +103,61 @@ export const WinnerModal: React.FC<WinnerModalProps> = ({
         </h3>
 
         <p className="mt-3 text-slate-200">
-          The game ended <span className="font-semibold text-white">{scoreline}</span>
+          {isFinal ? "The game ended" : `The score at ${periodLabel.toLowerCase()} was`}{" "}
+          <span className="font-semibold text-white">{scoreline}</span>
           {hasWinner
             ? "."
             : `, and nobody claimed square #${result.winnerSquareNumber}.`}
         </p>
 
+        {rolledIn > 0 && (
+          <p className="mt-2 text-sm text-emerald-300">
+            Includes {formatPayoutAmount(rolledIn)} rolled over from earlier unclaimed
+            periods.
+          </p>
+        )}
+
+        {latestUnclaimedOutcome && (
+          <div className="mt-4 rounded-lg border border-amber-700/60 bg-amber-950/30 p-3">
+            <p className="text-xs uppercase tracking-wider text-amber-300">
+              Unclaimed Prize
+            </p>
+            <p className="mt-1 text-sm text-slate-100">
+              {describeUnclaimedOutcome(latestUnclaimedOutcome, houseCutLabel)}
+            </p>
+            {redistributionAwards.length > 0 && redistributionAwards.length <= 12 && (
+              <ul className="mt-2 space-y-1">
+                {redistributionAwards.map((award) => (
+                  <li
+                    key={`${award.row}-${award.col}`}
+                    className="flex justify-between gap-3 text-[11px] text-slate-300"
+                  >
+                    <span>
+                      Square #{award.row * 10 + award.col + 1}: {award.playerName}
+                    </span>
+                    <span className="text-emerald-300">
+                      {formatPayoutAmount(award.amount)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {redistributionAwards.length > 12 && (
+              <p className="mt-1 text-[11px] text-slate-400">
+                Each claimed square receives{" "}
+                {formatPayoutAmount(redistributionAwards[0].amount)}.
+              </p>
+            )}
+            {latestUnclaimedOutcome.houseAmount > 0 &&
+              latestUnclaimedOutcome.rule !== "house" && (
+                <p className="mt-1 text-[11px] text-slate-500">
+                  {formatPayoutAmount(latestUnclaimedOutcome.houseAmount)} left over after
+                  splitting returns to the {houseCutLabel.toLowerCase()}.
+                </p>
+              )}
+          </div>
+        )}
+
         <div className="mt-5 grid grid-cols-1 gap-3 sm:grid-cols-2">
           <div className="rounded-lg border border-slate-700 bg-slate-950/70 p-3">
             <p className="text-xs uppercase tracking-wider text-slate-500">
@@ -71,6 +179,87 @@ export const WinnerModal: React.FC<WinnerModalProps> = ({
           </div>
         </div>
 
+        {bonusAwards.length > 0 && (
+          <div className="mt-5 space-y-2">
+            <p className="text-xs uppercase tracking-wider text-slate-500">
+              Bonus Prizes
+            </p>
+            <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+              {bonusAwards.map((award) => (
+                <div
+                  key={`${award.kind}-${award.row}-${award.col}`}
+                  className={`rounded-lg border bg-slate-950/70 px-3 py-2 ${
+                    award.kind === "reverse" ? "border-sky-700/70" : "border-violet-700/70"
+                  }`}
+                >
+                  <p className="text-[11px] uppercase tracking-wider text-slate-500">
+                    {PAYOUT_AWARD_KIND_LABELS[award.kind]} • Square #
+                    {award.row * 10 + award.col + 1}
+                  </p>
+                  <p className="text-sm font-semibold text-slate-100">
+                    {award.playerName ?? "Unclaimed"}{" "}
+                    <span className="text-emerald-300">
+                      {formatPayoutAmount(award.amount)}
+                    </span>
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {results.length > 1 && (
+          <div className="mt-5 space-y-2">
+            <p className="text-xs uppercase tracking-wider text-slate-500">
+              All Period Winners
+            </p>
+            {results.map((entry) => {
+              const unclaimedOutcome = getUnclaimedOutcome(entry);
+              return (
+                <div
+                  key={entry.period}
+                  className="flex items-center justify-between gap-3 rounded-lg border border-slate-700 bg-slate-950/70 px-3 py-2"
+                >
+                  <div>
+                    <p className="text-sm font-semibold text-slate-100">
+                      {PAYOUT_PERIOD_LABELS[entry.period]}:{" "}
+                      {entry.winnerName ?? "Unclaimed"}
+                    </p>
+                    <p className="text-[11px] text-slate-400">
+                      {homeTeam} {entry.homeScore} - {awayTeam} {entry.awayScore} •
+                      Square #{entry.winnerSquareNumber}
+                    </p>
+                    {unclaimedOutcome && (
+                      <p className="text-[11px] text-amber-300">
+                        {describeUnclaimedOutcome(unclaimedOutcome, houseCutLabel)}
+                      </p>
+                    )}
+                  </div>
+                  <span className="text-sm font-bold text-emerald-300">
+                    {formatPayoutAmount(getAmountWon(entry))}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {results.length === 1 && (
+          <p className="mt-4 text-sm text-slate-300">
+            Amount won this period:{" "}
+            <span className="font-semibold text-emerald-300">
+              {formatPayoutAmount(getAmountWon(result))}
+            </span>
+          </p>
+        )}
+
+        {houseTotal > 0 && (
+          <p className="mt-2 text-[11px] text-slate-500">
+            {houseCutLabel} share of the {formatPayoutAmount(breakdown.grossPot)} pot:{" "}
+            {formatPayoutAmount(houseTotal)}.
+          </p>
+        )}
+
         <div className="mt-6 flex justify-end">
           <button
             type="button"
@@ -0,0 +1,405 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type {
+  BoardOp,
+  LiveFeedProvider,
+  LiveFeedUpdate,
+  LiveGameSnapshot,
+  LiveGameStatus,
+  PendingFinalScore,
+  PersistedState,
+  SquareOddsComputationResult,
+} from "./types";
+import type { MockFeedLoader } from "./services/mockLiveFeedProvider";
+import type { FinalScoreCheck } from "./services/autoFinalizeService";
+import { createLiveFeedProvider } from "./services/liveFeedProviders";
+import { fetchMockFeed } from "./services/mockLiveFeedProvider";
+import { buildSquareOdds } from "./services/squareOddsService";
+import { buildRealtimeSquareOdds } from "./services/realtimeSquareOddsService";
+import {
+  capturePeriodScores,
+  mergePeriodScores,
+} from "./services/periodScoreCaptureService";
+import {
+  AUTO_FINALIZE_DELAY_MS,
+  isFinalScoreConfirmed,
+  trackFinalSnapshot,
+} from "./services/autoFinalizeService";
+import { resolvePeriodResult, upsertPeriodResult } from "./services/payoutService";
+
+export type LiveFeedPollerOptions = {
+  /** The board as last saved, or null when it doesn't exist. */
+  readBoard: (boardId: string) => Promise<PersistedState | null>;
+  /**
+   * Saves the ops `buildOps` returns for the board as it is stored right now,
+   * unless there are none. Used for scores taken from the feed.
+   */
+  updateBoard: (
+    boardId: string,
+    buildOps: (state: PersistedState) => BoardOp[],
+  ) => Promise<void>;
+  /** Where mock feed URLs starting with `/` are read from. */
+  publicDir: string;
+};
+
+export type LiveFeedPoller = {
+  /**
+   * Sends the latest update right away if there is one, then every new one.
+   * A board is polled only while something is subscribed to it.
+   */
+  subscribe: (boardId: string, listener: LiveFeedListener) => () => void;
+  /** Polls again now if the board's lock, result, numbers or matchup changed. */
+  refresh: (boardId: string) => void;
+  close: () => void;
+};
+
+type LiveFeedListener = (update: LiveFeedUpdate) => void;
+
+type BoardPoll = {
+  listeners: Set<LiveFeedListener>;
+  latest: LiveFeedUpdate | null;
+  timer: ReturnType<typeof setTimeout> | null;
+  inFlight: boolean;
+  refreshRequested: boolean;
+  failureCount: number;
+  /** What the last poll was based on; a refresh only polls again when it changes. */
+  inputsKey: string | null;
+  provider: LiveFeedProvider | null;
+  providerKey: string | null;
+  /** Rebuilt only when the numbers or matchup change. */
+  squareOdds: SquareOddsComputationResult | null;
+  squareOddsKey: string | null;
+  /** The last snapshot, to find the period boundaries the next one crossed. */
+  previousSnapshot: LiveGameSnapshot | null;
+  finalScoreCheck: FinalScoreCheck | null;
+  pendingFinalScore: PendingFinalScore | null;
+  /** Kept running after the last viewer leaves, so the score is still recorded. */
+  finalScoreTimer: ReturnType<typeof setTimeout> | null;
+};
+
+/** How often an unlocked or scored board is checked, in case a change was missed. */
+const IDLE_CHECK_MS = 30_000;
+const NO_GAME_RETRY_MS = 45_000;
+const REALTIME_STATUSES = new Set<LiveGameStatus>(["in_progress", "halftime", "final"]);
+const IDLE_UPDATE: LiveFeedUpdate = {
+  isActive: false,
+  snapshot: null,
+  squareOdds: null,
+  realtimeOdds: null,
+  pendingFinalScore: null,
+  error: null,
+};
+
+/** Polling runs for locked boards without a final score, like the odds panel. */
+const isPollingBoard = (state: PersistedState | null): state is PersistedState =>
+  Boolean(
+    state?.gameSettings &&
+      state.isLocked &&
+      !(state.periodResults ?? []).some((result) => result.period === "final"),
+  );
+
+/** Mock feeds replay canned files, so they never write scores to the real board. */
+const isMockFeed = (state: PersistedState) => state.gameSettings.liveFeedProvider === "mock";
+
+const getInputsKey = (state: PersistedState | null): string =>
+  isPollingBoard(state)
+    ? JSON.stringify([state.gameSettings, state.rowLabels, state.colLabels])
+    : "idle";
+
+const createMockFeedLoader = (publicDir: string): MockFeedLoader => {
+  const root = path.resolve(publicDir);
+  return async (url) => {
+    if (!url.startsWith("/")) return fetchMockFeed(url);
+    const pathname = decodeURIComponent(new URL(url, "http://localhost").pathname);
+    const filePath = path.resolve(root, `.${pathname}`);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Mock live feed ${url} is outside the public folder.`);
+    }
+    return JSON.parse(await fs.readFile(filePath, "utf8")) as unknown;
+  };
+};
+
+/**
+ * One live feed poller per board, shared by every viewer. Each poll fetches
+ * the snapshot and runs the realtime odds model once, and all subscribers
+ * get the same result instead of each browser polling and simulating alone.
+ * The score at each period boundary the feed crosses is saved with the board,
+ * and in "auto" mode so is a confirmed final score once its countdown ends.
+ */
+export const createLiveFeedPoller = (options: LiveFeedPollerOptions): LiveFeedPoller => {
+  const boards = new Map<string, BoardPoll>();
+  const loadMockFeed = createMockFeedLoader(options.publicDir);
+
+  const publish = (board: BoardPoll, update: LiveFeedUpdate) => {
+    board.latest = update;
+    board.listeners.forEach((listener) => listener(update));
+  };
+
+  const getProvider = (board: BoardPoll, state: PersistedState): LiveFeedProvider => {
+    const { liveFeedProvider, mockFeedUrl } = state.gameSettings;
+    const key = JSON.stringify([liveFeedProvider, mockFeedUrl]);
+    // Kept while the settings stay the same, so a mock feed keeps its place.
+    if (!board.provider || board.providerKey !== key) {
+      board.provider = createLiveFeedProvider(
+        { liveFeedProvider, mockFeedUrl: mockFeedUrl ?? null },
+        { loadMockFeed },
+      );
+      board.providerKey = key;
+    }
+    return board.provider;
+  };
+
+  const getSquareOdds = async (
+    board: BoardPoll,
+    state: PersistedState,
+  ): Promise<SquareOddsComputationResult> => {
+    const { homeTeamName, awayTeamName, rowTeam } = state.gameSettings;
+    const { rowLabels, colLabels } = state;
+    const key = JSON.stringify([homeTeamName, awayTeamName, rowTeam, rowLabels, colLabels]);
+    if (!board.squareOdds || board.squareOddsKey !== key) {
+      board.squareOdds = await buildSquareOdds({
+        homeTeamName,
+        awayTeamName,
+        rowLabels,
+        colLabels,
+        rowTeam,
+      });
+      board.squareOddsKey = key;
+    }
+    return board.squareOdds;
+  };
+
+  const savePeriodScores = async (
+    boardId: string,
+    board: BoardPoll,
+    state: PersistedState,
+    snapshot: LiveGameSnapshot | null,
+  ) => {
+    const previous = board.previousSnapshot;
+    board.previousSnapshot = snapshot;
+    if (!snapshot || isMockFeed(state)) return;
+    const captures = capturePeriodScores(previous, snapshot, state.gameSettings.homeTeamName);
+    if (captures.length === 0) return;
+    try {
+      await options.updateBoard(boardId, (current) => {
+        const periodScores = mergePeriodScores(current.periodScores, captures);
+        return periodScores === current.periodScores
+          ? []
+          : [{ type: "set_fields", fields: { periodScores } }];
+      });
+    } catch (error) {
+      console.warn("Could not save the period scores from the live feed.", error);
+    }
+  };
+
+  const cancelFinalScore = (board: BoardPoll) => {
+    if (board.finalScoreTimer) clearTimeout(board.finalScoreTimer);
+    board.finalScoreTimer = null;
+    board.pendingFinalScore = null;
+  };
+
+  const recordFinalScore = async (
+    boardId: string,
+    board: BoardPoll,
+    pending: PendingFinalScore,
+  ) => {
+    board.finalScoreTimer = null;
+    board.pendingFinalScore = null;
+    try {
+      // Checked again on the stored board: an admin may have cancelled or recorded it by now.
+      await options.updateBoard(boardId, (current): BoardOp[] => {
+        if (
+          !current.isLocked ||
+          current.gameSettings.autoFinalize !== "auto" ||
+          isMockFeed(current) ||
+          current.periodResults.some((result) => result.period === "final")
+        ) {
+          return [];
+        }
+        const result = resolvePeriodResult({
+          period: "final",
+          homeScore: pending.homeScore,
+          awayScore: pending.awayScore,
+          rowLabels: current.rowLabels,
+          colLabels: current.colLabels,
+          grid: current.grid,
+          rules: current.payoutRules,
+          rowTeam: current.gameSettings.rowTeam,
+        });
+        if (!result) return [];
+        return [
+          { type: "finalize", periodResults: upsertPeriodResult(current.periodResults, result) },
+        ];
+      });
+    } catch (error) {
+      console.warn("Could not record the final score from the live feed.", error);
+    }
+    if (board.latest) publish(board, { ...board.latest, pendingFinalScore: null });
+  };
+
+  /** In "auto" mode, starts the countdown once two final snapshots agree on the score. */
+  const trackFinalScore = (
+    boardId: string,
+    board: BoardPoll,
+    state: PersistedState,
+    snapshot: LiveGameSnapshot | null,
+  ) => {
+    const check = trackFinalSnapshot(
+      board.finalScoreCheck,
+      snapshot,
+      state.gameSettings.homeTeamName,
+    );
+    board.finalScoreCheck = check;
+    if (
+      state.gameSettings.autoFinalize !== "auto" ||
+      isMockFeed(state) ||
+      !isFinalScoreConfirmed(check)
+    ) {
+      cancelFinalScore(board);
+      return;
+    }
+    if (board.pendingFinalScore?.key === check.key) return;
+
+    cancelFinalScore(board);
+    const pending: PendingFinalScore = {
+      key: check.key,
+      homeScore: check.homeScore,
+      awayScore: check.awayScore,
+      recordAt: new Date(Date.now() + AUTO_FINALIZE_DELAY_MS).toISOString(),
+    };
+    board.pendingFinalScore = pending;
+    board.finalScoreTimer = setTimeout(
+      () => void recordFinalScore(boardId, board, pending),
+      AUTO_FINALIZE_DELAY_MS,
+    );
+  };
+
+  const poll = async (boardId: string, board: BoardPoll) => {
+    if (board.timer) clearTimeout(board.timer);
+    board.timer = null;
+    board.inFlight = true;
+    board.refreshRequested = false;
+    let delay = IDLE_CHECK_MS;
+
+    try {
+      const state = await options.readBoard(boardId);
+      board.inputsKey = getInputsKey(state);
+      if (!isPollingBoard(state)) {
+        board.finalScoreCheck = null;
+        cancelFinalScore(board);
+        if (board.latest?.isActive !== false) publish(board, IDLE_UPDATE);
+        return;
+      }
+
+      const { homeTeamName, awayTeamName, gameDate, eventId, rowTeam } = state.gameSettings;
+      const squareOdds = await getSquareOdds(board, state);
+      const provider = getProvider(board, state);
+      const snapshot = await provider.fetchSnapshot({
+        homeTeamName,
+        awayTeamName,
+        gameDate,
+        eventId: eventId ?? undefined,
+      });
+
+      const realtimeOdds =
+        snapshot && REALTIME_STATUSES.has(snapshot.status)
+          ? buildRealtimeSquareOdds({
+              baseModel: squareOdds,
+              snapshot,
+              rowLabels: state.rowLabels,
+              colLabels: state.colLabels,
+              rowTeam,
+            })
+          : null;
+
+      board.failureCount = 0;
+      trackFinalScore(boardId, board, state, snapshot);
+      publish(board, {
+        isActive: true,
+        snapshot,
+        squareOdds,
+        realtimeOdds,
+        pendingFinalScore: board.pendingFinalScore,
+        error: null,
+      });
+      await savePeriodScores(boardId, board, state, snapshot);
+      delay = snapshot ? provider.getPollIntervalMs(snapshot) : NO_GAME_RETRY_MS;
+    } catch (error) {
+      board.failureCount += 1;
+      publish(board, {
+        ...(board.latest ?? IDLE_UPDATE),
+        isActive: true,
+        error: error instanceof Error ? error.message : "Could not fetch live in-game updates.",
+      });
+      delay = Math.min(60_000, 12_000 + board.failureCount * 8_000);
+    } finally {
+      board.inFlight = false;
+      if (board.listeners.size > 0) {
+        board.timer = setTimeout(
+          () => void poll(boardId, board),
+          board.refreshRequested ? 0 : delay,
+        );
+      }
+    }
+  };
+
+  return {
+    subscribe: (boardId, listener) => {
+      let board = boards.get(boardId);
+      if (!board) {
+        board = {
+          listeners: new Set(),
+          latest: null,
+          timer: null,
+          inFlight: false,
+          refreshRequested: false,
+          failureCount: 0,
+          inputsKey: null,
+          provider: null,
+          providerKey: null,
+          squareOdds: null,
+          squareOddsKey: null,
+          previousSnapshot: null,
+          finalScoreCheck: null,
+          pendingFinalScore: null,
+          finalScoreTimer: null,
+        };
+        boards.set(boardId, board);
+      }
+      const current = board;
+      current.listeners.add(listener);
+      if (current.latest) listener(current.latest);
+      if (current.listeners.size === 1 && !current.inFlight) void poll(boardId, current);
+
+      return () => {
+        current.listeners.delete(listener);
+        if (current.listeners.size > 0) return;
+        if (current.timer) clearTimeout(current.timer);
+        boards.delete(boardId);
+      };
+    },
+    refresh: (boardId) => {
+      const board = boards.get(boardId);
+      if (!board) return;
+      void options
+        .readBoard(boardId)
+        .then((state) => {
+          if (boards.get(boardId) !== board || getInputsKey(state) === board.inputsKey) return;
+          if (board.inFlight) {
+            board.refreshRequested = true;
+            return;
+          }
+          void poll(boardId, board);
+        })
+        .catch((error) => console.warn("Could not refresh the live feed.", error));
+    },
+    close: () => {
+      boards.forEach((board) => {
+        if (board.timer) clearTimeout(board.timer);
+        cancelFinalScore(board);
+        board.listeners.clear();
+      });
+      boards.clear();
+    },
+  };
+};
@@ -0,0 +1,119 @@
+import fs from "node:fs";
+import http from "node:http";
+import path from "node:path";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { createSqliteBoardApi } from "./sqliteBoardApi";
+
+const PORT = Number(process.env.PORT) || 3000;
+const HOST = process.env.HOST || "0.0.0.0";
+const DIST_DIR = path.resolve(process.env.DIST_DIR || "dist");
+const DATA_DIR = path.resolve(process.env.DATA_DIR || ".data");
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".json": "application/json",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".ico": "image/x-icon",
+  ".webp": "image/webp",
+  ".woff2": "font/woff2",
+  ".txt": "text/plain; charset=utf-8",
+};
+
+const sendFile = (req: IncomingMessage, res: ServerResponse, filePath: string) => {
+  const isHashedAsset = filePath.startsWith(path.join(DIST_DIR, "assets") + path.sep);
+  res.writeHead(200, {
+    "Content-Type": CONTENT_TYPES[path.extname(filePath)] ?? "application/octet-stream",
+    // Vite fingerprints everything under assets/; index.html must always be revalidated.
+    "Cache-Control": isHashedAsset ? "public, max-age=31536000, immutable" : "no-cache",
+  });
+  if (req.method === "HEAD") {
+    res.end();
+    return;
+  }
+  fs.createReadStream(filePath).pipe(res);
+};
+
+/** Built files from `dist`, with client-side routes such as `/b/:boardId` falling back to index.html. */
+const serveStatic = (req: IncomingMessage, res: ServerResponse) => {
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    res.writeHead(405, { Allow: "GET, HEAD" });
+    res.end();
+    return;
+  }
+
+  let pathname: string;
+  try {
+    pathname = decodeURIComponent(new URL(req.url ?? "/", "http://localhost").pathname);
+  } catch {
+    res.writeHead(400);
+    res.end();
+    return;
+  }
+
+  const filePath = path.join(DIST_DIR, pathname);
+  const isInsideDist = filePath.startsWith(DIST_DIR + path.sep);
+  if (isInsideDist && fs.statSync(filePath, { throwIfNoEntry: false })?.isFile()) {
+    sendFile(req, res, filePath);
+    return;
+  }
+  if (path.extname(pathname)) {
+    res.writeHead(404, { "Content-Type": "text/plain; charset=utf-8" });
+    res.end("Not found");
+    return;
+  }
+  sendFile(req, res, path.join(DIST_DIR, "index.html"));
+};
+
+const start = async () => {
+  if (!fs.existsSync(path.join(DIST_DIR, "index.html"))) {
+    console.error(`No build found in ${DIST_DIR}. Run \`npm run build:selfhost\` first.`);
+    process.exit(1);
+  }
+  if (!process.env.ADMIN_PASSCODE) {
+    console.warn("ADMIN_PASSCODE is not set, so nobody can log in as admin.");
+  }
+
+  const api = createSqliteBoardApi({
+    adminPasscode: process.env.ADMIN_PASSCODE,
+    dataDir: DATA_DIR,
+    publicDir: DIST_DIR,
+  });
+  if (!(await api.isAvailable())) {
+    console.error("Could not open the SQLite database. Is better-sqlite3 installed?");
+    process.exit(1);
+  }
+
+  const server = http.createServer((req, res) => {
+    // A rejection escaping here would end the process for every board.
+    api.handle(req, res, () => serveStatic(req, res)).catch((error) => {
+      console.error("Request failed.", error);
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      res.writeHead(500, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Internal server error" }));
+    });
+  });
+
+  const shutdown = () => {
+    // Open change streams would otherwise keep the server alive.
+    server.closeAllConnections();
+    server.close(() => {
+      api.close().finally(() => process.exit(0));
+    });
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+
+  server.listen(PORT, HOST, () => {
+    console.log(`Squares board serving ${DIST_DIR} on http://${HOST}:${PORT}`);
+    console.log(`Board data: ${path.join(DATA_DIR, "board-state.sqlite")}`);
+  });
+};
+
+void start();
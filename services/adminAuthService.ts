@@ -0,0 +1,140 @@
+import { isSupabaseConfigured, supabase } from "../supabaseClient";
+import type { AdminAuthMode, AdminSession } from "../types";
+import { SHOULD_USE_LOCAL_SQLITE, SQLITE_AUTH_API } from "./backendConfig";
+
+type AdminCredentials = {
+  email?: string;
+  passcode: string;
+};
+
+const SESSION_STORAGE_KEY = "sb-lx-admin-session-v1";
+
+export const ADMIN_AUTH_MODE: AdminAuthMode = SHOULD_USE_LOCAL_SQLITE
+  ? "server"
+  : isSupabaseConfigured
+    ? "supabase"
+    : "local";
+
+const isSessionExpired = (session: AdminSession): boolean =>
+  session.expiresAt !== null && new Date(session.expiresAt).getTime() <= Date.now();
+
+const readStoredSession = (): AdminSession | null => {
+  if (typeof window === "undefined") return null;
+  try {
+    const raw = window.sessionStorage.getItem(SESSION_STORAGE_KEY);
+    if (!raw) return null;
+    const session = JSON.parse(raw) as AdminSession;
+    return session.mode === ADMIN_AUTH_MODE && !isSessionExpired(session)
+      ? session
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeStoredSession = (session: AdminSession | null) => {
+  if (typeof window === "undefined") return;
+  if (session) {
+    window.sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  } else {
+    window.sessionStorage.removeItem(SESSION_STORAGE_KEY);
+  }
+};
+
+export const getAdminAuthHeaders = (): Record<string, string> => {
+  const session = readStoredSession();
+  return session?.token ? { Authorization: `Bearer ${session.token}` } : {};
+};
+
+export const clearAdminSession = () => {
+  writeStoredSession(null);
+};
+
+export const loginAdmin = async (
+  credentials: AdminCredentials,
+): Promise<AdminSession> => {
+  let session: AdminSession;
+
+  if (ADMIN_AUTH_MODE === "server") {
+    const response = await fetch(`${SQLITE_AUTH_API}/login`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ passcode: credentials.passcode }),
+    });
+    const body = (await response.json().catch(() => ({}))) as {
+      token?: string;
+      expiresAt?: string;
+      error?: string;
+    };
+    if (!response.ok || !body.token) {
+      throw new Error(body.error ?? `Login failed with ${response.status}`);
+    }
+    session = { mode: "server", token: body.token, expiresAt: body.expiresAt ?? null };
+  } else if (ADMIN_AUTH_MODE === "supabase" && supabase) {
+    const { data, error } = await supabase.auth.signInWithPassword({
+      email: credentials.email?.trim() ?? "",
+      password: credentials.passcode,
+    });
+    if (error || !data.session) {
+      throw new Error(error?.message ?? "Supabase did not return a session.");
+    }
+    // supabase-js refreshes its own token, so there is no fixed expiry to track.
+    session = { mode: "supabase", token: null, expiresAt: null };
+  } else {
+    // Without a shared backend the board only lives in this browser.
+    session = { mode: "local", token: null, expiresAt: null };
+  }
+
+  writeStoredSession(session);
+  return session;
+};
+
+export const logoutAdmin = async (): Promise<void> => {
+  const session = readStoredSession();
+  writeStoredSession(null);
+
+  try {
+    if (session?.mode === "server" && session.token) {
+      await fetch(`${SQLITE_AUTH_API}/logout`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${session.token}` },
+      });
+    } else if (session?.mode === "supabase" && supabase) {
+      await supabase.auth.signOut();
+    }
+  } catch (error) {
+    console.warn("Failed to end admin session.", error);
+  }
+};
+
+export const restoreAdminSession = async (): Promise<AdminSession | null> => {
+  const stored = readStoredSession();
+
+  if (ADMIN_AUTH_MODE === "server") {
+    if (!stored?.token) return null;
+    try {
+      const response = await fetch(`${SQLITE_AUTH_API}/session`, {
+        headers: { Authorization: `Bearer ${stored.token}` },
+      });
+      if (response.ok) return stored;
+    } catch (error) {
+      console.warn("Failed to verify admin session.", error);
+      return stored;
+    }
+    writeStoredSession(null);
+    return null;
+  }
+
+  if (ADMIN_AUTH_MODE === "supabase" && supabase) {
+    const { data } = await supabase.auth.getSession();
+    if (!data.session) {
+      writeStoredSession(null);
+      return null;
+    }
+    const session: AdminSession = { mode: "supabase", token: null, expiresAt: null };
+    writeStoredSession(session);
+    return session;
+  }
+
+  return stored;
+};
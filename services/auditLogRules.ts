@@ -0,0 +1,257 @@
+import type {
+  AuditAction,
+  AuditChange,
+  BoardOp,
+  BoardOpFields,
+  GameResult,
+  GridCell,
+  PayoutRules,
+  PersistedState,
+  PlayerPayment,
+} from "../types";
+import { applyBoardOp } from "./boardOpsReducer";
+import { BOARD_MERGE_FIELD_LABELS } from "./boardMergeService";
+import { PAYMENT_METHOD_LABELS } from "./paymentLedgerService";
+import {
+  PAYOUT_PERIODS,
+  PAYOUT_PERIOD_LABELS,
+  formatPayoutAmount,
+} from "./payoutService";
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  assign_square: "Assigned square",
+  delete_square: "Cleared square",
+  request_square: "Requested square",
+  approve_square: "Approved square",
+  shuffle: "Numbers",
+  lock: "Locked board",
+  unlock: "Unlocked board",
+  finalize: "Scores",
+  update_settings: "Settings",
+  record_payment: "Payment",
+  replace_board: "Replaced board",
+  reset_board: "Reset board",
+  undo: "Undo",
+  redo: "Redo",
+  restore: "Restored revision",
+};
+
+/** Always logged, even when the board summary reads the same before and after. */
+const WHOLE_BOARD_ACTIONS = new Set<AuditAction>([
+  "replace_board",
+  "reset_board",
+  "undo",
+  "redo",
+  "restore",
+]);
+
+const getSquareTarget = (row: number, col: number): string => `Square #${row * 10 + col + 1}`;
+
+const describeCell = (cell: GridCell | undefined): string => {
+  if (!cell?.player) return "";
+  return cell.status === "pending" ? `${cell.player} (pending)` : cell.player;
+};
+
+const describeNumbers = (
+  rowLabels: number[],
+  colLabels: number[],
+  fairDraw: PersistedState["fairDraw"],
+): string => {
+  const labels = `Rows ${rowLabels.join("")} / Cols ${colLabels.join("")}`;
+  if (!fairDraw) return labels;
+  return fairDraw.seed
+    ? `${labels}; seed ${fairDraw.seed.slice(0, 12)}…`
+    : `${labels}; committed ${fairDraw.commitment.slice(0, 12)}…`;
+};
+
+const describeResults = (
+  results: Pick<GameResult, "period" | "homeScore" | "awayScore">[],
+): string =>
+  results
+    .map(
+      (result) =>
+        `${PAYOUT_PERIOD_LABELS[result.period]} ${result.homeScore}-${result.awayScore}`,
+    )
+    .join(", ");
+
+const describePayment = (payment: PlayerPayment | undefined): string => {
+  if (!payment) return "";
+  const method = payment.method ? ` via ${PAYMENT_METHOD_LABELS[payment.method]}` : "";
+  const notes = payment.notes ? ` (${payment.notes})` : "";
+  return `${formatPayoutAmount(payment.amountPaid)} paid${method}${notes}`;
+};
+
+const describePayoutRules = (rules: PayoutRules): string =>
+  [
+    ...PAYOUT_PERIODS.map(
+      (period) => `${PAYOUT_PERIOD_LABELS[period]} ${rules.periodPercentages?.[period] ?? 0}%`,
+    ),
+    `${rules.houseCutLabel || "House"} ${rules.houseCutPercent}%`,
+  ].join(", ");
+
+// Boards saved by older versions, or restored from them, can be missing any field.
+const describeField = (state: PersistedState, field: keyof BoardOpFields): string => {
+  switch (field) {
+    case "pricePerSquare":
+      return typeof state.pricePerSquare === "number"
+        ? formatPayoutAmount(state.pricePerSquare)
+        : "";
+    case "claimHoldMinutes":
+      if (typeof state.claimHoldMinutes !== "number") return "";
+      return state.claimHoldMinutes === 0 ? "Until reviewed" : `${state.claimHoldMinutes} min`;
+    case "gameSettings": {
+      if (!state.gameSettings) return "";
+      const { awayTeamName, homeTeamName, gameDate } = state.gameSettings;
+      return `${awayTeamName} @ ${homeTeamName}, ${gameDate}`;
+    }
+    case "payoutRules":
+      return state.payoutRules ? describePayoutRules(state.payoutRules) : "";
+    case "payments":
+      return `${state.payments?.length ?? 0} players`;
+    case "periodScores":
+      return describeResults(state.periodScores ?? []);
+  }
+};
+
+const describeBoard = (state: PersistedState | null): string => {
+  if (!state) return "";
+  const cells = Array.isArray(state.grid) ? state.grid.flat() : [];
+  const taken = cells.filter((cell) => cell?.player).length;
+  return `${taken} squares taken, ${state.isLocked ? "locked" : "open"}, ${
+    state.periodResults?.length ?? 0
+  } scores`;
+};
+
+const describePaymentChanges = (
+  before: PlayerPayment[] = [],
+  after: PlayerPayment[] = [],
+): AuditChange[] => {
+  const previous = new Map(before.map((payment) => [payment.playerKey, payment]));
+  const changes: AuditChange[] = [];
+  after.forEach((payment) => {
+    changes.push({
+      action: "record_payment",
+      target: payment.playerName,
+      before: describePayment(previous.get(payment.playerKey)),
+      after: describePayment(payment),
+    });
+    previous.delete(payment.playerKey);
+  });
+  previous.forEach((payment) => {
+    changes.push({
+      action: "record_payment",
+      target: payment.playerName,
+      before: describePayment(payment),
+      after: "",
+    });
+  });
+  return changes;
+};
+
+const describeOp = (state: PersistedState | null, op: BoardOp): AuditChange[] => {
+  switch (op.type) {
+    case "assign_square":
+    case "request_square":
+    case "approve_square":
+    case "clear_square": {
+      const cell = state?.grid[op.row]?.[op.col];
+      const target = getSquareTarget(op.row, op.col);
+      const before = describeCell(cell);
+      if (op.type === "assign_square") {
+        return [{ action: "assign_square", target, before, after: op.player }];
+      }
+      if (op.type === "request_square") {
+        return [{ action: "request_square", target, before, after: `${op.player} (pending)` }];
+      }
+      if (op.type === "approve_square") {
+        return [{ action: "approve_square", target, before, after: cell?.player ?? "" }];
+      }
+      return [{ action: "delete_square", target, before, after: "" }];
+    }
+    case "shuffle":
+      return [
+        {
+          action: "shuffle",
+          target: "Numbers",
+          before: state ? describeNumbers(state.rowLabels, state.colLabels, state.fairDraw) : "",
+          after: describeNumbers(op.rowLabels, op.colLabels, op.fairDraw),
+        },
+      ];
+    case "lock":
+      return [
+        {
+          action: op.isLocked ? "lock" : "unlock",
+          target: "Board",
+          before: state?.isLocked ? "Locked" : "Open",
+          after: op.isLocked ? "Locked" : "Open",
+        },
+      ];
+    case "finalize":
+      return [
+        {
+          action: "finalize",
+          target: "Scores",
+          before: state ? describeResults(state.periodResults ?? []) : "",
+          after: describeResults(op.periodResults),
+        },
+      ];
+    case "set_fields": {
+      if (!state) return [];
+      const next = applyBoardOp(state, op);
+      return (Object.keys(op.fields) as (keyof BoardOpFields)[]).flatMap((field) =>
+        field === "payments"
+          ? describePaymentChanges(state.payments, next.payments)
+          : [
+              {
+                action: "update_settings" as const,
+                target: BOARD_MERGE_FIELD_LABELS[field],
+                before: describeField(state, field),
+                after: describeField(next, field),
+              },
+            ],
+      );
+    }
+    case "replace_state":
+    case "reset_board":
+      return [
+        {
+          action: op.type === "reset_board" ? "reset_board" : "replace_board",
+          target: "Board",
+          before: describeBoard(state),
+          after: describeBoard(op.state),
+        },
+      ];
+    case "restore":
+      return [
+        {
+          action: op.action,
+          target: `Revision #${op.revision}`,
+          before: describeBoard(state),
+          after: describeBoard(op.state),
+        },
+      ];
+  }
+};
+
+/**
+ * Turns a batch of ops into audit log changes, each with the value before
+ * and after. Edits that left a value as it was are dropped.
+ */
+export const buildAuditChanges = (
+  before: PersistedState | null,
+  ops: BoardOp[],
+): AuditChange[] => {
+  const changes: AuditChange[] = [];
+  let state = before;
+  ops.forEach((op) => {
+    changes.push(...describeOp(state, op));
+    if (state) {
+      state = applyBoardOp(state, op);
+    } else if ("state" in op) {
+      state = op.state;
+    }
+  });
+  return changes.filter(
+    (change) => change.before !== change.after || WHOLE_BOARD_ACTIONS.has(change.action),
+  );
+};
@@ -0,0 +1,72 @@
+import { isSupabaseConfigured, supabase } from "../supabaseClient";
+import type { AuditEntry } from "../types";
+import { SHOULD_USE_LOCAL_SQLITE, SQLITE_BOARD_STATE_API } from "./backendConfig";
+import { AUDIT_ACTION_LABELS } from "./auditLogRules";
+import { toCsvText } from "./paymentLedgerService";
+
+type SupabaseAuditRow = {
+  id: number;
+  revision: number;
+  actor: string;
+  action: AuditEntry["action"];
+  target: string;
+  before_value: string;
+  after_value: string;
+  created_at: string;
+};
+
+const CSV_HEADERS = ["Time", "Revision", "Actor", "Action", "Target", "Before", "After"];
+
+/** Every recorded change, oldest first. Readable by anyone who can see the board. */
+export const listAuditLog = async (boardId: string): Promise<AuditEntry[]> => {
+  if (SHOULD_USE_LOCAL_SQLITE) {
+    const response = await fetch(
+      `${SQLITE_BOARD_STATE_API}/${encodeURIComponent(boardId)}/audit`,
+    );
+    const body = (await response.json().catch(() => ({}))) as {
+      entries?: AuditEntry[];
+      error?: string;
+    };
+    if (!response.ok) {
+      throw new Error(body.error ?? `Audit log request failed with ${response.status}`);
+    }
+    return body.entries ?? [];
+  }
+
+  if (isSupabaseConfigured && supabase) {
+    const { data, error } = await supabase
+      .from("board_audit_log")
+      .select("id, revision, actor, action, target, before_value, after_value, created_at")
+      .eq("board_id", boardId)
+      .order("id", { ascending: true });
+    if (error) throw new Error(error.message);
+    return ((data ?? []) as SupabaseAuditRow[]).map((row) => ({
+      id: Number(row.id),
+      revision: Number(row.revision),
+      actor: row.actor,
+      action: row.action,
+      target: row.target,
+      before: row.before_value,
+      after: row.after_value,
+      createdAt: row.created_at,
+    }));
+  }
+
+  return [];
+};
+
+export const buildAuditLogCsv = (entries: AuditEntry[]): string =>
+  [
+    CSV_HEADERS.join(","),
+    ...entries.map((entry) =>
+      [
+        entry.createdAt,
+        String(entry.revision),
+        toCsvText(entry.actor),
+        toCsvText(AUDIT_ACTION_LABELS[entry.action] ?? entry.action),
+        toCsvText(entry.target),
+        toCsvText(entry.before),
+        toCsvText(entry.after),
+      ].join(","),
+    ),
+  ].join("\r\n");
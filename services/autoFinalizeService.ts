@@ -0,0 +1,48 @@
+import type { AutoFinalizeMode, LiveGameSnapshot } from "../types";
+import { getBoardOrderScores } from "./liveGameFeedService";
+
+export const AUTO_FINALIZE_LABELS: Record<AutoFinalizeMode, string> = {
+  off: "Off",
+  approve: "Ask me to approve",
+  auto: "Record after a countdown",
+};
+
+/** How long an admin has to cancel an automatic final score. */
+export const AUTO_FINALIZE_DELAY_MS = 60_000;
+
+/** Final snapshots in a row that must report the same score before it is proposed. */
+const REQUIRED_FINAL_SNAPSHOTS = 2;
+
+export type FinalScoreCheck = {
+  /** Event and score, so a stat correction starts a new check. */
+  key: string;
+  homeScore: number;
+  awayScore: number;
+  lastFetchedAt: string;
+  count: number;
+};
+
+/**
+ * Counts consecutive final snapshots that agree on the score, in the board's
+ * home/away order. Any other snapshot starts over, and the same snapshot seen
+ * twice (a re-render or a repeated stream event) only counts once.
+ */
+export const trackFinalSnapshot = (
+  check: FinalScoreCheck | null,
+  snapshot: LiveGameSnapshot | null,
+  boardHomeTeamName: string,
+): FinalScoreCheck | null => {
+  if (!snapshot || snapshot.status !== "final") return null;
+
+  const { homeScore, awayScore } = getBoardOrderScores(snapshot, boardHomeTeamName);
+  const key = `${snapshot.eventId}:${homeScore}-${awayScore}`;
+
+  if (check?.key !== key) {
+    return { key, homeScore, awayScore, lastFetchedAt: snapshot.fetchedAt, count: 1 };
+  }
+  if (check.lastFetchedAt === snapshot.fetchedAt) return check;
+  return { ...check, lastFetchedAt: snapshot.fetchedAt, count: check.count + 1 };
+};
+
+export const isFinalScoreConfirmed = (check: FinalScoreCheck | null): check is FinalScoreCheck =>
+  check !== null && check.count >= REQUIRED_FINAL_SNAPSHOTS;
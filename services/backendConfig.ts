@@ -0,0 +1,7 @@
+// `npm run build:selfhost` builds for `server.ts`, which serves the same API as the dev server.
+export const SHOULD_USE_LOCAL_SQLITE =
+  import.meta.env.MODE === "selfhost" ||
+  (import.meta.env.DEV && import.meta.env.VITE_USE_LOCAL_SQLITE !== "false");
+export const SQLITE_BOARD_STATE_API = "/api/board-state";
+export const SQLITE_BOARDS_API = "/api/boards";
+export const SQLITE_AUTH_API = "/api/auth";
@@ -0,0 +1,236 @@
+import { isSupabaseConfigured, supabase } from "../supabaseClient";
+import type { BoardRoute, BoardSummary } from "../types";
+import { SHOULD_USE_LOCAL_SQLITE, SQLITE_BOARDS_API } from "./backendConfig";
+import { getAdminAuthHeaders } from "./adminAuthService";
+
+type SupabaseBoardRow = {
+  id: string;
+  name: string;
+  archived: boolean;
+  created_at: string | null;
+};
+
+export const DEFAULT_BOARD_ID = import.meta.env.VITE_BOARD_ID || "default";
+export const BOARD_DIRECTORY_PATH = "/boards";
+
+const STORAGE_KEY = "sb-lx-squares-v1";
+const BOARD_INDEX_STORAGE_KEY = "sb-lx-boards-v1";
+const BOARD_PATH_PATTERN = /^\/b\/([^/]+)\/?$/;
+const DEFAULT_BOARD_NAME = "Main Board";
+
+export const parseBoardRoute = (pathname: string): BoardRoute => {
+  if (pathname.replace(/\/+$/, "") === BOARD_DIRECTORY_PATH) {
+    return { kind: "directory" };
+  }
+  const match = BOARD_PATH_PATTERN.exec(pathname);
+  if (match) {
+    try {
+      const boardId = decodeURIComponent(match[1]).trim();
+      if (boardId) return { kind: "board", boardId };
+    } catch {
+      // Malformed escapes fall through to the default board.
+    }
+  }
+  // `/` and unknown paths keep opening the deployment's default board.
+  return { kind: "board", boardId: DEFAULT_BOARD_ID };
+};
+
+export const getBoardPath = (boardId: string): string =>
+  `/b/${encodeURIComponent(boardId)}`;
+
+export const getBoardStorageKey = (boardId: string): string =>
+  `${STORAGE_KEY}:${boardId}`;
+
+/** Pre-directory builds stored the single board under the unscoped key. */
+export const getLegacyBoardStorageKey = (boardId: string): string | null =>
+  boardId === DEFAULT_BOARD_ID ? STORAGE_KEY : null;
+
+const createBoardId = (name: string): string => {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 32);
+  const suffix = Math.random().toString(36).slice(2, 6);
+  return slug ? `${slug}-${suffix}` : `board-${suffix}`;
+};
+
+const createDefaultBoardSummary = (): BoardSummary => ({
+  id: DEFAULT_BOARD_ID,
+  name: DEFAULT_BOARD_NAME,
+  archived: false,
+  createdAt: null,
+});
+
+const withDefaultBoard = (boards: BoardSummary[]): BoardSummary[] => {
+  const sorted = [...boards].sort((left, right) =>
+    (right.createdAt ?? "").localeCompare(left.createdAt ?? ""),
+  );
+  const defaultBoard =
+    sorted.find((board) => board.id === DEFAULT_BOARD_ID) ?? createDefaultBoardSummary();
+  return [defaultBoard, ...sorted.filter((board) => board.id !== DEFAULT_BOARD_ID)];
+};
+
+const fromSupabaseRow = (row: SupabaseBoardRow): BoardSummary => ({
+  id: row.id,
+  name: row.name,
+  archived: row.archived,
+  createdAt: row.created_at,
+});
+
+const readLocalBoardIndex = (): BoardSummary[] => {
+  try {
+    const raw = window.localStorage.getItem(BOARD_INDEX_STORAGE_KEY);
+    const parsed = raw ? (JSON.parse(raw) as unknown) : [];
+    return Array.isArray(parsed) ? (parsed as BoardSummary[]) : [];
+  } catch (error) {
+    console.warn("Failed to read board directory.", error);
+    return [];
+  }
+};
+
+const writeLocalBoardIndex = (boards: BoardSummary[]) => {
+  window.localStorage.setItem(BOARD_INDEX_STORAGE_KEY, JSON.stringify(boards));
+};
+
+const requestSqliteBoards = async <T>(
+  path: string,
+  init?: RequestInit,
+): Promise<T> => {
+  const response = await fetch(`${SQLITE_BOARDS_API}${path}`, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...getAdminAuthHeaders(),
+      ...init?.headers,
+    },
+  });
+  const body = (await response.json().catch(() => ({}))) as T & { error?: string };
+  if (!response.ok) {
+    throw new Error(body.error ?? `Board directory request failed with ${response.status}`);
+  }
+  return body;
+};
+
+export const listBoards = async (): Promise<BoardSummary[]> => {
+  if (SHOULD_USE_LOCAL_SQLITE) {
+    const { boards } = await requestSqliteBoards<{ boards: BoardSummary[] }>("");
+    return withDefaultBoard(boards);
+  }
+
+  if (isSupabaseConfigured && supabase) {
+    const { data, error } = await supabase
+      .from("boards")
+      .select("id, name, archived, created_at");
+    if (error) throw new Error(error.message);
+    return withDefaultBoard(((data ?? []) as SupabaseBoardRow[]).map(fromSupabaseRow));
+  }
+
+  return withDefaultBoard(readLocalBoardIndex());
+};
+
+export const getBoardSummary = async (boardId: string): Promise<BoardSummary | null> => {
+  const boards = await listBoards();
+  return boards.find((board) => board.id === boardId) ?? null;
+};
+
+export const createBoard = async (name: string): Promise<BoardSummary> => {
+  const trimmedName = name.trim();
+  if (!trimmedName) throw new Error("Board name is required.");
+
+  const board: BoardSummary = {
+    id: createBoardId(trimmedName),
+    name: trimmedName,
+    archived: false,
+    createdAt: new Date().toISOString(),
+  };
+
+  if (SHOULD_USE_LOCAL_SQLITE) {
+    const { board: created } = await requestSqliteBoards<{ board: BoardSummary }>("", {
+      method: "POST",
+      body: JSON.stringify({ board }),
+    });
+    return created;
+  }
+
+  if (isSupabaseConfigured && supabase) {
+    const { error } = await supabase.from("boards").insert({
+      id: board.id,
+      name: board.name,
+      archived: board.archived,
+      created_at: board.createdAt,
+    });
+    if (error) throw new Error(error.message);
+    return board;
+  }
+
+  writeLocalBoardIndex([...readLocalBoardIndex(), board]);
+  return board;
+};
+
+export const setBoardArchived = async (
+  boardId: string,
+  archived: boolean,
+): Promise<void> => {
+  if (boardId === DEFAULT_BOARD_ID) {
+    throw new Error("The default board cannot be archived.");
+  }
+
+  if (SHOULD_USE_LOCAL_SQLITE) {
+    await requestSqliteBoards(`/${encodeURIComponent(boardId)}`, {
+      method: "PATCH",
+      body: JSON.stringify({ archived }),
+    });
+    return;
+  }
+
+  if (isSupabaseConfigured && supabase) {
+    const { error } = await supabase
+      .from("boards")
+      .update({ archived })
+      .eq("id", boardId);
+    if (error) throw new Error(error.message);
+    return;
+  }
+
+  writeLocalBoardIndex(
+    readLocalBoardIndex().map((board) =>
+      board.id === boardId ? { ...board, archived } : board,
+    ),
+  );
+};
+
+export const deleteBoard = async (boardId: string): Promise<void> => {
+  if (boardId === DEFAULT_BOARD_ID) {
+    throw new Error("The default board cannot be deleted.");
+  }
+
+  if (SHOULD_USE_LOCAL_SQLITE) {
+    await requestSqliteBoards(`/${encodeURIComponent(boardId)}`, { method: "DELETE" });
+    return;
+  }
+
+  if (isSupabaseConfigured && supabase) {
+    const { error: stateError } = await supabase
+      .from("board_state")
+      .delete()
+      .eq("id", boardId);
+    if (stateError) throw new Error(stateError.message);
+    const { error: opsError } = await supabase
+      .from("board_ops")
+      .delete()
+      .eq("board_id", boardId);
+    if (opsError) throw new Error(opsError.message);
+    const { error: historyError } = await supabase
+      .from("board_state_history")
+      .delete()
+      .eq("board_id", boardId);
+    if (historyError) throw new Error(historyError.message);
+    const { error } = await supabase.from("boards").delete().eq("id", boardId);
+    if (error) throw new Error(error.message);
+    return;
+  }
+
+  writeLocalBoardIndex(readLocalBoardIndex().filter((board) => board.id !== boardId));
+  window.localStorage.removeItem(getBoardStorageKey(boardId));
+};
@@ -0,0 +1,117 @@
+import { isSupabaseConfigured, supabase } from "../supabaseClient";
+import type { BoardHistoryEntry } from "../types";
+import { SHOULD_USE_LOCAL_SQLITE, SQLITE_BOARD_STATE_API } from "./backendConfig";
+import { getAdminAuthHeaders } from "./adminAuthService";
+
+type SupabaseHistoryRow = {
+  revision: number;
+  author: string;
+  action: BoardHistoryEntry["action"];
+  restored_from: number | null;
+  created_at: string;
+};
+
+const HISTORY_LIST_LIMIT = 200;
+
+const requestSqliteHistory = async <T>(boardId: string, path: string): Promise<T> => {
+  const response = await fetch(
+    `${SQLITE_BOARD_STATE_API}/${encodeURIComponent(boardId)}/history${path}`,
+    { headers: getAdminAuthHeaders() },
+  );
+  const body = (await response.json().catch(() => ({}))) as T & { error?: string };
+  if (!response.ok) {
+    throw new Error(body.error ?? `History request failed with ${response.status}`);
+  }
+  return body;
+};
+
+const fromSupabaseRow = (row: SupabaseHistoryRow): BoardHistoryEntry => ({
+  revision: Number(row.revision),
+  author: row.author,
+  action: row.action,
+  restoredFrom: row.restored_from === null ? null : Number(row.restored_from),
+  createdAt: row.created_at,
+});
+
+/** The most recent revisions, oldest first. */
+export const listBoardHistory = async (boardId: string): Promise<BoardHistoryEntry[]> => {
+  if (SHOULD_USE_LOCAL_SQLITE) {
+    const { entries } = await requestSqliteHistory<{ entries: BoardHistoryEntry[] }>(
+      boardId,
+      "",
+    );
+    return entries;
+  }
+
+  if (isSupabaseConfigured && supabase) {
+    const { data, error } = await supabase
+      .from("board_state_history")
+      .select("revision, author, action, restored_from, created_at")
+      .eq("board_id", boardId)
+      .order("revision", { ascending: false })
+      .limit(HISTORY_LIST_LIMIT);
+    if (error) throw new Error(error.message);
+    return ((data ?? []) as SupabaseHistoryRow[]).map(fromSupabaseRow).reverse();
+  }
+
+  return [];
+};
+
+/** Raw stored state for one revision, or null when it is not in the history. */
+export const fetchBoardRevision = async (
+  boardId: string,
+  revision: number,
+): Promise<unknown | null> => {
+  if (SHOULD_USE_LOCAL_SQLITE) {
+    try {
+      const { data } = await requestSqliteHistory<{ data: unknown }>(
+        boardId,
+        `/${revision}`,
+      );
+      return data;
+    } catch {
+      return null;
+    }
+  }
+
+  if (isSupabaseConfigured && supabase) {
+    const { data, error } = await supabase
+      .from("board_state_history")
+      .select("data")
+      .eq("board_id", boardId)
+      .eq("revision", revision)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return (data as { data: unknown } | null)?.data ?? null;
+  }
+
+  return null;
+};
+
+const getEffectiveRevision = (entry: BoardHistoryEntry): number =>
+  entry.restoredFrom ?? entry.revision;
+
+/** Undo brings back the state just before the one currently showing. */
+export const getUndoTarget = (entries: BoardHistoryEntry[]): number | null => {
+  const head = entries[entries.length - 1];
+  if (!head) return null;
+  const target = getEffectiveRevision(head) - 1;
+  return entries.some((entry) => entry.revision === target) ? target : null;
+};
+
+/** Redo replays undos in reverse; any other change clears what can be redone. */
+export const getRedoTarget = (entries: BoardHistoryEntry[]): number | null => {
+  const undone: number[] = [];
+  let previous: BoardHistoryEntry | null = null;
+  entries.forEach((entry) => {
+    if (entry.action === "undo" && previous) {
+      undone.push(getEffectiveRevision(previous));
+    } else if (entry.action === "redo") {
+      undone.pop();
+    } else {
+      undone.length = 0;
+    }
+    previous = entry;
+  });
+  return undone[undone.length - 1] ?? null;
+};
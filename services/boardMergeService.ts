@@ -0,0 +1,108 @@
+import type {
+  BoardConflict,
+  BoardMergeField,
+  GridCell,
+  PersistedState,
+} from "../types";
+
+type BoardMergeResult = {
+  merged: PersistedState;
+  conflicts: BoardConflict[];
+};
+
+const MERGE_FIELDS: BoardMergeField[] = [
+  "pricePerSquare",
+  "isLocked",
+  "rowLabels",
+  "colLabels",
+  "periodResults",
+  "payoutRules",
+  "gameSettings",
+  "fairDraw",
+  "claimHoldMinutes",
+  "payments",
+  "periodScores",
+];
+
+export const BOARD_MERGE_FIELD_LABELS: Record<BoardMergeField, string> = {
+  pricePerSquare: "Cost per square",
+  isLocked: "Board lock",
+  rowLabels: "Row numbers",
+  colLabels: "Column numbers",
+  periodResults: "Recorded scores",
+  payoutRules: "Payout rules",
+  gameSettings: "Matchup",
+  fairDraw: "Number draw",
+  claimHoldMinutes: "Request hold time",
+  payments: "Payments ledger",
+  periodScores: "Captured period scores",
+};
+
+const isSame = (left: unknown, right: unknown): boolean =>
+  JSON.stringify(left) === JSON.stringify(right);
+
+const copyField = <K extends BoardMergeField>(
+  target: PersistedState,
+  source: PersistedState,
+  field: K,
+) => {
+  target[field] = source[field];
+};
+
+export const getConflictKey = (conflict: BoardConflict): string =>
+  conflict.kind === "cell" ? `cell:${conflict.row}:${conflict.col}` : `field:${conflict.field}`;
+
+/**
+ * Three-way merge of a rejected save onto the newer server state. `base` is
+ * the state the local edits started from. Items both sides changed
+ * differently are reported as conflicts and keep the server's value.
+ */
+export const mergeBoardStates = (
+  base: PersistedState,
+  local: PersistedState,
+  remote: PersistedState,
+): BoardMergeResult => {
+  const conflicts: BoardConflict[] = [];
+  const merged: PersistedState = { ...remote };
+
+  MERGE_FIELDS.forEach((field) => {
+    if (isSame(local[field], base[field]) || isSame(local[field], remote[field])) return;
+    if (isSame(remote[field], base[field])) {
+      copyField(merged, local, field);
+      return;
+    }
+    conflicts.push({ kind: "field", field });
+  });
+
+  merged.grid = remote.grid.map((row, rowIndex) =>
+    row.map((remoteCell, colIndex): GridCell => {
+      const baseCell = base.grid[rowIndex][colIndex];
+      const localCell = local.grid[rowIndex][colIndex];
+      if (isSame(localCell, baseCell) || isSame(localCell, remoteCell)) return remoteCell;
+      if (isSame(remoteCell, baseCell)) return localCell;
+      conflicts.push({ kind: "cell", row: rowIndex, col: colIndex });
+      return remoteCell;
+    }),
+  );
+
+  return { merged, conflicts };
+};
+
+/** Re-applies the local side of the conflicts the admin chose to keep. */
+export const applyConflictChoices = (
+  current: PersistedState,
+  local: PersistedState,
+  conflicts: BoardConflict[],
+  keepLocalKeys: Set<string>,
+): PersistedState => {
+  const next: PersistedState = { ...current, grid: current.grid.map((row) => [...row]) };
+  conflicts.forEach((conflict) => {
+    if (!keepLocalKeys.has(getConflictKey(conflict))) return;
+    if (conflict.kind === "cell") {
+      next.grid[conflict.row][conflict.col] = local.grid[conflict.row][conflict.col];
+    } else {
+      copyField(next, local, conflict.field);
+    }
+  });
+  return next;
+};
@@ -0,0 +1,200 @@
+import type {
+  BoardOp,
+  BoardOpFields,
+  GridCell,
+  PersistedState,
+} from "../types";
+import { BOARD_MERGE_FIELD_LABELS } from "./boardMergeService";
+
+const OP_FIELDS: (keyof BoardOpFields)[] = [
+  "pricePerSquare",
+  "payoutRules",
+  "gameSettings",
+  "claimHoldMinutes",
+  "payments",
+  "periodScores",
+];
+
+const isSame = (left: unknown, right: unknown): boolean =>
+  JSON.stringify(left) === JSON.stringify(right);
+
+const updateCell = (
+  state: PersistedState,
+  row: number,
+  col: number,
+  update: (cell: GridCell) => GridCell,
+): PersistedState => {
+  const cell = state.grid[row]?.[col];
+  if (!cell) throw new Error(`Square ${row},${col} does not exist.`);
+  return {
+    ...state,
+    grid: state.grid.map((cells, rowIndex) =>
+      rowIndex !== row
+        ? cells
+        : cells.map((current, colIndex) => (colIndex !== col ? current : update(current))),
+    ),
+  };
+};
+
+/**
+ * Applies one op. Shared by the browser and the SQLite API so both sides derive
+ * the same board from the same op log.
+ */
+export const applyBoardOp = (state: PersistedState, op: BoardOp): PersistedState => {
+  switch (op.type) {
+    case "assign_square":
+      return updateCell(state, op.row, op.col, () => ({
+        row: op.row,
+        col: op.col,
+        player: op.player,
+        status: "approved",
+      }));
+    case "request_square":
+      return updateCell(state, op.row, op.col, () => ({
+        row: op.row,
+        col: op.col,
+        player: op.player,
+        status: "pending",
+        ...(op.requestedAt === undefined ? {} : { requestedAt: op.requestedAt }),
+      }));
+    case "approve_square":
+      return updateCell(state, op.row, op.col, (cell) =>
+        cell.status !== "pending"
+          ? cell
+          : { row: cell.row, col: cell.col, player: cell.player, status: "approved" },
+      );
+    case "clear_square":
+      return updateCell(state, op.row, op.col, () => ({
+        row: op.row,
+        col: op.col,
+        player: null,
+        status: "empty",
+      }));
+    case "shuffle":
+      return {
+        ...state,
+        rowLabels: op.rowLabels,
+        colLabels: op.colLabels,
+        fairDraw: op.fairDraw,
+      };
+    case "lock":
+      return { ...state, isLocked: op.isLocked };
+    case "finalize":
+      return { ...state, periodResults: op.periodResults };
+    case "set_fields":
+      return { ...state, ...op.fields };
+    case "replace_state":
+    case "reset_board":
+    case "restore":
+      return op.state;
+    default:
+      throw new Error(`Unknown board op: ${(op as { type?: unknown }).type}`);
+  }
+};
+
+export const applyBoardOps = (state: PersistedState, ops: BoardOp[]): PersistedState =>
+  ops.reduce(applyBoardOp, state);
+
+const diffCell = (prev: GridCell, next: GridCell): BoardOp => {
+  const { row, col } = next;
+  if (next.status === "empty" || !next.player) return { type: "clear_square", row, col };
+  if (next.status === "pending") {
+    return {
+      type: "request_square",
+      row,
+      col,
+      player: next.player,
+      ...(next.requestedAt === undefined ? {} : { requestedAt: next.requestedAt }),
+    };
+  }
+  if (prev.status === "pending" && prev.player === next.player) {
+    return { type: "approve_square", row, col };
+  }
+  return { type: "assign_square", row, col, player: next.player };
+};
+
+/**
+ * Describes `next` as ops against `prev`. Falls back to a single
+ * `replace_state` when there is no previous state or the ops would not
+ * reproduce `next` exactly.
+ */
+export const diffBoardStates = (
+  prev: PersistedState | null,
+  next: PersistedState,
+): BoardOp[] => {
+  if (!prev) return [{ type: "replace_state", state: next }];
+
+  const ops: BoardOp[] = [];
+  next.grid.forEach((cells, row) =>
+    cells.forEach((cell, col) => {
+      const prevCell = prev.grid[row]?.[col];
+      if (prevCell && !isSame(prevCell, cell)) ops.push(diffCell(prevCell, cell));
+    }),
+  );
+
+  if (
+    !isSame(prev.rowLabels, next.rowLabels) ||
+    !isSame(prev.colLabels, next.colLabels) ||
+    !isSame(prev.fairDraw, next.fairDraw)
+  ) {
+    ops.push({
+      type: "shuffle",
+      rowLabels: next.rowLabels,
+      colLabels: next.colLabels,
+      fairDraw: next.fairDraw,
+    });
+  }
+  if (prev.isLocked !== next.isLocked) {
+    ops.push({ type: "lock", isLocked: next.isLocked });
+  }
+  if (!isSame(prev.periodResults, next.periodResults)) {
+    ops.push({ type: "finalize", periodResults: next.periodResults });
+  }
+
+  const fields: Partial<BoardOpFields> = {};
+  OP_FIELDS.forEach((field) => {
+    if (!isSame(prev[field], next[field])) {
+      Object.assign(fields, { [field]: next[field] });
+    }
+  });
+  if (Object.keys(fields).length > 0) {
+    ops.push({ type: "set_fields", fields });
+  }
+
+  if (!isSame(applyBoardOps(prev, ops), next)) {
+    return [{ type: "replace_state", state: next }];
+  }
+  return ops;
+};
+
+const getSquareLabel = (row: number, col: number): string => `Square #${row * 10 + col + 1}`;
+
+/** One line for a change list, such as the history panel or an import preview. */
+export const describeBoardOp = (op: BoardOp): string => {
+  switch (op.type) {
+    case "assign_square":
+      return `${getSquareLabel(op.row, op.col)} assigned to ${op.player}`;
+    case "request_square":
+      return `${getSquareLabel(op.row, op.col)} requested by ${op.player}`;
+    case "approve_square":
+      return `${getSquareLabel(op.row, op.col)} approved`;
+    case "clear_square":
+      return `${getSquareLabel(op.row, op.col)} cleared`;
+    case "shuffle":
+      return op.fairDraw?.revealedAt ? "Numbers drawn" : "Number draw updated";
+    case "lock":
+      return op.isLocked ? "Board locked" : "Board unlocked";
+    case "finalize":
+      return `Scores updated (${op.periodResults.length} recorded)`;
+    case "set_fields":
+      return `${Object.keys(op.fields)
+        .map((field) => BOARD_MERGE_FIELD_LABELS[field as keyof typeof op.fields])
+        .join(", ")} changed`;
+    case "replace_state":
+      return "Whole board replaced";
+    case "reset_board":
+      return "Board reset";
+    case "restore":
+      return `Restored revision #${op.revision}`;
+  }
+};
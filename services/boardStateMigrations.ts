@@ -0,0 +1,76 @@
+type StoredBoardState = Record<string, unknown>;
+
+type BoardStateMigration = (data: StoredBoardState) => {
+  data: StoredBoardState;
+  warnings: string[];
+};
+
+export type BoardStateMigrationResult =
+  | { status: "current"; data: StoredBoardState; warnings: string[] }
+  /** Written by a newer app; reading it here could drop data, so it must not be saved over. */
+  | { status: "newer"; version: number };
+
+/** The version this app writes. Add a migration from the previous version when bumping it. */
+export const BOARD_STATE_VERSION = 5;
+
+// Boards saved before versions were tracked all match the first recorded version.
+const FIRST_BOARD_STATE_VERSION = 2;
+
+/** Each entry upgrades data from its key's version to the next one. */
+const MIGRATIONS: Record<number, BoardStateMigration> = {
+  // Version 2 kept one `gameResult`; version 3 records a result per period.
+  2: ({ gameResult, ...data }) => ({
+    data: {
+      ...data,
+      periodResults:
+        Array.isArray(data.periodResults) || !gameResult ? data.periodResults : [gameResult],
+      version: 3,
+    },
+    warnings: [],
+  }),
+  // Version 4 keeps the scores captured from the live feed at each period boundary.
+  3: (data) => ({
+    data: {
+      ...data,
+      periodScores: Array.isArray(data.periodScores) ? data.periodScores : [],
+      version: 4,
+    },
+    warnings: [],
+  }),
+  // Version 5 lists the commitments a fair draw replaced; older apps would drop them.
+  4: (data) => ({
+    data: { ...data, version: 5 },
+    warnings: [],
+  }),
+};
+
+export const getBoardStateVersion = (data: unknown): number => {
+  const version = (data as { version?: unknown } | null)?.version;
+  return typeof version === "number" && Number.isInteger(version)
+    ? version
+    : FIRST_BOARD_STATE_VERSION;
+};
+
+/** Upgrades stored board data one version at a time to `BOARD_STATE_VERSION`. */
+export const migrateBoardState = (data: StoredBoardState): BoardStateMigrationResult => {
+  const version = getBoardStateVersion(data);
+  if (version > BOARD_STATE_VERSION) return { status: "newer", version };
+
+  const warnings: string[] = [];
+  let current = data;
+  let currentVersion = version;
+  if (currentVersion < FIRST_BOARD_STATE_VERSION) {
+    warnings.push(
+      `Board data version ${currentVersion} is older than any known format, ` +
+        `so it was read as version ${FIRST_BOARD_STATE_VERSION}.`,
+    );
+    currentVersion = FIRST_BOARD_STATE_VERSION;
+  }
+  while (currentVersion < BOARD_STATE_VERSION) {
+    const step = MIGRATIONS[currentVersion](current);
+    current = step.data;
+    warnings.push(...step.warnings);
+    currentVersion += 1;
+  }
+  return { status: "current", data: { ...current, version: BOARD_STATE_VERSION }, warnings };
+};
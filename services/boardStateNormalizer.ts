@@ -0,0 +1,611 @@
+import type {
+  BonusPrizeRules,
+  BonusSquare,
+  FairDraw,
+  GameResult,
+  GameSettings,
+  GridCell,
+  PayoutPeriod,
+  PayoutRoundingMode,
+  PayoutRules,
+  PeriodScoreCapture,
+  PersistedState,
+  PlayerPayment,
+  PreviousDrawCommitment,
+  UnclaimedPrizeRule,
+  UnclaimedResolution,
+} from "../types";
+import { INITIAL_COLS, INITIAL_ROWS, NFL_TEAMS } from "../constants";
+import {
+  DEFAULT_PAYOUT_RULES,
+  PAYOUT_PERIODS,
+  PAYOUT_ROUNDING_LABELS,
+  UNCLAIMED_PRIZE_RULE_LABELS,
+  sortPeriodResults,
+} from "./payoutService";
+import { FAIR_DRAW_ALGORITHM } from "./fairDrawService";
+import { coerceClaimHoldMinutes } from "./squareClaimRules";
+import { PAYMENT_METHODS, getPlayerKey } from "./paymentLedgerService";
+import { mergePeriodScores } from "./periodScoreCaptureService";
+import { BOARD_STATE_VERSION, migrateBoardState } from "./boardStateMigrations";
+
+const DEFAULT_GAME_DATE = "2026-02-08";
+
+export const DEFAULT_GAME_SETTINGS: GameSettings = {
+  homeTeamName: "Seahawks",
+  awayTeamName: "Patriots",
+  gameDate: DEFAULT_GAME_DATE,
+  eventId: null,
+  liveFeedProvider: "espn",
+  mockFeedUrl: null,
+  autoFinalize: "off",
+  rowTeam: "home",
+};
+
+export const createEmptyGrid = (): GridCell[][] =>
+  Array(10)
+    .fill(null)
+    .map((_, r) =>
+      Array(10)
+        .fill(null)
+        .map((__, c) => ({
+          row: r,
+          col: c,
+          player: null,
+          status: "empty" as const,
+        })),
+    );
+
+export const parseGameDate = (value: string | undefined): Date | null => {
+  if (!value) return null;
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const [, y, m, d] = match;
+  const parsed = new Date(Number(y), Number(m) - 1, Number(d), 0, 0, 0, 0);
+  if (Number.isNaN(parsed.getTime())) return null;
+  return parsed;
+};
+
+const coerceLabels = (value: unknown): number[] | null => {
+  if (!Array.isArray(value) || value.length !== 10) return null;
+  if (!value.every((n) => typeof n === "number" && Number.isFinite(n))) {
+    return null;
+  }
+  return value;
+};
+
+const coerceGrid = (value: unknown): GridCell[][] | null => {
+  if (!Array.isArray(value) || value.length !== 10) return null;
+  const rows: GridCell[][] = [];
+  for (let r = 0; r < 10; r += 1) {
+    const row = value[r];
+    if (!Array.isArray(row) || row.length !== 10) return null;
+    const nextRow: GridCell[] = [];
+    for (let c = 0; c < 10; c += 1) {
+      const cell = row[c] as Partial<GridCell> | null;
+      const status =
+        cell?.status === "approved" ||
+        cell?.status === "pending" ||
+        cell?.status === "empty"
+          ? cell.status
+          : "empty";
+      nextRow.push({
+        row: r,
+        col: c,
+        player: typeof cell?.player === "string" ? cell.player : null,
+        status,
+        ...(status === "pending" && typeof cell?.requestedAt === "string"
+          ? { requestedAt: cell.requestedAt }
+          : {}),
+      });
+    }
+    rows.push(nextRow);
+  }
+  return rows;
+};
+
+const coerceBonusSquare = (value: unknown): BonusSquare | null => {
+  if (!value || typeof value !== "object") return null;
+  const data = value as Partial<BonusSquare>;
+  if (
+    !Number.isInteger(data.row) ||
+    !Number.isInteger(data.col) ||
+    data.row < 0 ||
+    data.row > 9 ||
+    data.col < 0 ||
+    data.col > 9
+  ) {
+    return null;
+  }
+  if (data.playerName !== null && typeof data.playerName !== "string") return null;
+  return {
+    row: data.row,
+    col: data.col,
+    squareNumber: data.row * 10 + data.col + 1,
+    playerName: data.playerName,
+    status:
+      data.status === "approved" || data.status === "pending" ? data.status : "empty",
+  };
+};
+
+const coerceUnclaimedRule = (value: unknown): UnclaimedPrizeRule | null =>
+  typeof value === "string" && value in UNCLAIMED_PRIZE_RULE_LABELS
+    ? (value as UnclaimedPrizeRule)
+    : null;
+
+const coerceUnclaimedResolution = (value: unknown): UnclaimedResolution | null => {
+  if (!value || typeof value !== "object") return null;
+  const data = value as Partial<UnclaimedResolution>;
+  const configuredRule = coerceUnclaimedRule(data.configuredRule);
+  const appliedRule = coerceUnclaimedRule(data.appliedRule);
+  if (!configuredRule || !appliedRule) return null;
+
+  return {
+    configuredRule,
+    appliedRule,
+    rolloverTo:
+      typeof data.rolloverTo === "string" &&
+      PAYOUT_PERIODS.includes(data.rolloverTo as PayoutPeriod)
+        ? data.rolloverTo
+        : null,
+    recipients: Array.isArray(data.recipients)
+      ? data.recipients
+          .map(coerceBonusSquare)
+          .filter((square): square is BonusSquare => square !== null)
+      : [],
+  };
+};
+
+const coerceGameResult = (value: unknown): GameResult | null => {
+  if (!value || typeof value !== "object") return null;
+  const data = value as Partial<GameResult>;
+
+  const fields = [
+    data.homeScore,
+    data.awayScore,
+    data.homeLastDigit,
+    data.awayLastDigit,
+    data.winnerRow,
+    data.winnerCol,
+    data.winnerSquareNumber,
+  ];
+
+  if (
+    !fields.every(
+      (entry) => typeof entry === "number" && Number.isFinite(entry),
+    )
+  ) {
+    return null;
+  }
+
+  if (
+    !Number.isInteger(data.homeScore) ||
+    !Number.isInteger(data.awayScore) ||
+    data.homeScore < 0 ||
+    data.awayScore < 0
+  ) {
+    return null;
+  }
+
+  if (
+    !Number.isInteger(data.homeLastDigit) ||
+    !Number.isInteger(data.awayLastDigit) ||
+    data.homeLastDigit < 0 ||
+    data.homeLastDigit > 9 ||
+    data.awayLastDigit < 0 ||
+    data.awayLastDigit > 9
+  ) {
+    return null;
+  }
+
+  if (
+    !Number.isInteger(data.winnerRow) ||
+    !Number.isInteger(data.winnerCol) ||
+    data.winnerRow < 0 ||
+    data.winnerRow > 9 ||
+    data.winnerCol < 0 ||
+    data.winnerCol > 9
+  ) {
+    return null;
+  }
+
+  if (
+    !Number.isInteger(data.winnerSquareNumber) ||
+    data.winnerSquareNumber < 1 ||
+    data.winnerSquareNumber > 100
+  ) {
+    return null;
+  }
+
+  if (
+    data.winnerStatus !== "approved" &&
+    data.winnerStatus !== "pending" &&
+    data.winnerStatus !== "empty"
+  ) {
+    return null;
+  }
+
+  if (data.winnerName !== null && typeof data.winnerName !== "string") {
+    return null;
+  }
+
+  if (typeof data.submittedAt !== "string") return null;
+  if (Number.isNaN(Date.parse(data.submittedAt))) return null;
+
+  const period =
+    typeof data.period === "string" &&
+    PAYOUT_PERIODS.includes(data.period as PayoutPeriod)
+      ? data.period
+      : "final";
+
+  return {
+    period,
+    homeScore: data.homeScore,
+    awayScore: data.awayScore,
+    homeLastDigit: data.homeLastDigit,
+    awayLastDigit: data.awayLastDigit,
+    winnerRow: data.winnerRow,
+    winnerCol: data.winnerCol,
+    winnerSquareNumber: data.winnerSquareNumber,
+    winnerName: data.winnerName,
+    winnerStatus: data.winnerStatus,
+    reverseWinner: coerceBonusSquare(data.reverseWinner),
+    neighborWinners: Array.isArray(data.neighborWinners)
+      ? data.neighborWinners
+          .map(coerceBonusSquare)
+          .filter((square): square is BonusSquare => square !== null)
+      : [],
+    unclaimedResolution: coerceUnclaimedResolution(data.unclaimedResolution),
+    submittedAt: data.submittedAt,
+  };
+};
+
+const coercePeriodResults = (value: unknown): GameResult[] => {
+  if (!Array.isArray(value)) return [];
+
+  const byPeriod = new Map<PayoutPeriod, GameResult>();
+  for (const entry of value) {
+    const result = coerceGameResult(entry);
+    if (result) byPeriod.set(result.period, result);
+  }
+  return sortPeriodResults(Array.from(byPeriod.values()));
+};
+
+const coercePayoutRules = (value: unknown): PayoutRules => {
+  if (!value || typeof value !== "object") return DEFAULT_PAYOUT_RULES;
+  const data = value as Partial<PayoutRules>;
+  const rawPercentages = (data.periodPercentages ?? {}) as Partial<
+    Record<PayoutPeriod, unknown>
+  >;
+
+  const rawFixedPrizes = (data.fixedPrizes ?? {}) as Partial<
+    Record<PayoutPeriod, unknown>
+  >;
+
+  const periodPercentages = { ...DEFAULT_PAYOUT_RULES.periodPercentages };
+  const fixedPrizes = { ...DEFAULT_PAYOUT_RULES.fixedPrizes };
+  for (const period of PAYOUT_PERIODS) {
+    const rawPercentage = rawPercentages[period];
+    if (
+      typeof rawPercentage === "number" &&
+      Number.isFinite(rawPercentage) &&
+      rawPercentage >= 0
+    ) {
+      periodPercentages[period] = rawPercentage;
+    }
+    const rawFixedPrize = rawFixedPrizes[period];
+    if (
+      typeof rawFixedPrize === "number" &&
+      Number.isFinite(rawFixedPrize) &&
+      rawFixedPrize >= 0
+    ) {
+      fixedPrizes[period] = rawFixedPrize;
+    }
+  }
+
+  const houseCutPercent =
+    typeof data.houseCutPercent === "number" &&
+    Number.isFinite(data.houseCutPercent) &&
+    data.houseCutPercent >= 0 &&
+    data.houseCutPercent < 100
+      ? data.houseCutPercent
+      : DEFAULT_PAYOUT_RULES.houseCutPercent;
+
+  return {
+    periodPercentages,
+    houseCutPercent,
+    houseCutLabel:
+      typeof data.houseCutLabel === "string" && data.houseCutLabel.trim()
+        ? data.houseCutLabel.trim()
+        : DEFAULT_PAYOUT_RULES.houseCutLabel,
+    fixedPrizes,
+    rounding:
+      typeof data.rounding === "string" && data.rounding in PAYOUT_ROUNDING_LABELS
+        ? (data.rounding as PayoutRoundingMode)
+        : DEFAULT_PAYOUT_RULES.rounding,
+    bonusPrizes: coerceBonusPrizeRules(data.bonusPrizes),
+    unclaimedRule:
+      coerceUnclaimedRule(data.unclaimedRule) ?? DEFAULT_PAYOUT_RULES.unclaimedRule,
+  };
+};
+
+const coerceBonusPrizeRules = (value: unknown): BonusPrizeRules => {
+  const defaults = DEFAULT_PAYOUT_RULES.bonusPrizes;
+  if (!value || typeof value !== "object") return defaults;
+  const data = value as Partial<BonusPrizeRules>;
+  const coerceShare = (raw: unknown, fallback: number): number =>
+    typeof raw === "number" && Number.isFinite(raw) && raw >= 0 && raw < 100
+      ? raw
+      : fallback;
+
+  return {
+    reverseEnabled:
+      typeof data.reverseEnabled === "boolean"
+        ? data.reverseEnabled
+        : defaults.reverseEnabled,
+    reverseSharePercent: coerceShare(
+      data.reverseSharePercent,
+      defaults.reverseSharePercent,
+    ),
+    neighborsEnabled:
+      typeof data.neighborsEnabled === "boolean"
+        ? data.neighborsEnabled
+        : defaults.neighborsEnabled,
+    neighborSharePercent: coerceShare(
+      data.neighborSharePercent,
+      defaults.neighborSharePercent,
+    ),
+    neighborsIncludeDiagonals:
+      typeof data.neighborsIncludeDiagonals === "boolean"
+        ? data.neighborsIncludeDiagonals
+        : defaults.neighborsIncludeDiagonals,
+  };
+};
+
+const coerceGameSettings = (value: unknown): GameSettings => {
+  if (!value || typeof value !== "object") return DEFAULT_GAME_SETTINGS;
+  const data = value as Partial<GameSettings>;
+  const coerceTeamName = (raw: unknown, fallback: string): string =>
+    typeof raw === "string" && NFL_TEAMS.some((team) => team.name === raw)
+      ? raw
+      : fallback;
+  const homeTeamName = coerceTeamName(
+    data.homeTeamName,
+    DEFAULT_GAME_SETTINGS.homeTeamName,
+  );
+  const awayTeamName = coerceTeamName(
+    data.awayTeamName,
+    DEFAULT_GAME_SETTINGS.awayTeamName,
+  );
+
+  return {
+    homeTeamName,
+    awayTeamName,
+    gameDate:
+      typeof data.gameDate === "string" && parseGameDate(data.gameDate)
+        ? data.gameDate.trim()
+        : DEFAULT_GAME_SETTINGS.gameDate,
+    eventId:
+      typeof data.eventId === "string" && /^\d+$/.test(data.eventId.trim())
+        ? data.eventId.trim()
+        : null,
+    liveFeedProvider: data.liveFeedProvider === "mock" ? "mock" : "espn",
+    mockFeedUrl:
+      typeof data.mockFeedUrl === "string" && data.mockFeedUrl.trim()
+        ? data.mockFeedUrl.trim()
+        : null,
+    autoFinalize:
+      data.autoFinalize === "approve" || data.autoFinalize === "auto" ? data.autoFinalize : "off",
+    rowTeam: data.rowTeam === "away" ? "away" : "home",
+  };
+};
+
+const coerceFairDraw = (value: unknown): FairDraw | null => {
+  if (!value || typeof value !== "object") return null;
+  const data = value as Partial<FairDraw>;
+  if (typeof data.commitment !== "string" || typeof data.committedAt !== "string") {
+    return null;
+  }
+  const coerceText = (raw: unknown): string | null =>
+    typeof raw === "string" && raw ? raw : null;
+  const seed = coerceText(data.seed);
+  const gridHash = coerceText(data.gridHash);
+  const previousCommitments = Array.isArray(data.previousCommitments)
+    ? data.previousCommitments.filter(
+        (entry): entry is PreviousDrawCommitment =>
+          Boolean(entry) &&
+          typeof entry.commitment === "string" &&
+          typeof entry.committedAt === "string" &&
+          typeof entry.replacedAt === "string",
+      )
+    : [];
+
+  return {
+    algorithm: coerceText(data.algorithm) ?? FAIR_DRAW_ALGORITHM,
+    commitment: data.commitment,
+    committedAt: data.committedAt,
+    // A reveal is only meaningful with both inputs to the permutation.
+    seed: seed && gridHash ? seed : null,
+    gridHash: seed && gridHash ? gridHash : null,
+    revealedAt: seed && gridHash ? coerceText(data.revealedAt) : null,
+    previousCommitments,
+  };
+};
+
+const coercePayments = (value: unknown): PlayerPayment[] => {
+  if (!Array.isArray(value)) return [];
+  const payments = new Map<string, PlayerPayment>();
+  value.forEach((entry) => {
+    if (!entry || typeof entry !== "object") return;
+    const data = entry as Partial<PlayerPayment>;
+    if (typeof data.playerName !== "string") return;
+    const playerKey = getPlayerKey(data.playerName);
+    if (!playerKey) return;
+    payments.set(playerKey, {
+      playerKey,
+      playerName: data.playerName.trim(),
+      amountPaid:
+        typeof data.amountPaid === "number" && Number.isFinite(data.amountPaid)
+          ? Math.max(0, data.amountPaid)
+          : 0,
+      method:
+        data.method && PAYMENT_METHODS.includes(data.method) ? data.method : null,
+      notes: typeof data.notes === "string" ? data.notes : "",
+      updatedAt: typeof data.updatedAt === "string" ? data.updatedAt : "",
+    });
+  });
+  return Array.from(payments.values());
+};
+
+const isWholeScore = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+const coercePeriodScores = (value: unknown): PeriodScoreCapture[] => {
+  if (!Array.isArray(value)) return [];
+  const scores: PeriodScoreCapture[] = [];
+  value.forEach((entry) => {
+    if (!entry || typeof entry !== "object") return;
+    const data = entry as Partial<PeriodScoreCapture>;
+    if (
+      (data.period !== "q1" && data.period !== "halftime" && data.period !== "q3") ||
+      !isWholeScore(data.homeScore) ||
+      !isWholeScore(data.awayScore)
+    ) {
+      return;
+    }
+    scores.push({
+      period: data.period,
+      homeScore: data.homeScore,
+      awayScore: data.awayScore,
+      capturedAt: typeof data.capturedAt === "string" ? data.capturedAt : "",
+      source: data.source === "admin" ? "admin" : "live_feed",
+      isExact: data.isExact !== false,
+    });
+  });
+  // Keeps the first score per period, in period order.
+  return mergePeriodScores([], scores);
+};
+
+const PERSISTED_STATE_FIELDS = new Set<string>([
+  "version",
+  "pricePerSquare",
+  "isLocked",
+  "rowLabels",
+  "colLabels",
+  "grid",
+  "periodResults",
+  "payoutRules",
+  "gameSettings",
+  "fairDraw",
+  "claimHoldMinutes",
+  "payments",
+  "periodScores",
+]);
+
+/**
+ * Coerces current-version data into a board. Anything present but unreadable
+ * falls back to its default and is described in `warnings`.
+ */
+export const normalizePersistedState = (
+  payload: unknown,
+  warnings: string[] = [],
+): PersistedState | null => {
+  if (!payload || typeof payload !== "object") return null;
+  const data = payload as Partial<Record<keyof PersistedState, unknown>>;
+  const isPresent = (value: unknown) => value !== undefined && value !== null;
+  const isObject = (value: unknown) => Boolean(value) && typeof value === "object";
+
+  const pricePerSquare =
+    typeof data.pricePerSquare === "number" &&
+    Number.isFinite(data.pricePerSquare)
+      ? data.pricePerSquare
+      : 3;
+  const rowLabels = coerceLabels(data.rowLabels);
+  const colLabels = coerceLabels(data.colLabels);
+  const grid = coerceGrid(data.grid);
+  const periodResults = coercePeriodResults(data.periodResults);
+  const fairDraw = coerceFairDraw(data.fairDraw);
+  const claimHoldMinutes = coerceClaimHoldMinutes(data.claimHoldMinutes);
+  const payments = coercePayments(data.payments);
+  const periodScores = coercePeriodScores(data.periodScores);
+  const droppedResults = Array.isArray(data.periodResults)
+    ? data.periodResults.length - periodResults.length
+    : 0;
+  const droppedPayments = Array.isArray(data.payments)
+    ? data.payments.length - payments.length
+    : 0;
+  const droppedPeriodScores = Array.isArray(data.periodScores)
+    ? data.periodScores.length - periodScores.length
+    : 0;
+
+  const unknownFields = Object.keys(data).filter((key) => !PERSISTED_STATE_FIELDS.has(key));
+  if (unknownFields.length > 0) {
+    warnings.push(`Unrecognized board data was dropped: ${unknownFields.join(", ")}.`);
+  }
+  if (isPresent(data.pricePerSquare) && data.pricePerSquare !== pricePerSquare) {
+    warnings.push("The cost per square could not be read, so it was reset to $3.");
+  }
+  if (isPresent(data.isLocked) && typeof data.isLocked !== "boolean") {
+    warnings.push("The lock state could not be read, so the board was left open.");
+  }
+  if ((isPresent(data.rowLabels) && !rowLabels) || (isPresent(data.colLabels) && !colLabels)) {
+    warnings.push("The row or column numbers could not be read and were reset.");
+  }
+  if (isPresent(data.grid) && !grid) {
+    warnings.push("The squares could not be read, so every square was cleared.");
+  }
+  if (droppedResults > 0) {
+    warnings.push(`${droppedResults} recorded score(s) could not be read and were dropped.`);
+  }
+  if (isPresent(data.payoutRules) && !isObject(data.payoutRules)) {
+    warnings.push("The payout rules could not be read and were reset to the defaults.");
+  }
+  if (isPresent(data.gameSettings) && !isObject(data.gameSettings)) {
+    warnings.push("The matchup could not be read and was reset to the defaults.");
+  }
+  if (isPresent(data.fairDraw) && !fairDraw) {
+    warnings.push("The published number draw could not be read and was removed.");
+  }
+  if (isPresent(data.claimHoldMinutes) && data.claimHoldMinutes !== claimHoldMinutes) {
+    warnings.push("The square request hold time could not be read and was reset.");
+  }
+  if (droppedPayments > 0) {
+    warnings.push(`${droppedPayments} payment record(s) could not be read and were dropped.`);
+  }
+  if (droppedPeriodScores > 0) {
+    warnings.push(
+      `${droppedPeriodScores} captured period score(s) could not be read and were dropped.`,
+    );
+  }
+
+  return {
+    version: BOARD_STATE_VERSION,
+    pricePerSquare,
+    isLocked: typeof data.isLocked === "boolean" ? data.isLocked : false,
+    rowLabels: rowLabels ?? INITIAL_ROWS,
+    colLabels: colLabels ?? INITIAL_COLS,
+    grid: grid ?? createEmptyGrid(),
+    periodResults,
+    payoutRules: coercePayoutRules(data.payoutRules),
+    gameSettings: coerceGameSettings(data.gameSettings),
+    fairDraw,
+    claimHoldMinutes,
+    payments,
+    periodScores,
+  };
+};
+
+export type PersistedStateRead =
+  | { status: "ok"; state: PersistedState; warnings: string[] }
+  | { status: "newer"; version: number };
+
+/** Migrates stored board data of any version, then normalizes it. Null when it isn't a board. */
+export const readPersistedState = (payload: unknown): PersistedStateRead | null => {
+  if (!payload || typeof payload !== "object") return null;
+  const migrated = migrateBoardState(payload as Record<string, unknown>);
+  if (migrated.status === "newer") return migrated;
+  const warnings = [...migrated.warnings];
+  const state = normalizePersistedState(migrated.data, warnings);
+  return state ? { status: "ok", state, warnings } : null;
+};
+
@@ -0,0 +1,23 @@
+import { isSupabaseConfigured, supabase } from "../supabaseClient";
+import type { BoardOp, BoardOpBatch, BoardStateSnapshot } from "../types";
+import { SHOULD_USE_LOCAL_SQLITE } from "./backendConfig";
+
+export const HAS_REMOTE_BOARD_STATE =
+  SHOULD_USE_LOCAL_SQLITE || (isSupabaseConfigured && supabase !== null);
+
+export const toBoardStateSnapshot = (
+  row: { data?: unknown; revision?: unknown } | null | undefined,
+): BoardStateSnapshot | null => {
+  if (!row?.data) return null;
+  return {
+    data: row.data,
+    revision: typeof row.revision === "number" ? row.revision : 0,
+  };
+};
+
+export const toBoardOpBatch = (
+  row: { revision?: unknown; ops?: unknown } | null | undefined,
+): BoardOpBatch | null => {
+  if (!row || typeof row.revision !== "number" || !Array.isArray(row.ops)) return null;
+  return { revision: row.revision, ops: row.ops as BoardOp[] };
+};
@@ -0,0 +1,13 @@
+import { supabase } from "../supabaseClient";
+import type { BoardStore } from "../types";
+import { SHOULD_USE_LOCAL_SQLITE } from "./backendConfig";
+import { createLocalStorageBoardStore } from "./localStorageBoardStore";
+import { createSqliteBoardStore } from "./sqliteBoardStore";
+import { createSupabaseBoardStore } from "./supabaseBoardStore";
+
+/** The store this deployment is configured for: dev SQLite, then Supabase, then localStorage. */
+export const createDefaultBoardStore = (): BoardStore => {
+  if (SHOULD_USE_LOCAL_SQLITE) return createSqliteBoardStore();
+  if (supabase) return createSupabaseBoardStore(supabase);
+  return createLocalStorageBoardStore();
+};
@@ -0,0 +1,55 @@
+import type { BoardExportFile } from "../types";
+
+const EXPORT_FORMAT: BoardExportFile["format"] = "sb-lx-squares-board";
+
+/** Bump when the file layout changes; older files must keep importing. */
+export const BOARD_EXPORT_VERSION = 1;
+
+export const buildBoardExport = (
+  board: BoardExportFile["board"],
+  state: unknown,
+): BoardExportFile => ({
+  format: EXPORT_FORMAT,
+  version: BOARD_EXPORT_VERSION,
+  exportedAt: new Date().toISOString(),
+  board,
+  state,
+});
+
+export const getBoardExportFilename = (boardId: string): string =>
+  `${boardId}-board-${new Date().toISOString().slice(0, 10)}.json`;
+
+/** Reads an exported file; throws with a message fit to show the admin. */
+export const parseBoardExport = (text: string): BoardExportFile => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("That file is not valid JSON.");
+  }
+
+  const file = parsed as Partial<BoardExportFile> | null;
+  if (!file || typeof file !== "object" || file.format !== EXPORT_FORMAT) {
+    throw new Error("That file is not a board export.");
+  }
+  if (typeof file.version !== "number" || file.version < 1) {
+    throw new Error("The board export has no valid version.");
+  }
+  if (file.version > BOARD_EXPORT_VERSION) {
+    throw new Error("That board was exported by a newer version of the app. Update to import it.");
+  }
+  if (!file.state || typeof file.state !== "object") {
+    throw new Error("The board export has no board state.");
+  }
+
+  return {
+    format: EXPORT_FORMAT,
+    version: file.version,
+    exportedAt: typeof file.exportedAt === "string" ? file.exportedAt : "",
+    board: {
+      id: typeof file.board?.id === "string" ? file.board.id : "",
+      name: typeof file.board?.name === "string" ? file.board.name : null,
+    },
+    state: file.state,
+  };
+};
@@ -0,0 +1,167 @@
+import type { FairDraw, FairDrawVerification, GridCell } from "../types";
+
+type DrawPermutations = {
+  rowLabels: number[];
+  colLabels: number[];
+};
+
+export const FAIR_DRAW_ALGORITHM = "sha256-fisher-yates-v1";
+
+const DIGITS = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+const SEED_BYTES = 32;
+const UINT32_RANGE = 2 ** 32;
+const SEED_STORAGE_PREFIX = "sb-lx-draw-seed-v1";
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+const sha256Bytes = async (text: string): Promise<Uint8Array> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return new Uint8Array(digest);
+};
+
+export const sha256Hex = async (text: string): Promise<string> =>
+  toHex(await sha256Bytes(text));
+
+export const generateDrawSeed = (): string =>
+  toHex(crypto.getRandomValues(new Uint8Array(SEED_BYTES)));
+
+/**
+ * Hash of who owns each square, row by row. Mixing it into the draw means the
+ * admin could not have known the final numbers when the seed was committed.
+ */
+export const computeGridHash = (grid: GridCell[][]): Promise<string> =>
+  sha256Hex(
+    JSON.stringify(grid.map((row) => row.map((cell) => cell.player?.trim() || null))),
+  );
+
+/** Yields uint32 values from SHA-256(`material:counter`) blocks. */
+const createDeterministicStream = (material: string) => {
+  let counter = 0;
+  let buffer: number[] = [];
+
+  return async (): Promise<number> => {
+    if (buffer.length === 0) {
+      const block = await sha256Bytes(`${material}:${counter}`);
+      counter += 1;
+      const view = new DataView(block.buffer);
+      buffer = Array.from({ length: block.length / 4 }, (_, index) =>
+        view.getUint32(index * 4),
+      );
+    }
+    return buffer.shift() as number;
+  };
+};
+
+const shuffleDigits = async (material: string): Promise<number[]> => {
+  const next = createDeterministicStream(material);
+  const digits = [...DIGITS];
+  for (let i = digits.length - 1; i > 0; i -= 1) {
+    const range = i + 1;
+    // Rejection sampling keeps every index equally likely.
+    const limit = Math.floor(UINT32_RANGE / range) * range;
+    let value = await next();
+    while (value >= limit) value = await next();
+    const j = value % range;
+    [digits[i], digits[j]] = [digits[j], digits[i]];
+  }
+  return digits;
+};
+
+export const deriveDrawPermutations = async (
+  seed: string,
+  gridHash: string,
+): Promise<DrawPermutations> => ({
+  rowLabels: await shuffleDigits(`${seed}:${gridHash}:rows`),
+  colLabels: await shuffleDigits(`${seed}:${gridHash}:cols`),
+});
+
+/** Commits to `seed`; the commitment it replaces, if any, joins `previousCommitments`. */
+export const createDrawCommitment = async (
+  seed: string,
+  replaced: FairDraw | null = null,
+): Promise<FairDraw> => {
+  const committedAt = new Date().toISOString();
+  return {
+    algorithm: FAIR_DRAW_ALGORITHM,
+    commitment: await sha256Hex(seed),
+    committedAt,
+    seed: null,
+    gridHash: null,
+    revealedAt: null,
+    previousCommitments: replaced
+      ? [
+          ...replaced.previousCommitments,
+          {
+            commitment: replaced.commitment,
+            committedAt: replaced.committedAt,
+            replacedAt: committedAt,
+          },
+        ]
+      : [],
+  };
+};
+
+export const revealDraw = async (
+  draw: FairDraw,
+  seed: string,
+  grid: GridCell[][],
+): Promise<{ draw: FairDraw } & DrawPermutations> => {
+  if ((await sha256Hex(seed)) !== draw.commitment) {
+    throw new Error("The saved seed does not match the published commitment.");
+  }
+  const gridHash = await computeGridHash(grid);
+  const permutations = await deriveDrawPermutations(seed, gridHash);
+  return {
+    draw: { ...draw, seed, gridHash, revealedAt: new Date().toISOString() },
+    ...permutations,
+  };
+};
+
+const labelsMatch = (left: number[], right: number[]): boolean =>
+  left.length === right.length && left.every((value, index) => value === right[index]);
+
+export const verifyDraw = async (
+  draw: FairDraw,
+  rowLabels: number[],
+  colLabels: number[],
+  grid: GridCell[][],
+): Promise<FairDrawVerification> => {
+  if (!draw.seed || !draw.gridHash) {
+    throw new Error("The seed has not been revealed yet.");
+  }
+  const permutations = await deriveDrawPermutations(draw.seed, draw.gridHash);
+  return {
+    commitmentMatches: (await sha256Hex(draw.seed)) === draw.commitment,
+    labelsMatch:
+      labelsMatch(permutations.rowLabels, rowLabels) &&
+      labelsMatch(permutations.colLabels, colLabels),
+    gridUnchanged: (await computeGridHash(grid)) === draw.gridHash,
+    expectedRowLabels: permutations.rowLabels,
+    expectedColLabels: permutations.colLabels,
+  };
+};
+
+const getSeedStorageKey = (boardId: string): string =>
+  `${SEED_STORAGE_PREFIX}:${boardId}`;
+
+/** The seed stays on the admin's device until it is revealed at lock. */
+export const readStoredDrawSeed = (boardId: string): string | null => {
+  try {
+    return window.localStorage.getItem(getSeedStorageKey(boardId));
+  } catch {
+    return null;
+  }
+};
+
+export const storeDrawSeed = (boardId: string, seed: string | null) => {
+  try {
+    if (seed) {
+      window.localStorage.setItem(getSeedStorageKey(boardId), seed);
+    } else {
+      window.localStorage.removeItem(getSeedStorageKey(boardId));
+    }
+  } catch (error) {
+    console.warn("Failed to store draw seed.", error);
+  }
+};
@@ -0,0 +1,32 @@
+import type { GameSettings, LiveFeedProvider, LiveFeedProviderId } from "../types";
+import type { EspnPayloadFetcher } from "./liveGameFeedService";
+import type { MockFeedLoader } from "./mockLiveFeedProvider";
+import { createEspnLiveFeedProvider } from "./liveGameFeedService";
+import { createMockLiveFeedProvider } from "./mockLiveFeedProvider";
+
+export const LIVE_FEED_PROVIDER_LABELS: Record<LiveFeedProviderId, string> = {
+  espn: "ESPN",
+  mock: "Mock feed file",
+};
+
+/** Scripted sample game served from `public/`. */
+export const DEFAULT_MOCK_FEED_URL = "/live-feeds/sample-game.json";
+
+export type LiveFeedProviderOptions = {
+  /** Replaces ESPN's network requests, e.g. to record them. */
+  fetchEspnPayload?: EspnPayloadFetcher;
+  /** Replaces fetching mock feed files, e.g. to read them from disk on the server. */
+  loadMockFeed?: MockFeedLoader;
+};
+
+/** The live feed a board's game settings ask for. */
+export const createLiveFeedProvider = (
+  settings: Pick<GameSettings, "liveFeedProvider" | "mockFeedUrl">,
+  options: LiveFeedProviderOptions = {},
+): LiveFeedProvider =>
+  settings.liveFeedProvider === "mock"
+    ? createMockLiveFeedProvider(
+        settings.mockFeedUrl ?? DEFAULT_MOCK_FEED_URL,
+        options.loadMockFeed,
+      )
+    : createEspnLiveFeedProvider(options.fetchEspnPayload);
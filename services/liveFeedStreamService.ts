@@ -0,0 +1,43 @@
+import type { LiveFeedUpdate } from "../types";
+import { SHOULD_USE_LOCAL_SQLITE, SQLITE_BOARD_STATE_API } from "./backendConfig";
+
+/** The SQLite server polls the live feed itself; other backends leave it to each browser. */
+export const HAS_SHARED_LIVE_FEED = SHOULD_USE_LOCAL_SQLITE;
+
+const toLiveFeedUpdate = (value: unknown): LiveFeedUpdate | null => {
+  const update = value as Partial<LiveFeedUpdate> | null;
+  if (!update || typeof update !== "object" || typeof update.isActive !== "boolean") {
+    return null;
+  }
+  return {
+    isActive: update.isActive,
+    snapshot: update.snapshot ?? null,
+    squareOdds: update.squareOdds ?? null,
+    realtimeOdds: update.realtimeOdds ?? null,
+    pendingFinalScore: update.pendingFinalScore ?? null,
+    error: typeof update.error === "string" ? update.error : null,
+  };
+};
+
+/**
+ * Follows the server's live feed for a board: the latest update on connect,
+ * then one per poll. EventSource reconnects on its own after a dropped
+ * connection, and the server sends the latest update again when it does.
+ */
+export const subscribeToSharedLiveFeed = (
+  boardId: string,
+  onUpdate: (update: LiveFeedUpdate) => void,
+): (() => void) => {
+  const stream = new EventSource(
+    `${SQLITE_BOARD_STATE_API}/${encodeURIComponent(boardId)}/live`,
+  );
+  stream.onmessage = (event) => {
+    try {
+      const update = toLiveFeedUpdate(JSON.parse(event.data));
+      if (update) onUpdate(update);
+    } catch (error) {
+      console.warn("Ignored malformed live feed event.", error);
+    }
+  };
+  return () => stream.close();
+};
@@ -1,6 +1,8 @@
 import { NFL_TEAMS } from "../constants";
 import type {
+  EspnPayloadKind,
   LiveCommentarySentiment,
+  LiveFeedProvider,
   LiveGameClock,
   LiveGameSnapshot,
   LiveGameStatus,
@@ -18,6 +20,9 @@ type FetchLiveGameSnapshotInput = {
   eventIdOverride?: string;
 };
 
+/** Returns the parsed JSON body of an ESPN request; swapped out to feed recorded payloads. */
+export type EspnPayloadFetcher = (kind: EspnPayloadKind, url: string) => Promise<unknown>;
+
 type TeamResolution = {
   code: string;
   name: string;
@@ -92,7 +97,9 @@ const fetchJson = async <T>(url: string): Promise<T> => {
   return (await response.json()) as T;
 };
 
-const resolveTeam = (teamNameOrCode: string): TeamResolution => {
+export const fetchEspnPayload: EspnPayloadFetcher = (_kind, url) => fetchJson<unknown>(url);
+
+export const resolveTeam = (teamNameOrCode: string): TeamResolution => {
   const normalized = normalizeText(teamNameOrCode);
 
   const matched =
@@ -111,7 +118,16 @@ const resolveTeam = (teamNameOrCode: string): TeamResolution => {
   };
 };
 
-const parseClockToSeconds = (clock: string | null): number | null => {
+/** The snapshot's score in the board's home/away order, which a neutral-site feed may flip. */
+export const getBoardOrderScores = (
+  snapshot: LiveGameSnapshot,
+  boardHomeTeamName: string,
+): { homeScore: number; awayScore: number } =>
+  resolveTeam(boardHomeTeamName).code === snapshot.awayTeamCode
+    ? { homeScore: snapshot.awayScore, awayScore: snapshot.homeScore }
+    : { homeScore: snapshot.homeScore, awayScore: snapshot.awayScore };
+
+export const parseClockToSeconds = (clock: string | null): number | null => {
   if (!clock) return null;
   const match = /^(\d{1,2}):(\d{2})$/.exec(clock.trim());
   if (!match) return null;
@@ -139,7 +155,7 @@ const mapStatus = (state: string | null, detail: string): LiveGameStatus => {
   return "unknown";
 };
 
-const calculateRemainingGameSeconds = (
+export const calculateRemainingGameSeconds = (
   status: LiveGameStatus,
   period: number,
   secondsInPeriod: number | null,
@@ -497,6 +513,7 @@ export const getLivePollIntervalMs = (snapshot: LiveGameSnapshot | null): number
 
 export const fetchLiveGameSnapshot = async (
   input: FetchLiveGameSnapshotInput,
+  fetchPayload: EspnPayloadFetcher = fetchEspnPayload,
 ): Promise<LiveGameSnapshot | null> => {
   const homeTeam = resolveTeam(input.homeTeamName);
   const awayTeam = resolveTeam(input.awayTeamName);
@@ -513,7 +530,7 @@ export const fetchLiveGameSnapshot = async (
 
   for (const scoreboardUrl of scoreboardUrls) {
     try {
-      const scoreboardPayload = await fetchJson<unknown>(scoreboardUrl);
+      const scoreboardPayload = await fetchPayload("scoreboard", scoreboardUrl);
       core = findEventInScoreboard(
         scoreboardPayload,
         homeTeam.code,
@@ -532,7 +549,7 @@ export const fetchLiveGameSnapshot = async (
   let summaryPayload: unknown | null = null;
 
   try {
-    summaryPayload = await fetchJson<unknown>(ESPN_SUMMARY_URL(eventId));
+    summaryPayload = await fetchPayload("summary", ESPN_SUMMARY_URL(eventId));
     const parsedFromSummary = parseSummaryCore(summaryPayload, homeTeam.code, awayTeam.code);
     if (parsedFromSummary) {
       core = parsedFromSummary;
@@ -582,3 +599,20 @@ export const fetchLiveGameSnapshot = async (
     sentiment,
   };
 };
+
+export const createEspnLiveFeedProvider = (
+  fetchPayload: EspnPayloadFetcher = fetchEspnPayload,
+): LiveFeedProvider => ({
+  id: "espn",
+  fetchSnapshot: (query) =>
+    fetchLiveGameSnapshot(
+      {
+        homeTeamName: query.homeTeamName,
+        awayTeamName: query.awayTeamName,
+        gameDate: query.gameDate,
+        eventIdOverride: query.eventId,
+      },
+      fetchPayload,
+    ),
+  getPollIntervalMs: getLivePollIntervalMs,
+});
@@ -0,0 +1,161 @@
+import type {
+  LiveFeedQuery,
+  LiveGameSnapshot,
+  LiveSession,
+  LiveSessionEntry,
+} from "../types";
+import type { EspnPayloadFetcher } from "./liveGameFeedService";
+import { fetchEspnPayload, fetchLiveGameSnapshot } from "./liveGameFeedService";
+
+export const LIVE_SESSION_FORMAT = "sb-lx-espn-session";
+export const LIVE_SESSION_VERSION = 1;
+
+export type LiveSessionRecorder = {
+  /** Drop-in for the ESPN fetcher that logs every response it returns. */
+  fetchPayload: EspnPayloadFetcher;
+  getSession: () => LiveSession;
+};
+
+/**
+ * Records what the ESPN feed returns, request by request. A response that
+ * matches the previous one for the same URL is logged as unchanged, which
+ * keeps hours of polling down to the payloads that moved.
+ */
+export const createLiveSessionRecorder = (
+  query: LiveFeedQuery,
+  onChange: (entryCount: number) => void,
+): LiveSessionRecorder => {
+  const startedAt = new Date().toISOString();
+  const entries: LiveSessionEntry[] = [];
+  const lastPayloadText = new Map<string, string>();
+
+  const record = (entry: LiveSessionEntry) => {
+    entries.push(entry);
+    onChange(entries.length);
+  };
+
+  return {
+    fetchPayload: async (kind, url) => {
+      const at = new Date().toISOString();
+      try {
+        const payload = await fetchEspnPayload(kind, url);
+        const text = JSON.stringify(payload);
+        if (lastPayloadText.get(url) === text) {
+          record({ at, kind, url, unchanged: true });
+        } else {
+          lastPayloadText.set(url, text);
+          record({ at, kind, url, payload });
+        }
+        return payload;
+      } catch (error) {
+        record({
+          at,
+          kind,
+          url,
+          error: error instanceof Error ? error.message : "Request failed",
+        });
+        throw error;
+      }
+    },
+    getSession: () => ({
+      format: LIVE_SESSION_FORMAT,
+      version: LIVE_SESSION_VERSION,
+      startedAt,
+      query,
+      entries: [...entries],
+    }),
+  };
+};
+
+export const getLiveSessionFilename = (boardId: string, session: LiveSession): string =>
+  `${boardId}-espn-session-${session.startedAt.slice(0, 19).replace(/[:T]/g, "-")}.json`;
+
+/** Reads a saved session file; throws a message meant for the admin. */
+export const parseLiveSession = (text: string): LiveSession => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error("This file is not valid JSON.");
+  }
+  const session = value as Partial<LiveSession> | null;
+  if (!session || typeof session !== "object" || session.format !== LIVE_SESSION_FORMAT) {
+    throw new Error("This file is not a recorded ESPN session.");
+  }
+  if (typeof session.version !== "number" || session.version > LIVE_SESSION_VERSION) {
+    throw new Error("This session was recorded by a newer version of the app.");
+  }
+  const query = session.query;
+  if (
+    !query ||
+    typeof query.homeTeamName !== "string" ||
+    typeof query.awayTeamName !== "string"
+  ) {
+    throw new Error("This session does not say which game it recorded.");
+  }
+  const entries = (Array.isArray(session.entries) ? session.entries : []).filter(
+    (entry): entry is LiveSessionEntry =>
+      Boolean(entry) &&
+      (entry.kind === "scoreboard" || entry.kind === "summary") &&
+      typeof entry.url === "string" &&
+      !Number.isNaN(Date.parse(entry.at)),
+  );
+  if (entries.length === 0) {
+    throw new Error("This session has no recorded requests.");
+  }
+  entries.sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+  return {
+    format: LIVE_SESSION_FORMAT,
+    version: session.version,
+    startedAt: typeof session.startedAt === "string" ? session.startedAt : entries[0].at,
+    query,
+    entries,
+  };
+};
+
+export const getLiveSessionDurationMs = (session: LiveSession): number => {
+  const { entries } = session;
+  return Date.parse(entries[entries.length - 1].at) - Date.parse(entries[0].at);
+};
+
+/** The last entry recorded at or before `positionMs` into the session, or -1 before the first. */
+export const getLiveSessionEntryIndex = (session: LiveSession, positionMs: number): number => {
+  const cutoff = Date.parse(session.entries[0].at) + positionMs;
+  let index = -1;
+  while (
+    index + 1 < session.entries.length &&
+    Date.parse(session.entries[index + 1].at) <= cutoff
+  ) {
+    index += 1;
+  }
+  return index;
+};
+
+/**
+ * Rebuilds the snapshot the live feed would have produced right after entry
+ * `entryIndex`, answering each request with the latest response recorded for
+ * that URL. Requests that failed at the time fail again.
+ */
+export const replayLiveSession = (
+  session: LiveSession,
+  entryIndex: number,
+): Promise<LiveGameSnapshot | null> =>
+  fetchLiveGameSnapshot(
+    {
+      homeTeamName: session.query.homeTeamName,
+      awayTeamName: session.query.awayTeamName,
+      gameDate: session.query.gameDate,
+      eventIdOverride: session.query.eventId,
+    },
+    async (kind, url) => {
+      let isLatest = true;
+      for (let index = entryIndex; index >= 0; index -= 1) {
+        const entry = session.entries[index];
+        if (entry.kind !== kind || entry.url !== url) continue;
+        if (isLatest && entry.error !== undefined) throw new Error(entry.error);
+        isLatest = false;
+        if (entry.payload !== undefined) return entry.payload;
+      }
+      throw new Error(`No ${kind} response recorded yet for ${url}`);
+    },
+  );
@@ -0,0 +1,31 @@
+import type { BoardStore } from "../types";
+import { getBoardStorageKey, getLegacyBoardStorageKey } from "./boardDirectoryService";
+
+/**
+ * This browser's localStorage, used when no shared backend is configured.
+ * There is only ever one writer, so every save succeeds and revisions only
+ * count saves since the board was opened.
+ */
+export const createLocalStorageBoardStore = (): BoardStore => ({
+  isShared: false,
+
+  load: async (boardId) => {
+    try {
+      const legacyKey = getLegacyBoardStorageKey(boardId);
+      const raw =
+        window.localStorage.getItem(getBoardStorageKey(boardId)) ??
+        (legacyKey ? window.localStorage.getItem(legacyKey) : null);
+      return raw ? { data: JSON.parse(raw), revision: 0 } : null;
+    } catch (error) {
+      console.warn("Failed to load saved board state.", error);
+      return null;
+    }
+  },
+
+  save: async (boardId, { nextState, baseRevision }) => {
+    window.localStorage.setItem(getBoardStorageKey(boardId), JSON.stringify(nextState));
+    return { status: "saved", revision: baseRevision + 1 };
+  },
+
+  subscribe: () => () => undefined,
+});
@@ -0,0 +1,264 @@
+import type {
+  LiveFeedProvider,
+  LiveFeedQuery,
+  LiveGameSnapshot,
+  LiveGameStatus,
+  LivePlayEvent,
+} from "../types";
+import {
+  calculateRemainingGameSeconds,
+  createEspnLiveFeedProvider,
+  parseClockToSeconds,
+  resolveTeam,
+} from "./liveGameFeedService";
+import {
+  analyzeCommentarySentiment,
+  scoreCommentaryText,
+} from "./liveSentimentService";
+
+export const MOCK_FEED_FORMAT = "sb-lx-live-feed";
+
+const DEFAULT_FRAME_INTERVAL_MS = 3_000;
+const MIN_FRAME_INTERVAL_MS = 250;
+const MAX_PLAY_EVENTS = 160;
+
+const LIVE_GAME_STATUSES = new Set<LiveGameStatus>([
+  "pregame",
+  "in_progress",
+  "halftime",
+  "final",
+  "postponed",
+  "unknown",
+]);
+
+type ScriptedPlay = {
+  text: string;
+  team?: "home" | "away" | null;
+  scoring?: boolean;
+  penalty?: boolean;
+  turnover?: boolean;
+  explosive?: boolean;
+};
+
+/** Only what changed since the previous frame; everything else carries over. */
+type ScriptedFrame = {
+  status?: LiveGameStatus;
+  statusDetail?: string;
+  homeScore?: number;
+  awayScore?: number;
+  period?: number;
+  clock?: string;
+  plays?: ScriptedPlay[];
+};
+
+/** Raw ESPN payloads, read by the same parser as the live feed. */
+type RecordedFrame = {
+  scoreboard?: unknown;
+  summary?: unknown;
+};
+
+type MockFeedFrame = { snapshot: ScriptedFrame } | RecordedFrame;
+
+type MockFeed = {
+  intervalMs: number;
+  loop: boolean;
+  frames: MockFeedFrame[];
+};
+
+const asObject = (value: unknown): Record<string, unknown> | null =>
+  value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+
+const isScriptedFrame = (frame: MockFeedFrame): frame is { snapshot: ScriptedFrame } =>
+  "snapshot" in frame;
+
+const parseMockFeed = (value: unknown, url: string): MockFeed => {
+  const root = asObject(value);
+  if (root?.format !== MOCK_FEED_FORMAT) {
+    throw new Error(`${url} is not a mock live feed file.`);
+  }
+  const frames = Array.isArray(root.frames) ? root.frames.map(asObject) : [];
+  if (frames.length === 0 || frames.some((frame) => frame === null)) {
+    throw new Error(`${url} needs a non-empty list of frames.`);
+  }
+  frames.forEach((frame, index) => {
+    const snapshot = frame && "snapshot" in frame ? asObject(frame.snapshot) : null;
+    if (frame && "snapshot" in frame && !snapshot) {
+      throw new Error(`Frame ${index + 1} in ${url} has an unreadable snapshot.`);
+    }
+    const status = snapshot?.status;
+    if (status !== undefined && !LIVE_GAME_STATUSES.has(status as LiveGameStatus)) {
+      throw new Error(`Frame ${index + 1} in ${url} has an unknown status.`);
+    }
+  });
+  const intervalMs =
+    typeof root.intervalMs === "number" ? root.intervalMs : DEFAULT_FRAME_INTERVAL_MS;
+  return {
+    intervalMs: Math.max(MIN_FRAME_INTERVAL_MS, intervalMs),
+    loop: root.loop === true,
+    frames: frames as MockFeedFrame[],
+  };
+};
+
+const describeStatus = (status: LiveGameStatus, period: number, clock: string): string => {
+  switch (status) {
+    case "pregame":
+      return "Scheduled";
+    case "in_progress": {
+      if (period > 4) return `OT ${clock}`;
+      const suffix = ["st", "nd", "rd", "th"][period - 1] ?? "th";
+      return `${clock} - ${period}${suffix} Quarter`;
+    }
+    case "halftime":
+      return "Halftime";
+    case "final":
+      return period > 4 ? "Final/OT" : "Final";
+    case "postponed":
+      return "Postponed";
+    case "unknown":
+      return "Live status unavailable";
+  }
+};
+
+/** Applies the scripted frames in order, starting from a scoreless pregame. */
+const buildScriptedSnapshot = (
+  frames: MockFeedFrame[],
+  query: LiveFeedQuery,
+): LiveGameSnapshot => {
+  const homeTeam = resolveTeam(query.homeTeamName);
+  const awayTeam = resolveTeam(query.awayTeamName);
+  let status: LiveGameStatus = "pregame";
+  let statusDetail: string | null = null;
+  let homeScore = 0;
+  let awayScore = 0;
+  let period = 1;
+  let clock = "15:00";
+  const plays: LivePlayEvent[] = [];
+
+  frames.forEach((frame, frameIndex) => {
+    if (!isScriptedFrame(frame)) return;
+    const next = frame.snapshot;
+    status = next.status ?? status;
+    // A detail only describes the frame it was written for.
+    statusDetail = next.statusDetail ?? null;
+    homeScore = next.homeScore ?? homeScore;
+    awayScore = next.awayScore ?? awayScore;
+    period = next.period ?? period;
+    clock = next.clock ?? clock;
+    (next.plays ?? []).forEach((play, playIndex) => {
+      plays.push({
+        id: `mock-${frameIndex}-${playIndex}`,
+        text: play.text,
+        teamCode:
+          play.team === "home" ? homeTeam.code : play.team === "away" ? awayTeam.code : null,
+        period,
+        clock,
+        isScoringPlay: play.scoring ?? false,
+        isPenalty: play.penalty ?? false,
+        isTurnover: play.turnover ?? false,
+        isExplosivePlay: play.explosive ?? false,
+        sentimentScore: scoreCommentaryText(play.text),
+      });
+    });
+  });
+
+  const secondsRemainingInPeriod = parseClockToSeconds(clock);
+  const recentPlays = plays.slice(-MAX_PLAY_EVENTS);
+  return {
+    eventId: query.eventId ?? `MOCK-${homeTeam.code}-${awayTeam.code}`,
+    fetchedAt: new Date().toISOString(),
+    status,
+    statusDetail: statusDetail ?? describeStatus(status, period, clock),
+    homeTeamCode: homeTeam.code,
+    awayTeamCode: awayTeam.code,
+    homeTeamName: homeTeam.name,
+    awayTeamName: awayTeam.name,
+    homeScore,
+    awayScore,
+    clock: {
+      period,
+      displayClock: clock,
+      secondsRemainingInPeriod,
+      secondsRemainingGame: calculateRemainingGameSeconds(
+        status,
+        period,
+        secondsRemainingInPeriod,
+      ),
+    },
+    plays: recentPlays,
+    sentiment: analyzeCommentarySentiment(
+      recentPlays.map((play) => ({ text: play.text, teamCode: play.teamCode })),
+      {
+        homeTeamCode: homeTeam.code,
+        awayTeamCode: awayTeam.code,
+        homeTeamName: homeTeam.name,
+        awayTeamName: awayTeam.name,
+      },
+    ),
+  };
+};
+
+/** Returns the parsed JSON of a mock feed file. */
+export type MockFeedLoader = (url: string) => Promise<unknown>;
+
+export const fetchMockFeed: MockFeedLoader = async (url) => {
+  const response = await fetch(url, { cache: "no-store" });
+  if (!response.ok) {
+    throw new Error(`Mock live feed request failed (${response.status}) for ${url}`);
+  }
+  return response.json();
+};
+
+/**
+ * Serves a game from a JSON file instead of ESPN, one frame per poll, so the
+ * realtime pipeline runs without a network. The URL can point at a file in
+ * `public/` or at any HTTP endpoint that returns the same format. Frames are
+ * either scripted snapshots or recorded ESPN scoreboard/summary payloads.
+ */
+export const createMockLiveFeedProvider = (
+  url: string,
+  loadMockFeed: MockFeedLoader = fetchMockFeed,
+): LiveFeedProvider => {
+  let feedPromise: Promise<MockFeed> | null = null;
+  let intervalMs = DEFAULT_FRAME_INTERVAL_MS;
+  let nextFrame = 0;
+
+  const loadFeed = () => {
+    if (!feedPromise) {
+      feedPromise = loadMockFeed(url)
+        .then((value) => parseMockFeed(value, url))
+        .then((feed) => {
+          intervalMs = feed.intervalMs;
+          return feed;
+        });
+      // Retry on the next poll after a failed load.
+      feedPromise.catch(() => {
+        feedPromise = null;
+      });
+    }
+    return feedPromise;
+  };
+
+  return {
+    id: "mock",
+    fetchSnapshot: async (query) => {
+      const feed = await loadFeed();
+      const index = feed.loop
+        ? nextFrame % feed.frames.length
+        : Math.min(nextFrame, feed.frames.length - 1);
+      nextFrame += 1;
+      const frame = feed.frames[index];
+      if (isScriptedFrame(frame)) {
+        return buildScriptedSnapshot(feed.frames.slice(0, index + 1), query);
+      }
+      return createEspnLiveFeedProvider(async (kind) => {
+        if (frame[kind] === undefined) {
+          throw new Error(`Frame ${index + 1} in ${url} has no ${kind} payload.`);
+        }
+        return frame[kind];
+      }).fetchSnapshot(query);
+    },
+    getPollIntervalMs: () => intervalMs,
+  };
+};
@@ -0,0 +1,144 @@
+import type {
+  GridCell,
+  PaymentLedgerEntry,
+  PaymentMethod,
+  PayoutAward,
+  PlayerPayment,
+} from "../types";
+import { toCents } from "./payoutService";
+
+type BuildPaymentLedgerInput = {
+  grid: GridCell[][];
+  pricePerSquare: number;
+  payments: PlayerPayment[];
+  awards: PayoutAward[];
+};
+
+export const PAYMENT_METHODS: PaymentMethod[] = ["cash", "venmo", "paypal", "zelle", "other"];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: "Cash",
+  venmo: "Venmo",
+  paypal: "PayPal",
+  zelle: "Zelle",
+  other: "Other",
+};
+
+/** Keeps letters and digits of any script, so "José" and "李" get keys of their own. */
+export const getPlayerKey = (playerName: string): string =>
+  playerName
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+export const buildPaymentLedger = ({
+  grid,
+  pricePerSquare,
+  payments,
+  awards,
+}: BuildPaymentLedgerInput): PaymentLedgerEntry[] => {
+  const players = new Map<string, { playerName: string; squareCount: number; amountWon: number }>();
+  const getPlayer = (playerName: string) => {
+    const key = getPlayerKey(playerName);
+    if (!key) return null;
+    const existing = players.get(key);
+    if (existing) return existing;
+    const created = { playerName: playerName.trim(), squareCount: 0, amountWon: 0 };
+    players.set(key, created);
+    return created;
+  };
+
+  // Pending squares count toward the pot, so they are owed as well.
+  grid.flat().forEach((cell) => {
+    if (cell.status === "empty" || !cell.player) return;
+    const player = getPlayer(cell.player);
+    if (player) player.squareCount += 1;
+  });
+  awards.forEach((award) => {
+    if (!award.playerName) return;
+    const player = getPlayer(award.playerName);
+    if (player) player.amountWon += award.amount;
+  });
+  // Keep paid players who lost their squares so refunds are not forgotten.
+  payments.forEach((payment) => {
+    if (payment.amountPaid > 0) getPlayer(payment.playerName);
+  });
+
+  const paymentsByKey = new Map(payments.map((payment) => [payment.playerKey, payment]));
+
+  return Array.from(players.entries())
+    .map(([playerKey, player]) => {
+      const payment = paymentsByKey.get(playerKey);
+      const amountOwed = toCents(player.squareCount * pricePerSquare);
+      const amountPaid = toCents(payment?.amountPaid ?? 0);
+      const balanceDue = toCents(amountOwed - amountPaid);
+      const amountWon = toCents(player.amountWon);
+      return {
+        playerKey,
+        playerName: player.playerName,
+        squareCount: player.squareCount,
+        amountOwed,
+        amountPaid,
+        balanceDue,
+        amountWon,
+        netSettlement: toCents(amountWon - balanceDue),
+        method: payment?.method ?? null,
+        notes: payment?.notes ?? "",
+      };
+    })
+    .sort((left, right) => left.playerName.localeCompare(right.playerName));
+};
+
+export const upsertPlayerPayment = (
+  payments: PlayerPayment[],
+  update: Omit<PlayerPayment, "playerKey" | "updatedAt">,
+): PlayerPayment[] => {
+  const playerKey = getPlayerKey(update.playerName);
+  if (!playerKey) return payments;
+  const next: PlayerPayment = {
+    ...update,
+    playerKey,
+    amountPaid: toCents(Math.max(0, update.amountPaid)),
+    notes: update.notes.trim(),
+    updatedAt: new Date().toISOString(),
+  };
+  return [...payments.filter((payment) => payment.playerKey !== playerKey), next];
+};
+
+const CSV_HEADERS = [
+  "Player",
+  "Squares",
+  "Owed",
+  "Paid",
+  "Balance Due",
+  "Won",
+  "Net Settlement",
+  "Method",
+  "Notes",
+];
+
+export const toCsvText = (value: string): string => {
+  // Stop spreadsheet apps from evaluating player-entered text as a formula.
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const buildPaymentLedgerCsv = (entries: PaymentLedgerEntry[]): string =>
+  [
+    CSV_HEADERS.join(","),
+    ...entries.map((entry) =>
+      [
+        toCsvText(entry.playerName),
+        String(entry.squareCount),
+        entry.amountOwed.toFixed(2),
+        entry.amountPaid.toFixed(2),
+        entry.balanceDue.toFixed(2),
+        entry.amountWon.toFixed(2),
+        entry.netSettlement.toFixed(2),
+        entry.method ? PAYMENT_METHOD_LABELS[entry.method] : "",
+        toCsvText(entry.notes),
+      ].join(","),
+    ),
+  ].join("\r\n");
@@ -0,0 +1,502 @@
+import type {
+  BoardRowTeam,
+  BonusSquare,
+  GameResult,
+  GridCell,
+  PayoutAward,
+  PayoutAwardKind,
+  PayoutBreakdown,
+  PayoutPeriod,
+  PayoutRoundingMode,
+  PayoutRules,
+  PayoutSettlement,
+  UnclaimedPayoutOutcome,
+  UnclaimedPrizeRule,
+  UnclaimedResolution,
+} from "../types";
+
+type ResolvePeriodResultInput = {
+  period: PayoutPeriod;
+  homeScore: number;
+  awayScore: number;
+  rowLabels: number[];
+  colLabels: number[];
+  grid: GridCell[][];
+  rules: PayoutRules;
+  rowTeam: BoardRowTeam;
+};
+
+export const PAYOUT_PERIODS: PayoutPeriod[] = ["q1", "halftime", "q3", "final"];
+
+export const PAYOUT_PERIOD_LABELS: Record<PayoutPeriod, string> = {
+  q1: "End of Q1",
+  halftime: "Halftime",
+  q3: "End of Q3",
+  final: "Final",
+};
+
+export const PAYOUT_ROUNDING_LABELS: Record<PayoutRoundingMode, string> = {
+  cents: "Exact (to the cent)",
+  whole_dollar: "Round down to $1",
+  five_dollars: "Round down to $5",
+};
+
+export const DEFAULT_PAYOUT_RULES: PayoutRules = {
+  periodPercentages: {
+    q1: 20,
+    halftime: 20,
+    q3: 20,
+    final: 40,
+  },
+  houseCutPercent: 0,
+  houseCutLabel: "House",
+  fixedPrizes: {
+    q1: 0,
+    halftime: 0,
+    q3: 0,
+    final: 0,
+  },
+  rounding: "cents",
+  bonusPrizes: {
+    reverseEnabled: false,
+    reverseSharePercent: 10,
+    neighborsEnabled: false,
+    neighborSharePercent: 10,
+    neighborsIncludeDiagonals: false,
+  },
+  unclaimedRule: "house",
+};
+
+export const UNCLAIMED_PRIZE_RULE_LABELS: Record<UnclaimedPrizeRule, string> = {
+  rollover: "Roll into the next period",
+  split_all_owners: "Split across all square owners",
+  nearest_claimed: "Give to the nearest claimed square",
+  house: "Return to the house",
+};
+
+export const PAYOUT_AWARD_KIND_LABELS: Record<PayoutAwardKind, string> = {
+  winner: "Winner",
+  reverse: "Reverse",
+  neighbor: "Neighbor",
+  redistribution: "Unclaimed share",
+};
+
+const PERCENTAGE_TOLERANCE = 0.001;
+
+const ROUNDING_STEP: Record<PayoutRoundingMode, number> = {
+  cents: 0.01,
+  whole_dollar: 1,
+  five_dollars: 5,
+};
+
+export const toCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+const floorToCents = (amount: number): number => Math.floor(amount * 100 + 1e-6) / 100;
+
+const roundDownToStep = (amount: number, mode: PayoutRoundingMode): number => {
+  const step = ROUNDING_STEP[mode];
+  return toCents(Math.floor((amount + 1e-9) / step) * step);
+};
+
+const ORTHOGONAL_OFFSETS: Array<[number, number]> = [
+  [-1, 0],
+  [1, 0],
+  [0, -1],
+  [0, 1],
+];
+
+const DIAGONAL_OFFSETS: Array<[number, number]> = [
+  [-1, -1],
+  [-1, 1],
+  [1, -1],
+  [1, 1],
+];
+
+const toBonusSquare = (
+  grid: GridCell[][],
+  row: number,
+  col: number,
+): BonusSquare | null => {
+  const cell = grid[row]?.[col];
+  if (!cell) return null;
+  return {
+    row,
+    col,
+    squareNumber: row * 10 + col + 1,
+    playerName: cell.player ? cell.player.trim() : null,
+    status: cell.status,
+  };
+};
+
+const findReverseSquare = (
+  input: ResolvePeriodResultInput,
+  rowDigit: number,
+  colDigit: number,
+): BonusSquare | null => {
+  if (rowDigit === colDigit) return null;
+  const row = input.rowLabels.findIndex((label) => label === colDigit);
+  const col = input.colLabels.findIndex((label) => label === rowDigit);
+  if (row === -1 || col === -1) return null;
+  return toBonusSquare(input.grid, row, col);
+};
+
+const findNeighborSquares = (
+  grid: GridCell[][],
+  row: number,
+  col: number,
+  includeDiagonals: boolean,
+): BonusSquare[] => {
+  const offsets = includeDiagonals
+    ? [...ORTHOGONAL_OFFSETS, ...DIAGONAL_OFFSETS]
+    : ORTHOGONAL_OFFSETS;
+  return offsets
+    .map(([rowOffset, colOffset]) => toBonusSquare(grid, row + rowOffset, col + colOffset))
+    .filter((square): square is BonusSquare => square !== null)
+    .sort((left, right) => left.squareNumber - right.squareNumber);
+};
+
+const findClaimedSquares = (grid: GridCell[][]): BonusSquare[] => {
+  const squares: BonusSquare[] = [];
+  for (let row = 0; row < grid.length; row += 1) {
+    for (let col = 0; col < grid[row].length; col += 1) {
+      const square = toBonusSquare(grid, row, col);
+      if (square?.playerName) squares.push(square);
+    }
+  }
+  return squares;
+};
+
+const findNearestClaimedSquare = (
+  grid: GridCell[][],
+  row: number,
+  col: number,
+): BonusSquare | null => {
+  let nearest: BonusSquare | null = null;
+  let nearestDistance = Number.POSITIVE_INFINITY;
+  // Manhattan distance on the board; ties go to the lower square number.
+  for (const square of findClaimedSquares(grid)) {
+    const distance = Math.abs(square.row - row) + Math.abs(square.col - col);
+    if (distance < nearestDistance) {
+      nearest = square;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+};
+
+const resolveUnclaimedPrize = (
+  input: ResolvePeriodResultInput,
+  row: number,
+  col: number,
+): UnclaimedResolution => {
+  const configuredRule = input.rules.unclaimedRule;
+  const resolution = (
+    appliedRule: UnclaimedPrizeRule,
+    recipients: BonusSquare[] = [],
+    rolloverTo: PayoutPeriod | null = null,
+  ): UnclaimedResolution => ({ configuredRule, appliedRule, rolloverTo, recipients });
+
+  let rule = configuredRule;
+  if (rule === "rollover") {
+    const nextPeriod = PAYOUT_PERIODS[PAYOUT_PERIODS.indexOf(input.period) + 1];
+    if (nextPeriod) return resolution("rollover", [], nextPeriod);
+    // Nothing left to roll into after the final, so share it with the owners instead.
+    rule = "split_all_owners";
+  }
+
+  if (rule === "split_all_owners") {
+    const owners = findClaimedSquares(input.grid);
+    return owners.length > 0 ? resolution(rule, owners) : resolution("house");
+  }
+
+  if (rule === "nearest_claimed") {
+    const nearest = findNearestClaimedSquare(input.grid, row, col);
+    return nearest ? resolution(rule, [nearest]) : resolution("house");
+  }
+
+  return resolution("house");
+};
+
+export const getScoreLastDigit = (score: number): number => ((score % 10) + 10) % 10;
+
+export const resolvePeriodResult = (
+  input: ResolvePeriodResultInput,
+): GameResult | null => {
+  const homeLastDigit = getScoreLastDigit(input.homeScore);
+  const awayLastDigit = getScoreLastDigit(input.awayScore);
+  const rowDigit = input.rowTeam === "home" ? homeLastDigit : awayLastDigit;
+  const colDigit = input.rowTeam === "home" ? awayLastDigit : homeLastDigit;
+
+  const winnerRow = input.rowLabels.findIndex((label) => label === rowDigit);
+  const winnerCol = input.colLabels.findIndex((label) => label === colDigit);
+  if (winnerRow === -1 || winnerCol === -1) return null;
+
+  const winningCell = input.grid[winnerRow]?.[winnerCol];
+  if (!winningCell) return null;
+
+  const { bonusPrizes } = input.rules;
+
+  return {
+    period: input.period,
+    homeScore: input.homeScore,
+    awayScore: input.awayScore,
+    homeLastDigit,
+    awayLastDigit,
+    winnerRow,
+    winnerCol,
+    winnerSquareNumber: winnerRow * 10 + winnerCol + 1,
+    winnerName: winningCell.player ? winningCell.player.trim() : null,
+    winnerStatus: winningCell.status,
+    reverseWinner: bonusPrizes.reverseEnabled
+      ? findReverseSquare(input, rowDigit, colDigit)
+      : null,
+    neighborWinners: bonusPrizes.neighborsEnabled
+      ? findNeighborSquares(
+          input.grid,
+          winnerRow,
+          winnerCol,
+          bonusPrizes.neighborsIncludeDiagonals,
+        )
+      : [],
+    unclaimedResolution: winningCell.player?.trim()
+      ? null
+      : resolveUnclaimedPrize(input, winnerRow, winnerCol),
+    submittedAt: new Date().toISOString(),
+  };
+};
+
+export const sortPeriodResults = (results: GameResult[]): GameResult[] =>
+  [...results].sort(
+    (left, right) =>
+      PAYOUT_PERIODS.indexOf(left.period) - PAYOUT_PERIODS.indexOf(right.period),
+  );
+
+export const upsertPeriodResult = (
+  results: GameResult[],
+  next: GameResult,
+): GameResult[] =>
+  sortPeriodResults([
+    ...results.filter((result) => result.period !== next.period),
+    next,
+  ]);
+
+export const getPayoutPercentageTotal = (rules: PayoutRules): number =>
+  PAYOUT_PERIODS.reduce(
+    (sum, period) => sum + (rules.periodPercentages[period] ?? 0),
+    0,
+  );
+
+export const validatePayoutRules = (rules: PayoutRules): string[] => {
+  const errors: string[] = [];
+
+  for (const period of PAYOUT_PERIODS) {
+    const percentage = rules.periodPercentages[period];
+    if (!Number.isFinite(percentage) || percentage < 0 || percentage > 100) {
+      errors.push(`${PAYOUT_PERIOD_LABELS[period]} percentage must be between 0 and 100.`);
+    }
+    const fixedPrize = rules.fixedPrizes[period];
+    if (!Number.isFinite(fixedPrize) || fixedPrize < 0) {
+      errors.push(`${PAYOUT_PERIOD_LABELS[period]} fixed prize cannot be negative.`);
+    }
+  }
+
+  const total = getPayoutPercentageTotal(rules);
+  if (Math.abs(total - 100) > PERCENTAGE_TOLERANCE) {
+    errors.push(`Period percentages must add up to 100% (currently ${toCents(total)}%).`);
+  }
+
+  if (
+    !Number.isFinite(rules.houseCutPercent) ||
+    rules.houseCutPercent < 0 ||
+    rules.houseCutPercent >= 100
+  ) {
+    errors.push("House cut must be at least 0% and less than 100%.");
+  }
+
+  if (!rules.houseCutLabel.trim()) {
+    errors.push("House cut needs a label (e.g. House or Charity).");
+  }
+
+  const { bonusPrizes } = rules;
+  const reverseShare = bonusPrizes.reverseEnabled ? bonusPrizes.reverseSharePercent : 0;
+  const neighborShare = bonusPrizes.neighborsEnabled
+    ? bonusPrizes.neighborSharePercent
+    : 0;
+  if (
+    !Number.isFinite(reverseShare) ||
+    !Number.isFinite(neighborShare) ||
+    reverseShare < 0 ||
+    neighborShare < 0
+  ) {
+    errors.push("Bonus prize shares cannot be negative.");
+  } else if (reverseShare + neighborShare >= 100) {
+    errors.push("Reverse and neighbor shares must leave part of each period for the winner.");
+  }
+
+  return errors;
+};
+
+export const computePayoutBreakdown = (
+  grossPot: number,
+  rules: PayoutRules,
+): PayoutBreakdown => {
+  const safePot = Math.max(0, Number.isFinite(grossPot) ? grossPot : 0);
+  const houseCut = toCents((safePot * Math.max(0, rules.houseCutPercent)) / 100);
+  const netPot = Math.max(0, safePot - houseCut);
+
+  const requestedFixedTotal = PAYOUT_PERIODS.reduce(
+    (sum, period) => sum + Math.max(0, rules.fixedPrizes[period] ?? 0),
+    0,
+  );
+  // Fixed prizes come off the top; if the pot cannot cover them, scale them down evenly.
+  const fixedScale =
+    requestedFixedTotal > netPot && requestedFixedTotal > 0
+      ? netPot / requestedFixedTotal
+      : 1;
+  const fixedPrizeTotal = toCents(requestedFixedTotal * fixedScale);
+  const distributablePot = Math.max(0, netPot - fixedPrizeTotal);
+
+  const periodPayouts = {} as Record<PayoutPeriod, number>;
+  let paidOut = 0;
+  for (const period of PAYOUT_PERIODS) {
+    const fixed = Math.max(0, rules.fixedPrizes[period] ?? 0) * fixedScale;
+    const share =
+      (distributablePot * Math.max(0, rules.periodPercentages[period] ?? 0)) / 100;
+    periodPayouts[period] = roundDownToStep(fixed + share, rules.rounding);
+    paidOut += periodPayouts[period];
+  }
+
+  return {
+    grossPot: safePot,
+    houseCut,
+    fixedPrizeTotal,
+    distributablePot,
+    periodPayouts,
+    roundingRemainder: toCents(Math.max(0, netPot - paidOut)),
+  };
+};
+
+export const computePayoutSettlement = (
+  results: GameResult[],
+  breakdown: PayoutBreakdown,
+  rules: PayoutRules,
+): PayoutSettlement => {
+  const { bonusPrizes } = rules;
+  const awards: PayoutAward[] = [];
+  const unclaimed: UnclaimedPayoutOutcome[] = [];
+  const rolledInByPeriod: Partial<Record<PayoutPeriod, number>> = {};
+
+  for (const result of sortPeriodResults(results)) {
+    const basePayout = breakdown.periodPayouts[result.period] ?? 0;
+    const rolledIn = rolledInByPeriod[result.period] ?? 0;
+    const reverseWinner = bonusPrizes.reverseEnabled ? result.reverseWinner : null;
+    const neighborWinners = bonusPrizes.neighborsEnabled ? result.neighborWinners : [];
+
+    const reverseAmount = reverseWinner
+      ? toCents((basePayout * bonusPrizes.reverseSharePercent) / 100)
+      : 0;
+    const neighborAmount =
+      neighborWinners.length > 0
+        ? floorToCents(
+            (basePayout * bonusPrizes.neighborSharePercent) / 100 / neighborWinners.length,
+          )
+        : 0;
+
+    // Unclaimed bonus squares fall back to the main winning square.
+    let bonusPaid = 0;
+    if (reverseWinner?.playerName) {
+      awards.push({
+        period: result.period,
+        kind: "reverse",
+        row: reverseWinner.row,
+        col: reverseWinner.col,
+        playerName: reverseWinner.playerName,
+        amount: reverseAmount,
+      });
+      bonusPaid += reverseAmount;
+    }
+    for (const neighbor of neighborWinners) {
+      if (!neighbor.playerName) continue;
+      awards.push({
+        period: result.period,
+        kind: "neighbor",
+        row: neighbor.row,
+        col: neighbor.col,
+        playerName: neighbor.playerName,
+        amount: neighborAmount,
+      });
+      bonusPaid += neighborAmount;
+    }
+
+    const winnerAmount = toCents(Math.max(0, basePayout + rolledIn - bonusPaid));
+
+    if (result.winnerName) {
+      awards.push({
+        period: result.period,
+        kind: "winner",
+        row: result.winnerRow,
+        col: result.winnerCol,
+        playerName: result.winnerName,
+        amount: winnerAmount,
+      });
+      continue;
+    }
+
+    const resolution = result.unclaimedResolution;
+    const appliedRule = resolution?.appliedRule ?? "house";
+    const recipients = resolution?.recipients ?? [];
+    let houseAmount = 0;
+
+    if (appliedRule === "rollover" && resolution?.rolloverTo) {
+      rolledInByPeriod[resolution.rolloverTo] = toCents(
+        (rolledInByPeriod[resolution.rolloverTo] ?? 0) + winnerAmount,
+      );
+    } else if (
+      (appliedRule === "split_all_owners" || appliedRule === "nearest_claimed") &&
+      recipients.length > 0
+    ) {
+      const share = floorToCents(winnerAmount / recipients.length);
+      for (const recipient of recipients) {
+        awards.push({
+          period: result.period,
+          kind: "redistribution",
+          row: recipient.row,
+          col: recipient.col,
+          playerName: recipient.playerName,
+          amount: share,
+        });
+      }
+      houseAmount = toCents(winnerAmount - share * recipients.length);
+    } else {
+      houseAmount = winnerAmount;
+    }
+
+    unclaimed.push({
+      period: result.period,
+      rule: appliedRule,
+      amount: winnerAmount,
+      rolloverTo: appliedRule === "rollover" ? resolution?.rolloverTo ?? null : null,
+      recipientCount: appliedRule === "house" ? 0 : recipients.length,
+      houseAmount,
+    });
+  }
+
+  return { awards, unclaimed, rolledInByPeriod };
+};
+
+export const sumAwardsForSquare = (
+  awards: PayoutAward[],
+  row: number,
+  col: number,
+): number =>
+  toCents(
+    awards
+      .filter((award) => award.row === row && award.col === col && award.playerName)
+      .reduce((sum, award) => sum + award.amount, 0),
+  );
+
+export const formatPayoutAmount = (amount: number): string =>
+  `$${amount.toLocaleString(undefined, {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 2,
+  })}`;
@@ -0,0 +1,75 @@
+import type { LiveGameSnapshot, PeriodScoreCapture } from "../types";
+import { getBoardOrderScores } from "./liveGameFeedService";
+
+/** Index 0 is the period that ends with the first quarter. */
+const CAPTURED_PERIODS: PeriodScoreCapture["period"][] = ["q1", "halftime", "q3"];
+
+/** Quarters the snapshot shows as over; a clock stopped at 0:00 ends its quarter. */
+const countCompletedQuarters = (snapshot: LiveGameSnapshot): number => {
+  switch (snapshot.status) {
+    case "halftime":
+      return 2;
+    case "final":
+      return 4;
+    case "in_progress": {
+      const { period, secondsRemainingInPeriod } = snapshot.clock;
+      return secondsRemainingInPeriod === 0 ? period : period - 1;
+    }
+    default:
+      return 0;
+  }
+};
+
+const isAtQuarterBreak = (snapshot: LiveGameSnapshot): boolean =>
+  snapshot.status === "halftime" ||
+  (snapshot.status === "in_progress" && snapshot.clock.secondsRemainingInPeriod === 0);
+
+/**
+ * Scores for the periods that ended between two snapshots of a game. When
+ * `next` has no scoring play after a boundary, its score is the boundary's
+ * score. Otherwise the feed skipped past it, and the last score seen before
+ * it is used and marked as not exact. Without a previous snapshot, only a
+ * boundary `next` is sitting on can be captured.
+ */
+export const capturePeriodScores = (
+  previous: LiveGameSnapshot | null,
+  next: LiveGameSnapshot,
+  boardHomeTeamName: string,
+): PeriodScoreCapture[] => {
+  const before = previous?.eventId === next.eventId ? previous : null;
+  const completed = Math.min(CAPTURED_PERIODS.length, countCompletedQuarters(next));
+  const completedBefore = before
+    ? countCompletedQuarters(before)
+    : countCompletedQuarters(next) - (isAtQuarterBreak(next) ? 1 : 0);
+
+  const captures: PeriodScoreCapture[] = [];
+  for (let quarter = completedBefore + 1; quarter <= completed; quarter += 1) {
+    const isExact = !next.plays.some(
+      (play) => play.isScoringPlay && play.period !== null && play.period > quarter,
+    );
+    const source = isExact ? next : before;
+    if (!source) continue;
+    captures.push({
+      period: CAPTURED_PERIODS[quarter - 1],
+      ...getBoardOrderScores(source, boardHomeTeamName),
+      capturedAt: next.fetchedAt,
+      source: "live_feed",
+      isExact,
+    });
+  }
+  return captures;
+};
+
+/** Adds captures for periods that have none yet; an earlier or corrected score is kept. */
+export const mergePeriodScores = (
+  existing: PeriodScoreCapture[],
+  captures: PeriodScoreCapture[],
+): PeriodScoreCapture[] => {
+  const added = captures.filter(
+    (capture) => !existing.some((score) => score.period === capture.period),
+  );
+  if (added.length === 0) return existing;
+  return [...existing, ...added].sort(
+    (a, b) => CAPTURED_PERIODS.indexOf(a.period) - CAPTURED_PERIODS.indexOf(b.period),
+  );
+};
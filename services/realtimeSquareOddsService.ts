@@ -1,4 +1,5 @@
 import type {
+  BoardRowTeam,
   DigitProbabilityMatrix,
   LiveFeatureVector,
   LiveGameSnapshot,
@@ -12,6 +13,7 @@ type BuildRealtimeSquareOddsInput = {
   snapshot: LiveGameSnapshot;
   rowLabels: number[];
   colLabels: number[];
+  rowTeam: BoardRowTeam;
 };
 
 const DIGIT_COUNT = 10;
@@ -59,6 +61,7 @@ const mapDigitMatrixToBoard = (
   digitMatrix: DigitProbabilityMatrix,
   rowLabels: number[],
   colLabels: number[],
+  rowTeam: BoardRowTeam,
 ): number[][] => {
   if (rowLabels.length !== DIGIT_COUNT || colLabels.length !== DIGIT_COUNT) {
     throw new Error("Expected 10 row labels and 10 column labels for realtime heatmap.");
@@ -76,7 +79,10 @@ const mapDigitMatrixToBoard = (
         throw new Error("Invalid column label while mapping realtime probabilities.");
       }
 
-      return digitMatrix[rowDigit][colDigit] * 100;
+      // Digit matrices are indexed [home][away].
+      return rowTeam === "home"
+        ? digitMatrix[rowDigit][colDigit] * 100
+        : digitMatrix[colDigit][rowDigit] * 100;
     });
   });
 };
@@ -715,7 +721,12 @@ export const buildRealtimeSquareOdds = (
   );
 
   const boardPercentages = finalizeBoardPercentages(
-    mapDigitMatrixToBoard(digitProbabilities, input.rowLabels, input.colLabels),
+    mapDigitMatrixToBoard(
+      digitProbabilities,
+      input.rowLabels,
+      input.colLabels,
+      input.rowTeam,
+    ),
   );
 
   const liveExpectationWeight = clamp(0.08 + liveBlendWeight * 0.92, 0.08, 1);
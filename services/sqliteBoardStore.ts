@@ -0,0 +1,82 @@
+import type { BoardStateSnapshot, BoardStore } from "../types";
+import { SQLITE_BOARD_STATE_API } from "./backendConfig";
+import { getAdminAuthHeaders } from "./adminAuthService";
+import { toBoardOpBatch, toBoardStateSnapshot } from "./boardStateService";
+
+const getBoardStateUrl = (boardId: string): string =>
+  `${SQLITE_BOARD_STATE_API}/${encodeURIComponent(boardId)}`;
+
+const loadSqliteBoardState = async (boardId: string): Promise<BoardStateSnapshot | null> => {
+  const response = await fetch(getBoardStateUrl(boardId));
+  if (!response.ok) {
+    throw new Error(`Local SQLite fetch failed with ${response.status}`);
+  }
+  return toBoardStateSnapshot(await response.json());
+};
+
+/** The SQLite API of the dev server or `server.ts`, followed live over Server-Sent Events. */
+export const createSqliteBoardStore = (): BoardStore => ({
+  isShared: true,
+
+  load: loadSqliteBoardState,
+
+  // The SQLite API replays the ops itself instead of trusting `nextState`.
+  save: async (boardId, { ops, baseRevision }) => {
+    const response = await fetch(`${getBoardStateUrl(boardId)}/ops`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...getAdminAuthHeaders() },
+      body: JSON.stringify({ ops, revision: baseRevision }),
+    });
+    if (response.status === 401) return { status: "unauthorized" };
+    const body = (await response.json().catch(() => ({}))) as {
+      data?: unknown;
+      revision?: number;
+      error?: string;
+    };
+    if (response.status === 409) {
+      return {
+        status: "conflict",
+        current: { data: body.data ?? null, revision: body.revision ?? 0 },
+      };
+    }
+    if (!response.ok || typeof body.revision !== "number") {
+      throw new Error(body.error ?? `Local SQLite save failed with ${response.status}`);
+    }
+    return { status: "saved", revision: body.revision };
+  },
+
+  subscribe: (boardId, listener) => {
+    let closed = false;
+    const reload = () => {
+      loadSqliteBoardState(boardId)
+        .then((snapshot) => {
+          if (!closed && snapshot) listener.onSnapshot(snapshot);
+        })
+        .catch((error) => {
+          console.warn("Failed to reload board from local SQLite.", error);
+        });
+    };
+
+    // The stream sends the current state on connect, then each saved batch of ops.
+    const stream = new EventSource(`${getBoardStateUrl(boardId)}/stream`);
+    stream.onmessage = (event) => {
+      try {
+        const message = JSON.parse(event.data);
+        const batch = toBoardOpBatch(message);
+        if (batch) {
+          if (!listener.onOps(batch)) reload();
+          return;
+        }
+        const snapshot = toBoardStateSnapshot(message);
+        if (snapshot) listener.onSnapshot(snapshot);
+      } catch (error) {
+        console.warn("Ignored malformed board stream event.", error);
+      }
+    };
+
+    return () => {
+      closed = true;
+      stream.close();
+    };
+  },
+});
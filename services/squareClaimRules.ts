@@ -0,0 +1,114 @@
+import type { GridCell } from "../types";
+
+type SquareCoords = {
+  row: number;
+  col: number;
+};
+
+export type ClaimDecision = "approve" | "reject";
+
+export const DEFAULT_CLAIM_HOLD_MINUTES = 60;
+export const MAX_CLAIM_HOLD_MINUTES = 7 * 24 * 60;
+export const MAX_CLAIM_NAME_LENGTH = 40;
+
+const MS_PER_MINUTE = 60_000;
+
+/** 0 holds pending squares until an admin approves or rejects them. */
+export const coerceClaimHoldMinutes = (value: unknown): number => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    return DEFAULT_CLAIM_HOLD_MINUTES;
+  }
+  return Math.min(MAX_CLAIM_HOLD_MINUTES, Math.max(0, Math.round(value)));
+};
+
+const toEmptyCell = (cell: GridCell): GridCell => ({
+  row: cell.row,
+  col: cell.col,
+  player: null,
+  status: "empty",
+});
+
+/** Epoch ms when a pending claim lapses, or null if it never does. */
+export const getClaimExpiresAt = (
+  cell: GridCell,
+  holdMinutes: number,
+): number | null => {
+  if (cell.status !== "pending" || holdMinutes <= 0 || !cell.requestedAt) return null;
+  const requestedAt = Date.parse(cell.requestedAt);
+  return Number.isNaN(requestedAt) ? null : requestedAt + holdMinutes * MS_PER_MINUTE;
+};
+
+const isClaimExpired = (cell: GridCell, holdMinutes: number, now: number): boolean => {
+  const expiresAt = getClaimExpiresAt(cell, holdMinutes);
+  return expiresAt !== null && expiresAt <= now;
+};
+
+/** Returns the same grid instance when nothing has lapsed. */
+export const releaseExpiredClaims = (
+  grid: GridCell[][],
+  holdMinutes: number,
+  now: number,
+): GridCell[][] => {
+  if (!grid.some((row) => row.some((cell) => isClaimExpired(cell, holdMinutes, now)))) {
+    return grid;
+  }
+  return grid.map((row) =>
+    row.map((cell) => (isClaimExpired(cell, holdMinutes, now) ? toEmptyCell(cell) : cell)),
+  );
+};
+
+export const applySquareClaim = (
+  grid: GridCell[][],
+  square: SquareCoords,
+  playerName: string,
+  holdMinutes: number,
+  now: number,
+): GridCell[][] => {
+  const name = playerName.trim().slice(0, MAX_CLAIM_NAME_LENGTH);
+  if (!name) throw new Error("Enter your name to request a square.");
+
+  const released = releaseExpiredClaims(grid, holdMinutes, now);
+  const cell = released[square.row]?.[square.col];
+  if (!cell) throw new Error("That square does not exist.");
+  if (cell.status !== "empty") throw new Error("That square has already been taken.");
+
+  return released.map((row, rowIndex) =>
+    rowIndex !== square.row
+      ? row
+      : row.map((current, colIndex) =>
+          colIndex !== square.col
+            ? current
+            : {
+                ...current,
+                player: name,
+                status: "pending",
+                requestedAt: new Date(now).toISOString(),
+              },
+        ),
+  );
+};
+
+/** Oldest request first, so the queue reads in the order players asked. */
+export const listPendingClaims = (grid: GridCell[][]): GridCell[] =>
+  grid
+    .flat()
+    .filter((cell) => cell.status === "pending")
+    .sort((left, right) => (left.requestedAt ?? "").localeCompare(right.requestedAt ?? ""));
+
+export const resolvePendingClaims = (
+  grid: GridCell[][],
+  squares: SquareCoords[],
+  decision: ClaimDecision,
+): GridCell[][] => {
+  const selected = new Set(squares.map(({ row, col }) => `${row}:${col}`));
+  return grid.map((row) =>
+    row.map((cell) => {
+      if (cell.status !== "pending" || !selected.has(`${cell.row}:${cell.col}`)) {
+        return cell;
+      }
+      return decision === "approve"
+        ? { row: cell.row, col: cell.col, player: cell.player, status: "approved" }
+        : toEmptyCell(cell);
+    }),
+  );
+};
@@ -0,0 +1,51 @@
+import { isSupabaseConfigured, supabase } from "../supabaseClient";
+import { SHOULD_USE_LOCAL_SQLITE, SQLITE_BOARD_STATE_API } from "./backendConfig";
+
+type SquareClaimRequest = {
+  row: number;
+  col: number;
+  player: string;
+};
+
+/**
+ * Submits a viewer's square request through the backend's public claim path.
+ * Resolves with the updated board state, or null when there is no shared
+ * backend and the caller should apply the claim locally.
+ */
+export const requestSquareClaim = async (
+  boardId: string,
+  claim: SquareClaimRequest,
+): Promise<unknown | null> => {
+  if (SHOULD_USE_LOCAL_SQLITE) {
+    const response = await fetch(
+      `${SQLITE_BOARD_STATE_API}/${encodeURIComponent(boardId)}/claims`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(claim),
+      },
+    );
+    const body = (await response.json().catch(() => ({}))) as {
+      data?: unknown;
+      error?: string;
+    };
+    if (!response.ok) {
+      throw new Error(body.error ?? `Square request failed with ${response.status}`);
+    }
+    return body.data ?? null;
+  }
+
+  if (isSupabaseConfigured && supabase) {
+    // Viewers cannot write board_state directly; the RPC validates the claim.
+    const { data, error } = await supabase.rpc("request_square", {
+      target_board_id: boardId,
+      square_row: claim.row,
+      square_col: claim.col,
+      player_name: claim.player,
+    });
+    if (error) throw new Error(error.message);
+    return data ?? null;
+  }
+
+  return null;
+};
@@ -1,5 +1,6 @@
 import { NFL_TEAMS } from "../constants";
 import type {
+  BoardRowTeam,
   DigitProbabilityMatrix,
   SquareOddsComputationResult,
   SquareOddsComputationSource,
@@ -11,6 +12,7 @@ type BuildSquareOddsInput = {
   awayTeamName: string;
   rowLabels: number[];
   colLabels: number[];
+  rowTeam: BoardRowTeam;
 };
 
 type GameRecord = {
@@ -922,9 +924,15 @@ const buildSimulationMatrix = (
 const buildFallbackModel = (
   rowLabels: number[],
   colLabels: number[],
+  rowTeam: BoardRowTeam,
 ): SquareOddsComputationResult => {
   const digitProbabilities = buildSimulationMatrix(23, 21);
-  const boardPercentages = mapDigitMatrixToBoard(digitProbabilities, rowLabels, colLabels);
+  const boardPercentages = mapDigitMatrixToBoard(
+    digitProbabilities,
+    rowLabels,
+    colLabels,
+    rowTeam,
+  );
 
   return {
     boardPercentages,
@@ -944,6 +952,7 @@ const mapDigitMatrixToBoard = (
   digitMatrix: DigitProbabilityMatrix,
   rowLabels: number[],
   colLabels: number[],
+  rowTeam: BoardRowTeam,
 ): number[][] => {
   if (rowLabels.length !== DIGIT_COUNT || colLabels.length !== DIGIT_COUNT) {
     throw new Error("Expected row and column labels to each have length 10.");
@@ -958,7 +967,10 @@ const mapDigitMatrixToBoard = (
       if (!Number.isInteger(colDigit) || colDigit < 0 || colDigit > 9) {
         throw new Error("Invalid column label while mapping digit probabilities.");
       }
-      return digitMatrix[rowDigit][colDigit] * 100;
+      // Digit matrices are indexed [home][away].
+      return rowTeam === "home"
+        ? digitMatrix[rowDigit][colDigit] * 100
+        : digitMatrix[colDigit][rowDigit] * 100;
     });
   });
 };
@@ -1182,6 +1194,7 @@ export const buildSquareOdds = async (
             cached.value.digitProbabilities,
             input.rowLabels,
             input.colLabels,
+            input.rowTeam,
           ),
         ),
         digitProbabilities: cached.value.digitProbabilities,
@@ -1203,6 +1216,7 @@ export const buildSquareOdds = async (
           computed.digitProbabilities,
           input.rowLabels,
           input.colLabels,
+          input.rowTeam,
         ),
       ),
       digitProbabilities: computed.digitProbabilities,
@@ -1214,7 +1228,7 @@ export const buildSquareOdds = async (
       expectedAwayPoints: computed.expectedAwayPoints,
     };
   } catch (error) {
-    const fallback = buildFallbackModel(input.rowLabels, input.colLabels);
+    const fallback = buildFallbackModel(input.rowLabels, input.colLabels, input.rowTeam);
     if (error instanceof Error) {
       fallback.warnings.push(error.message);
     }
@@ -0,0 +1,100 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { BoardStateSnapshot, BoardStore } from "../types";
+import { buildAuditChanges } from "./auditLogRules";
+import { toBoardOpBatch, toBoardStateSnapshot } from "./boardStateService";
+
+type SupabaseBoardStateRow = {
+  data: unknown;
+  revision: number | null;
+};
+
+const REVISION_CONFLICT = "PT409";
+const NEWER_BOARD_VERSION = "PT426";
+const INSUFFICIENT_PRIVILEGE = "42501";
+
+/** The `board_state` table, followed live through Realtime inserts on `board_ops`. */
+export const createSupabaseBoardStore = (client: SupabaseClient): BoardStore => {
+  const load = async (boardId: string): Promise<BoardStateSnapshot | null> => {
+    const { data, error } = await client
+      .from("board_state")
+      .select("data, revision")
+      .eq("id", boardId)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return toBoardStateSnapshot(data as SupabaseBoardStateRow | null);
+  };
+
+  return {
+    isShared: true,
+
+    load,
+
+    save: async (boardId, { ops, baseState, nextState, baseRevision }) => {
+      // Stores the ops, the resulting state and the audit entries together, only
+      // while nobody else has written since `baseRevision`.
+      const { data, error, status } = await client.rpc("apply_board_ops", {
+        target_board_id: boardId,
+        base_revision: baseRevision,
+        ops,
+        next_data: nextState,
+        audit: buildAuditChanges(baseState, ops),
+      });
+      if (!error) return { status: "saved", revision: Number(data) };
+      if (error.code === INSUFFICIENT_PRIVILEGE || status === 401 || status === 403) {
+        return { status: "unauthorized" };
+      }
+      if (
+        error.code !== REVISION_CONFLICT &&
+        error.code !== NEWER_BOARD_VERSION &&
+        status !== 409
+      ) {
+        // Status 0 means the request never got a response, like a fetch TypeError.
+        throw status === 0 ? new TypeError(error.message) : new Error(error.message);
+      }
+
+      const current = (await load(boardId)) ?? { data: null, revision: 0 };
+      // The caller finds the newer version in the current state and stops saving.
+      if (error.code === NEWER_BOARD_VERSION) return { status: "conflict", current };
+      if (current.revision === baseRevision) {
+        // Nothing newer exists, so row level security must have filtered the update.
+        return { status: "unauthorized" };
+      }
+      return { status: "conflict", current };
+    },
+
+    subscribe: (boardId, listener) => {
+      let closed = false;
+      const reload = () => {
+        load(boardId)
+          .then((snapshot) => {
+            if (!closed && snapshot) listener.onSnapshot(snapshot);
+          })
+          .catch((error) => {
+            console.warn("Failed to reload board from Supabase.", error);
+          });
+      };
+
+      const channel = client
+        .channel(`board-state:${boardId}`)
+        .on(
+          "postgres_changes",
+          {
+            event: "INSERT",
+            schema: "public",
+            table: "board_ops",
+            filter: `board_id=eq.${boardId}`,
+          },
+          (payload) => {
+            const batch = toBoardOpBatch(payload.new);
+            if (batch && !listener.onOps(batch)) reload();
+          },
+        )
+        .subscribe();
+
+      return () => {
+        closed = true;
+        void client.removeChannel(channel);
+      };
+    },
+  };
+};
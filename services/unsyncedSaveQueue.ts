@@ -0,0 +1,131 @@
+import type { BoardOpsSave, UnsyncedBoardSave } from "../types";
+
+const DB_NAME = "sb-lx-squares";
+const DB_VERSION = 1;
+const STORE_NAME = "unsynced_saves";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result
+          .createObjectStore(STORE_NAME, { keyPath: "id", autoIncrement: true })
+          .createIndex("boardId", "boardId");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again, e.g. after the user allows storage.
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * True when a save never reached the server, as opposed to being refused by
+ * it. Only these are queued; a refused save would be refused again.
+ */
+export const isNetworkError = (error: unknown): boolean =>
+  error instanceof TypeError || (typeof navigator !== "undefined" && !navigator.onLine);
+
+export type UnsyncedSaveQueue = {
+  /** Reads saves left over from earlier visits; call once before anything else. */
+  load: () => Promise<UnsyncedBoardSave[]>;
+  /** Queued saves, oldest first. */
+  list: () => UnsyncedBoardSave[];
+  push: (save: BoardOpsSave) => Promise<void>;
+  /** Drops the oldest save once the server has accepted it. */
+  shift: () => Promise<void>;
+  clear: () => Promise<void>;
+};
+
+/**
+ * Saves for one board that failed to reach the server, in the order they
+ * were made. Each save's ops apply on top of the one before it, so they
+ * must be replayed in order. IndexedDB keeps them across reloads; when it
+ * is unavailable the queue still works for the life of the page.
+ */
+export const createUnsyncedSaveQueue = (
+  boardId: string,
+  onChange: (count: number) => void,
+): UnsyncedSaveQueue => {
+  let saves: UnsyncedBoardSave[] = [];
+  let nextLocalId = -1;
+
+  const update = (next: UnsyncedBoardSave[]) => {
+    saves = next;
+    onChange(saves.length);
+  };
+
+  return {
+    load: async () => {
+      try {
+        const stored = await runTransaction<UnsyncedBoardSave[]>("readonly", (store) =>
+          store.index("boardId").getAll(boardId),
+        );
+        update(stored.sort((a, b) => a.id - b.id));
+      } catch (error) {
+        console.warn("Could not read unsynced changes.", error);
+      }
+      return saves;
+    },
+    list: () => saves,
+    push: async (save) => {
+      const entry = { ...save, boardId, queuedAt: new Date().toISOString() };
+      let id = nextLocalId--;
+      try {
+        id = Number(await runTransaction("readwrite", (store) => store.add(entry)));
+      } catch (error) {
+        console.warn("Could not keep the unsynced change on this device.", error);
+      }
+      update([...saves, { ...entry, id }]);
+    },
+    shift: async () => {
+      const [oldest, ...rest] = saves;
+      if (!oldest) return;
+      update(rest);
+      if (oldest.id < 0) return;
+      try {
+        await runTransaction("readwrite", (store) => store.delete(oldest.id));
+      } catch (error) {
+        console.warn("Could not remove a synced change from this device.", error);
+      }
+    },
+    clear: async () => {
+      const ids = saves.map((save) => save.id).filter((id) => id >= 0);
+      update([]);
+      if (ids.length === 0) return;
+      try {
+        // Ids of other boards can sit between ours, so delete them one by one.
+        await runTransaction("readwrite", (store) =>
+          ids.map((id) => store.delete(id)).pop() as IDBRequest<undefined>,
+        );
+      } catch (error) {
+        console.warn("Could not remove unsynced changes from this device.", error);
+      }
+    },
+  };
+};
@@ -0,0 +1,1060 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type {
+  AuditChange,
+  AuditEntry,
+  BoardHistoryAction,
+  BoardHistoryEntry,
+  BoardOp,
+  GridCell,
+  LiveFeedUpdate,
+  PersistedState,
+} from "./types";
+import type { LiveFeedPoller } from "./liveFeedPoller";
+import { applySquareClaim } from "./services/squareClaimRules";
+import { applyBoardOps, diffBoardStates } from "./services/boardOpsReducer";
+import { buildAuditChanges } from "./services/auditLogRules";
+import { getBoardStateVersion } from "./services/boardStateMigrations";
+import { readPersistedState } from "./services/boardStateNormalizer";
+import { createLiveFeedPoller } from "./liveFeedPoller";
+
+type BoardRow = {
+  data: string;
+  revision: number;
+};
+
+/**
+ * Stored boards are migrated and normalized before ops are applied, so older
+ * rows are upgraded to the current version by their next write.
+ */
+const readStoredBoard = (row: BoardRow) => readPersistedState(JSON.parse(row.data));
+
+type BoardHistoryRow = {
+  revision: number;
+  author: string;
+  action: BoardHistoryAction;
+  restored_from: number | null;
+  created_at: string;
+};
+
+type BoardHistoryMeta = Pick<BoardHistoryEntry, "author" | "action" | "restoredFrom">;
+
+type AuditLogRow = {
+  id: number;
+  revision: number;
+  actor: string;
+  action: AuditEntry["action"];
+  target: string;
+  before_value: string;
+  after_value: string;
+  created_at: string;
+};
+
+type BoardDirectoryRow = {
+  id: string;
+  name: string;
+  archived: number;
+  created_at: string;
+};
+
+type SqliteStatement = {
+  get: (...params: unknown[]) => unknown;
+  all: (...params: unknown[]) => unknown[];
+  run: (...params: unknown[]) => unknown;
+};
+
+type SqliteDatabase = {
+  exec: (sql: string) => void;
+  prepare: (sql: string) => SqliteStatement;
+  transaction: <T extends unknown[]>(fn: (...args: T) => void) => (...args: T) => void;
+  close: () => void;
+};
+
+type DbContext = {
+  db: SqliteDatabase;
+  selectStmt: SqliteStatement;
+  /** Stores the resulting state, its history and audit entries, and the ops that produced it. */
+  commitOps: (
+    boardId: string,
+    state: unknown,
+    ops: BoardOp[],
+    revision: number,
+    history: BoardHistoryMeta,
+    audit: AuditChange[],
+  ) => void;
+  listHistoryStmt: SqliteStatement;
+  listAuditStmt: SqliteStatement;
+  selectHistoryStmt: SqliteStatement;
+  listBoardsStmt: SqliteStatement;
+  insertBoardStmt: SqliteStatement;
+  archiveBoardStmt: SqliteStatement;
+  deleteBoard: (id: string) => void;
+};
+
+type AdminSessionStore = {
+  create: () => { token: string; expiresAt: string };
+  isValid: (token: string | null) => boolean;
+  revoke: (token: string | null) => void;
+};
+
+type BoardStreamHub = {
+  subscribe: (boardId: string, res: ServerResponse) => () => void;
+  publish: (boardId: string, event: BoardStreamEvent) => void;
+};
+
+/** Full state on connect, then each committed op batch. */
+type BoardStreamEvent =
+  | { data: unknown; revision: number }
+  | { ops: BoardOp[]; revision: number };
+
+export type SqliteBoardApiOptions = {
+  /** Server-only admin passcode; never exposed through `VITE_` variables. */
+  adminPasscode?: string;
+  /** Where `board-state.sqlite` lives; defaults to `.data` in the working directory. */
+  dataDir?: string;
+  /** Where mock live feed files are read from; defaults to `public` in the working directory. */
+  publicDir?: string;
+};
+
+export type SqliteBoardApi = {
+  /** Answers `/api/board-state`, `/api/boards` and `/api/auth`; other requests go to `next`. */
+  handle: (req: IncomingMessage, res: ServerResponse, next: () => void) => Promise<void>;
+  /** Opens the database; false when better-sqlite3 can't be loaded here. */
+  isAvailable: () => Promise<boolean>;
+  close: () => Promise<void>;
+};
+
+const API_PREFIX = "/api/board-state/";
+const BOARDS_API_PATH = "/api/boards";
+const AUTH_API_PREFIX = "/api/auth/";
+const SESSION_TTL_MS = 1000 * 60 * 60 * 12;
+const FAILED_LOGIN_DELAY_MS = 750;
+const MAX_BODY_BYTES = 1024 * 1024;
+const HISTORY_LIST_LIMIT = 200;
+const STREAM_HEARTBEAT_MS = 25_000;
+
+const sendJson = (
+  res: ServerResponse,
+  statusCode: number,
+  payload: unknown,
+) => {
+  res.statusCode = statusCode;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(payload));
+};
+
+/** A problem with the request itself; answered with its status instead of 500. */
+class RequestError extends Error {
+  statusCode: number;
+
+  constructor(statusCode: number, message: string) {
+    super(message);
+    this.statusCode = statusCode;
+  }
+}
+
+const sendError = (res: ServerResponse, error: unknown) => {
+  // A stream that already started can only be ended.
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  const message = error instanceof Error ? error.message : "Unknown error";
+  sendJson(res, error instanceof RequestError ? error.statusCode : 500, { error: message });
+};
+
+const readBody = async (req: IncomingMessage): Promise<string> => {
+  const chunks: Buffer[] = [];
+  let total = 0;
+
+  for await (const chunk of req) {
+    const piece = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    total += piece.length;
+    if (total > MAX_BODY_BYTES) {
+      throw new RequestError(413, "Request body too large");
+    }
+    chunks.push(piece);
+  }
+
+  return Buffer.concat(chunks).toString("utf8");
+};
+
+/** The request's JSON object body; an empty body reads as `{}`. */
+const readJsonBody = async <T extends object>(req: IncomingMessage): Promise<Partial<T>> => {
+  const body = await readBody(req);
+  if (!body) return {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    throw new RequestError(400, "Request body is not valid JSON");
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new RequestError(400, "Request body must be a JSON object");
+  }
+  return parsed as Partial<T>;
+};
+
+const decodePathSegment = (segment: string): string => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new RequestError(400, "Malformed board id");
+  }
+};
+
+const hashSecret = (value: string): Buffer =>
+  crypto.createHash("sha256").update(value).digest();
+
+const isPasscodeMatch = (candidate: string, expected: string): boolean =>
+  crypto.timingSafeEqual(hashSecret(candidate), hashSecret(expected));
+
+const readBearerToken = (req: IncomingMessage): string | null => {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? "");
+  return match ? match[1].trim() : null;
+};
+
+const createAdminSessionStore = (): AdminSessionStore => {
+  const sessions = new Map<string, number>();
+
+  return {
+    create: () => {
+      const token = crypto.randomBytes(32).toString("hex");
+      const expiresAt = Date.now() + SESSION_TTL_MS;
+      sessions.set(token, expiresAt);
+      return { token, expiresAt: new Date(expiresAt).toISOString() };
+    },
+    isValid: (token) => {
+      if (!token) return false;
+      const expiresAt = sessions.get(token);
+      if (expiresAt === undefined) return false;
+      if (expiresAt <= Date.now()) {
+        sessions.delete(token);
+        return false;
+      }
+      return true;
+    },
+    revoke: (token) => {
+      if (token) sessions.delete(token);
+    },
+  };
+};
+
+const writeStreamEvent = (res: ServerResponse, event: BoardStreamEvent) => {
+  res.write(`data: ${JSON.stringify(event)}\n\n`);
+};
+
+const createBoardStreamHub = (): BoardStreamHub => {
+  const subscribers = new Map<string, Set<ServerResponse>>();
+
+  return {
+    subscribe: (boardId, res) => {
+      const boardSubscribers = subscribers.get(boardId) ?? new Set<ServerResponse>();
+      boardSubscribers.add(res);
+      subscribers.set(boardId, boardSubscribers);
+      return () => {
+        boardSubscribers.delete(res);
+        if (boardSubscribers.size === 0) subscribers.delete(boardId);
+      };
+    },
+    publish: (boardId, event) => {
+      subscribers.get(boardId)?.forEach((res) => writeStreamEvent(res, event));
+    },
+  };
+};
+
+/** Server-Sent Events: the current state on connect, then every saved change. */
+const handleStreamRequest = (
+  dbContext: DbContext,
+  req: IncomingMessage,
+  res: ServerResponse,
+  boardId: string,
+  streams: BoardStreamHub,
+) => {
+  if (req.method !== "GET") {
+    sendJson(res, 405, { error: "Method not allowed" });
+    return;
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  const row = dbContext.selectStmt.get(boardId) as BoardRow | undefined;
+  writeStreamEvent(res, {
+    data: row ? JSON.parse(row.data) : null,
+    revision: row?.revision ?? 0,
+  });
+
+  const unsubscribe = streams.subscribe(boardId, res);
+  const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), STREAM_HEARTBEAT_MS);
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+};
+
+const handleAuthRequest = async (
+  req: IncomingMessage,
+  res: ServerResponse,
+  action: string,
+  sessions: AdminSessionStore,
+  adminPasscode: string | undefined,
+) => {
+  const method = req.method ?? "GET";
+
+  if (action === "login" && method === "POST") {
+    if (!adminPasscode) {
+      sendJson(res, 503, {
+        error: "Admin login is not configured. Set ADMIN_PASSCODE on the server.",
+      });
+      return;
+    }
+    const parsed = await readJsonBody<{ passcode: unknown }>(req);
+    const passcode = typeof parsed.passcode === "string" ? parsed.passcode : "";
+    if (!isPasscodeMatch(passcode, adminPasscode)) {
+      await new Promise((resolve) => setTimeout(resolve, FAILED_LOGIN_DELAY_MS));
+      sendJson(res, 401, { error: "Unauthorized passcode." });
+      return;
+    }
+    sendJson(res, 200, sessions.create());
+    return;
+  }
+
+  if (action === "session" && method === "GET") {
+    const authenticated = sessions.isValid(readBearerToken(req));
+    sendJson(res, authenticated ? 200 : 401, { authenticated });
+    return;
+  }
+
+  if (action === "logout" && method === "POST") {
+    sessions.revoke(readBearerToken(req));
+    sendJson(res, 200, { ok: true });
+    return;
+  }
+
+  sendJson(res, 404, { error: "Unknown auth endpoint" });
+};
+
+const toBoardSummary = (row: BoardDirectoryRow) => ({
+  id: row.id,
+  name: row.name,
+  archived: row.archived === 1,
+  createdAt: row.created_at,
+});
+
+/** Server-Sent Events: the shared live feed update for the board, each time it changes. */
+const handleLiveStreamRequest = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  boardId: string,
+  live: LiveFeedPoller,
+) => {
+  if (req.method !== "GET") {
+    sendJson(res, 405, { error: "Method not allowed" });
+    return;
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  const unsubscribe = live.subscribe(boardId, (update: LiveFeedUpdate) => {
+    res.write(`data: ${JSON.stringify(update)}\n\n`);
+  });
+  const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), STREAM_HEARTBEAT_MS);
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+};
+
+/** Public write path: viewers may only turn an empty square into a pending one. */
+const handleClaimRequest = async (
+  dbContext: DbContext,
+  req: IncomingMessage,
+  res: ServerResponse,
+  boardId: string,
+  streams: BoardStreamHub,
+) => {
+  if (req.method !== "POST") {
+    sendJson(res, 405, { error: "Method not allowed" });
+    return;
+  }
+
+  const parsed = await readJsonBody<{ row: unknown; col: unknown; player: unknown }>(req);
+  if (
+    !Number.isInteger(parsed.row) ||
+    !Number.isInteger(parsed.col) ||
+    typeof parsed.player !== "string"
+  ) {
+    sendJson(res, 400, { error: "Request must include row, col and player" });
+    return;
+  }
+
+  const stored = dbContext.selectStmt.get(boardId) as BoardRow | undefined;
+  if (!stored) {
+    sendJson(res, 404, { error: "This board has not been set up yet." });
+    return;
+  }
+
+  const read = readStoredBoard(stored);
+  if (!read) {
+    sendJson(res, 409, { error: "This board has no squares yet." });
+    return;
+  }
+  if (read.status === "newer") {
+    sendJson(res, 409, { error: "Board was saved by a newer version of the app." });
+    return;
+  }
+  const { state } = read;
+  if (state.isLocked) {
+    sendJson(res, 409, { error: "The board is locked." });
+    return;
+  }
+
+  let grid: GridCell[][];
+  try {
+    grid = applySquareClaim(
+      state.grid,
+      { row: parsed.row as number, col: parsed.col as number },
+      parsed.player,
+      state.claimHoldMinutes,
+      Date.now(),
+    );
+  } catch (error) {
+    sendJson(res, 409, {
+      error: error instanceof Error ? error.message : "Square request rejected.",
+    });
+    return;
+  }
+
+  const next = { ...state, grid };
+  const ops = diffBoardStates(state, next);
+  const revision = stored.revision + 1;
+  dbContext.commitOps(
+    boardId,
+    next,
+    ops,
+    revision,
+    { author: parsed.player.trim(), action: "request", restoredFrom: null },
+    buildAuditChanges(state, ops),
+  );
+  streams.publish(boardId, { ops, revision });
+  sendJson(res, 200, { data: next, revision });
+};
+
+/** Admin write path: replays ops on the stored board if `revision` is current. */
+const handleOpsRequest = async (
+  dbContext: DbContext,
+  req: IncomingMessage,
+  res: ServerResponse,
+  boardId: string,
+  streams: BoardStreamHub,
+) => {
+  if (req.method !== "POST") {
+    sendJson(res, 405, { error: "Method not allowed" });
+    return;
+  }
+
+  const parsed = await readJsonBody<{ ops: unknown; revision: unknown }>(req);
+  if (
+    !Array.isArray(parsed.ops) ||
+    parsed.ops.length === 0 ||
+    !Number.isInteger(parsed.revision)
+  ) {
+    sendJson(res, 400, { error: "Request must include ops and revision" });
+    return;
+  }
+
+  // Reject ops based on an older revision; the client merges and retries.
+  const stored = dbContext.selectStmt.get(boardId) as BoardRow | undefined;
+  const currentRevision = stored?.revision ?? 0;
+  if (parsed.revision !== currentRevision) {
+    sendJson(res, 409, {
+      error: "Board was changed by someone else.",
+      data: stored ? JSON.parse(stored.data) : null,
+      revision: currentRevision,
+    });
+    return;
+  }
+
+  // An older client would drop whatever a newer one stored; send it the newer board instead.
+  const read = stored ? readStoredBoard(stored) : null;
+  if (stored && read?.status === "newer") {
+    sendJson(res, 409, {
+      error: "Board was saved by a newer version of the app.",
+      data: JSON.parse(stored.data),
+      revision: currentRevision,
+    });
+    return;
+  }
+
+  const ops = parsed.ops as BoardOp[];
+  const previous = read?.status === "ok" ? read.state : null;
+  if (!previous && ops[0]?.type !== "replace_state") {
+    sendJson(res, 400, { error: "A new board must start from a full state." });
+    return;
+  }
+
+  let next: PersistedState;
+  try {
+    next = applyBoardOps(previous as PersistedState, ops);
+  } catch (error) {
+    sendJson(res, 400, {
+      error: error instanceof Error ? error.message : "Invalid board op.",
+    });
+    return;
+  }
+
+  // Likewise a full state written by an older client.
+  if (previous && getBoardStateVersion(next) < getBoardStateVersion(previous)) {
+    sendJson(res, 409, {
+      error: "Board was saved by a newer version of the app.",
+      data: previous,
+      revision: currentRevision,
+    });
+    return;
+  }
+
+  const revision = currentRevision + 1;
+  const restore = ops.find((op) => op.type === "restore");
+  dbContext.commitOps(
+    boardId,
+    next,
+    ops,
+    revision,
+    {
+      author: "admin",
+      action: restore?.action ?? "edit",
+      restoredFrom: restore?.revision ?? null,
+    },
+    buildAuditChanges(previous, ops),
+  );
+  streams.publish(boardId, { ops, revision });
+  sendJson(res, 200, { ok: true, revision });
+};
+
+const toHistoryEntry = (row: BoardHistoryRow): BoardHistoryEntry => ({
+  revision: row.revision,
+  author: row.author,
+  action: row.action,
+  restoredFrom: row.restored_from,
+  createdAt: row.created_at,
+});
+
+/** Admin-only: recent revisions oldest first, or one revision with its state. */
+const handleHistoryRequest = (
+  dbContext: DbContext,
+  req: IncomingMessage,
+  res: ServerResponse,
+  boardId: string,
+  revisionParam: string | undefined,
+) => {
+  if (req.method !== "GET") {
+    sendJson(res, 405, { error: "Method not allowed" });
+    return;
+  }
+
+  if (!revisionParam) {
+    const rows = dbContext.listHistoryStmt.all(
+      boardId,
+      HISTORY_LIST_LIMIT,
+    ) as BoardHistoryRow[];
+    sendJson(res, 200, { entries: rows.reverse().map(toHistoryEntry) });
+    return;
+  }
+
+  const revision = Number(revisionParam);
+  const row = Number.isInteger(revision)
+    ? (dbContext.selectHistoryStmt.get(boardId, revision) as
+        | (BoardHistoryRow & { data: string })
+        | undefined)
+    : undefined;
+  if (!row) {
+    sendJson(res, 404, { error: `Revision ${revisionParam} is not in the history.` });
+    return;
+  }
+  sendJson(res, 200, { entry: toHistoryEntry(row), data: JSON.parse(row.data) });
+};
+
+/** Public and read-only: every participant can see who changed what. */
+const handleAuditRequest = (
+  dbContext: DbContext,
+  req: IncomingMessage,
+  res: ServerResponse,
+  boardId: string,
+) => {
+  if (req.method !== "GET") {
+    sendJson(res, 405, { error: "Method not allowed" });
+    return;
+  }
+
+  const rows = dbContext.listAuditStmt.all(boardId) as AuditLogRow[];
+  sendJson(res, 200, {
+    entries: rows.map(
+      (row): AuditEntry => ({
+        id: row.id,
+        revision: row.revision,
+        actor: row.actor,
+        action: row.action,
+        target: row.target,
+        before: row.before_value,
+        after: row.after_value,
+        createdAt: row.created_at,
+      }),
+    ),
+  });
+};
+
+const handleBoardsRequest = async (
+  dbContext: DbContext,
+  req: IncomingMessage,
+  res: ServerResponse,
+  boardId: string,
+  isAdmin: boolean,
+) => {
+  const method = req.method ?? "GET";
+
+  if (method !== "GET" && !isAdmin) {
+    sendJson(res, 401, { error: "Admin session required" });
+    return;
+  }
+
+  if (!boardId) {
+    if (method === "GET") {
+      const rows = dbContext.listBoardsStmt.all() as BoardDirectoryRow[];
+      sendJson(res, 200, { boards: rows.map(toBoardSummary) });
+      return;
+    }
+
+    if (method === "POST") {
+      const parsed = await readJsonBody<{ board: { id?: unknown; name?: unknown } }>(req);
+      const id = typeof parsed.board?.id === "string" ? parsed.board.id.trim() : "";
+      const name =
+        typeof parsed.board?.name === "string" ? parsed.board.name.trim() : "";
+      if (!id || !name) {
+        sendJson(res, 400, { error: "Board must include an id and name" });
+        return;
+      }
+
+      const createdAt = new Date().toISOString();
+      try {
+        dbContext.insertBoardStmt.run({ id, name, createdAt });
+      } catch {
+        sendJson(res, 409, { error: `Board ${id} already exists` });
+        return;
+      }
+      sendJson(res, 201, { board: { id, name, archived: false, createdAt } });
+      return;
+    }
+
+    sendJson(res, 405, { error: "Method not allowed" });
+    return;
+  }
+
+  if (method === "PATCH") {
+    const parsed = await readJsonBody<{ archived: unknown }>(req);
+    if (typeof parsed.archived !== "boolean") {
+      sendJson(res, 400, { error: "Request must include archived" });
+      return;
+    }
+    dbContext.archiveBoardStmt.run({ id: boardId, archived: parsed.archived ? 1 : 0 });
+    sendJson(res, 200, { ok: true });
+    return;
+  }
+
+  if (method === "DELETE") {
+    dbContext.deleteBoard(boardId);
+    sendJson(res, 200, { ok: true });
+    return;
+  }
+
+  sendJson(res, 405, { error: "Method not allowed" });
+};
+
+export const createSqliteBoardApi = (options: SqliteBoardApiOptions = {}): SqliteBoardApi => {
+  let dbContextPromise: Promise<DbContext | null> | null = null;
+  const sessions = createAdminSessionStore();
+  const streams = createBoardStreamHub();
+
+  const getDbContext = async (): Promise<DbContext | null> => {
+    if (dbContextPromise) return dbContextPromise;
+
+    dbContextPromise = (async () => {
+      try {
+        const dataDir = path.resolve(options.dataDir ?? ".data");
+        fs.mkdirSync(dataDir, { recursive: true });
+
+        const { default: Database } = await import("better-sqlite3");
+        const dbPath = path.join(dataDir, "board-state.sqlite");
+        const db = new (Database as unknown as new (filename: string) => SqliteDatabase)(
+          dbPath,
+        );
+
+        db.exec(`
+          create table if not exists board_state (
+            id text primary key,
+            data text not null,
+            revision integer not null default 0,
+            updated_at text not null default (datetime('now'))
+          );
+
+          create table if not exists board_ops (
+            board_id text not null,
+            revision integer not null,
+            ops text not null,
+            created_at text not null default (datetime('now')),
+            primary key (board_id, revision)
+          );
+
+          create table if not exists board_state_history (
+            board_id text not null,
+            revision integer not null,
+            data text not null,
+            author text not null,
+            action text not null,
+            restored_from integer,
+            created_at text not null,
+            primary key (board_id, revision)
+          );
+
+          create table if not exists board_audit_log (
+            id integer primary key autoincrement,
+            board_id text not null,
+            revision integer not null,
+            actor text not null,
+            action text not null,
+            target text not null,
+            before_value text not null,
+            after_value text not null,
+            created_at text not null
+          );
+
+          create trigger if not exists board_audit_log_no_update
+            before update on board_audit_log
+            begin
+              select raise(abort, 'The audit log is append-only.');
+            end;
+
+          create trigger if not exists board_audit_log_no_delete
+            before delete on board_audit_log
+            begin
+              select raise(abort, 'The audit log is append-only.');
+            end;
+
+          create table if not exists boards (
+            id text primary key,
+            name text not null,
+            archived integer not null default 0,
+            created_at text not null
+          );
+        `);
+
+        const boardStateColumns = db
+          .prepare("pragma table_info(board_state)")
+          .all() as { name: string }[];
+        if (!boardStateColumns.some((column) => column.name === "revision")) {
+          db.exec("alter table board_state add column revision integer not null default 0");
+        }
+
+        const selectStmt = db.prepare(
+          "select data, revision from board_state where id = ?",
+        );
+        const upsertStmt = db.prepare(`
+          insert into board_state (id, data, revision, updated_at)
+          values (@id, @data, @revision, datetime('now'))
+          on conflict(id) do update set
+            data = excluded.data,
+            revision = excluded.revision,
+            updated_at = datetime('now')
+        `);
+
+        const listBoardsStmt = db.prepare(
+          "select id, name, archived, created_at from boards order by created_at desc",
+        );
+        const insertBoardStmt = db.prepare(
+          "insert into boards (id, name, created_at) values (@id, @name, @createdAt)",
+        );
+        const archiveBoardStmt = db.prepare(
+          "update boards set archived = @archived where id = @id",
+        );
+        const insertOpsStmt = db.prepare(
+          "insert into board_ops (board_id, revision, ops) values (@boardId, @revision, @ops)",
+        );
+        const insertHistoryStmt = db.prepare(`
+          insert into board_state_history
+            (board_id, revision, data, author, action, restored_from, created_at)
+          values (@boardId, @revision, @data, @author, @action, @restoredFrom, @createdAt)
+        `);
+        const listHistoryStmt = db.prepare(`
+          select revision, author, action, restored_from, created_at
+          from board_state_history
+          where board_id = ?
+          order by revision desc
+          limit ?
+        `);
+        const selectHistoryStmt = db.prepare(`
+          select revision, author, action, restored_from, created_at, data
+          from board_state_history
+          where board_id = ? and revision = ?
+        `);
+        const insertAuditStmt = db.prepare(`
+          insert into board_audit_log
+            (board_id, revision, actor, action, target, before_value, after_value, created_at)
+          values (@boardId, @revision, @actor, @action, @target, @before, @after, @createdAt)
+        `);
+        const listAuditStmt = db.prepare(`
+          select id, revision, actor, action, target, before_value, after_value, created_at
+          from board_audit_log
+          where board_id = ?
+          order by id
+        `);
+        const commitOps = db.transaction(
+          (
+            boardId: string,
+            state: unknown,
+            ops: BoardOp[],
+            revision: number,
+            history: BoardHistoryMeta,
+            audit: AuditChange[],
+          ) => {
+            const data = JSON.stringify(state);
+            const createdAt = new Date().toISOString();
+            upsertStmt.run({ id: boardId, data, revision });
+            insertOpsStmt.run({ boardId, revision, ops: JSON.stringify(ops) });
+            insertHistoryStmt.run({
+              boardId,
+              revision,
+              data,
+              ...history,
+              createdAt,
+            });
+            audit.forEach((change) =>
+              insertAuditStmt.run({
+                boardId,
+                revision,
+                actor: history.author,
+                ...change,
+                createdAt,
+              }),
+            );
+          },
+        );
+        const deleteStateStmt = db.prepare("delete from board_state where id = ?");
+        const deleteOpsStmt = db.prepare("delete from board_ops where board_id = ?");
+        const deleteHistoryStmt = db.prepare(
+          "delete from board_state_history where board_id = ?",
+        );
+        const deleteBoardStmt = db.prepare("delete from boards where id = ?");
+        const deleteBoard = db.transaction((id: string) => {
+          deleteStateStmt.run(id);
+          deleteOpsStmt.run(id);
+          deleteHistoryStmt.run(id);
+          deleteBoardStmt.run(id);
+        });
+
+        return {
+          db,
+          selectStmt,
+          commitOps,
+          listHistoryStmt,
+          selectHistoryStmt,
+          listAuditStmt,
+          listBoardsStmt,
+          insertBoardStmt,
+          archiveBoardStmt,
+          deleteBoard,
+        };
+      } catch (error) {
+        console.warn(
+          "Local SQLite disabled: could not load better-sqlite3.",
+          error,
+        );
+        return null;
+      }
+    })();
+
+    return dbContextPromise;
+  };
+
+  const live = createLiveFeedPoller({
+    readBoard: async (boardId) => {
+      const row = (await getDbContext())?.selectStmt.get(boardId) as BoardRow | undefined;
+      if (!row) return null;
+      const read = readStoredBoard(row);
+      return read?.status === "ok" ? read.state : null;
+    },
+    // Read and written in one synchronous step, so no admin save can land in between.
+    updateBoard: async (boardId, buildOps) => {
+      const dbContext = await getDbContext();
+      const row = dbContext?.selectStmt.get(boardId) as BoardRow | undefined;
+      const read = row ? readStoredBoard(row) : null;
+      if (!dbContext || !row || read?.status !== "ok") return;
+      const ops = buildOps(read.state);
+      if (ops.length === 0) return;
+      const revision = row.revision + 1;
+      dbContext.commitOps(
+        boardId,
+        applyBoardOps(read.state, ops),
+        ops,
+        revision,
+        { author: "live feed", action: "edit", restoredFrom: null },
+        buildAuditChanges(read.state, ops),
+      );
+      streams.publish(boardId, { ops, revision });
+    },
+    publicDir: path.resolve(options.publicDir ?? "public"),
+  });
+
+  const handle: SqliteBoardApi["handle"] = async (req, res, next) => {
+    const method = req.method ?? "GET";
+    const rawUrl = req.url ?? "/";
+    let url: URL;
+    try {
+      // "//" and similar paths read as a URL with an empty host and do not parse.
+      url = new URL(rawUrl, "http://localhost");
+    } catch {
+      sendJson(res, 400, { error: "Invalid request URL" });
+      return;
+    }
+
+    if (url.pathname.startsWith(AUTH_API_PREFIX)) {
+      try {
+        await handleAuthRequest(
+          req,
+          res,
+          url.pathname.slice(AUTH_API_PREFIX.length),
+          sessions,
+          options.adminPasscode,
+        );
+      } catch (error) {
+        sendError(res, error);
+      }
+      return;
+    }
+
+    if (
+      url.pathname === BOARDS_API_PATH ||
+      url.pathname.startsWith(`${BOARDS_API_PATH}/`)
+    ) {
+      try {
+        const dbContext = await getDbContext();
+        if (!dbContext) {
+          sendJson(res, 503, {
+            error: "Local SQLite is unavailable in this environment.",
+          });
+          return;
+        }
+        const boardId = decodePathSegment(url.pathname.slice(BOARDS_API_PATH.length + 1));
+        await handleBoardsRequest(
+          dbContext,
+          req,
+          res,
+          boardId,
+          sessions.isValid(readBearerToken(req)),
+        );
+      } catch (error) {
+        sendError(res, error);
+      }
+      return;
+    }
+
+    if (!url.pathname.startsWith(API_PREFIX)) {
+      next();
+      return;
+    }
+
+    const [encodedId, subresource, detail] = url.pathname
+      .slice(API_PREFIX.length)
+      .split("/");
+
+    try {
+      const boardId = decodePathSegment(encodedId);
+      if (!boardId) {
+        sendJson(res, 400, { error: "Missing board id" });
+        return;
+      }
+
+      const dbContext = await getDbContext();
+      if (!dbContext) {
+        sendJson(res, 503, {
+          error: "Local SQLite is unavailable in this environment.",
+        });
+        return;
+      }
+
+      if (subresource === "claims") {
+        await handleClaimRequest(dbContext, req, res, boardId, streams);
+        live.refresh(boardId);
+        return;
+      }
+
+      if (subresource === "ops") {
+        if (!sessions.isValid(readBearerToken(req))) {
+          sendJson(res, 401, { error: "Admin session required" });
+          return;
+        }
+        await handleOpsRequest(dbContext, req, res, boardId, streams);
+        live.refresh(boardId);
+        return;
+      }
+
+      if (subresource === "history") {
+        if (!sessions.isValid(readBearerToken(req))) {
+          sendJson(res, 401, { error: "Admin session required" });
+          return;
+        }
+        handleHistoryRequest(dbContext, req, res, boardId, detail);
+        return;
+      }
+
+      if (subresource === "audit") {
+        handleAuditRequest(dbContext, req, res, boardId);
+        return;
+      }
+
+      if (subresource === "stream") {
+        handleStreamRequest(dbContext, req, res, boardId, streams);
+        return;
+      }
+
+      if (subresource === "live") {
+        handleLiveStreamRequest(req, res, boardId, live);
+        return;
+      }
+
+      if (subresource) {
+        sendJson(res, 404, { error: "Not found" });
+        return;
+      }
+
+      if (method === "GET") {
+        const row = dbContext.selectStmt.get(boardId) as BoardRow | undefined;
+        sendJson(res, 200, {
+          data: row ? JSON.parse(row.data) : null,
+          revision: row?.revision ?? 0,
+        });
+        return;
+      }
+
+      sendJson(res, 405, { error: "Method not allowed" });
+    } catch (error) {
+      sendError(res, error);
+    }
+  };
+
+  return {
+    handle,
+    isAvailable: async () => (await getDbContext()) !== null,
+    close: async () => {
+      live.close();
+      const context = await dbContextPromise?.catch(() => null);
+      context?.db.close();
+    },
+  };
+};
@@ -15,9 +15,35 @@ export interface GridCell {
   col: number;
   player: string | null;
   status: SquareStatus;
+  /** ISO time a viewer requested the square; only set while pending. */
+  requestedAt?: string;
+}
+
+export type PayoutPeriod = "q1" | "halftime" | "q3" | "final";
+
+export interface BonusSquare {
+  row: number;
+  col: number;
+  squareNumber: number;
+  playerName: string | null;
+  status: SquareStatus;
+}
+
+export type UnclaimedPrizeRule =
+  | "rollover"
+  | "split_all_owners"
+  | "nearest_claimed"
+  | "house";
+
+export interface UnclaimedResolution {
+  configuredRule: UnclaimedPrizeRule;
+  appliedRule: UnclaimedPrizeRule;
+  rolloverTo: PayoutPeriod | null;
+  recipients: BonusSquare[];
 }
 
 export interface GameResult {
+  period: PayoutPeriod;
   homeScore: number;
   awayScore: number;
   homeLastDigit: number;
@@ -27,15 +53,347 @@ export interface GameResult {
   winnerSquareNumber: number;
   winnerName: string | null;
   winnerStatus: SquareStatus;
+  reverseWinner: BonusSquare | null;
+  neighborWinners: BonusSquare[];
+  unclaimedResolution: UnclaimedResolution | null;
   submittedAt: string;
 }
 
+/** Score at the end of a period before the final, kept so its result can be recorded later. */
+export interface PeriodScoreCapture {
+  period: Exclude<PayoutPeriod, "final">;
+  homeScore: number;
+  awayScore: number;
+  capturedAt: string;
+  /** "admin" once an admin has corrected the captured score. */
+  source: "live_feed" | "admin";
+  /** False when the feed skipped past the boundary and this is the last score seen before it. */
+  isExact: boolean;
+}
+
+export type PayoutRoundingMode = "cents" | "whole_dollar" | "five_dollars";
+
+export interface BonusPrizeRules {
+  reverseEnabled: boolean;
+  reverseSharePercent: number;
+  neighborsEnabled: boolean;
+  neighborSharePercent: number;
+  neighborsIncludeDiagonals: boolean;
+}
+
+export interface PayoutRules {
+  periodPercentages: Record<PayoutPeriod, number>;
+  houseCutPercent: number;
+  houseCutLabel: string;
+  fixedPrizes: Record<PayoutPeriod, number>;
+  rounding: PayoutRoundingMode;
+  bonusPrizes: BonusPrizeRules;
+  unclaimedRule: UnclaimedPrizeRule;
+}
+
+export interface PayoutBreakdown {
+  grossPot: number;
+  houseCut: number;
+  fixedPrizeTotal: number;
+  distributablePot: number;
+  periodPayouts: Record<PayoutPeriod, number>;
+  roundingRemainder: number;
+}
+
+export type PayoutAwardKind = "winner" | "reverse" | "neighbor" | "redistribution";
+
+export interface PayoutAward {
+  period: PayoutPeriod;
+  kind: PayoutAwardKind;
+  row: number;
+  col: number;
+  playerName: string | null;
+  amount: number;
+}
+
+export interface UnclaimedPayoutOutcome {
+  period: PayoutPeriod;
+  rule: UnclaimedPrizeRule;
+  amount: number;
+  rolloverTo: PayoutPeriod | null;
+  recipientCount: number;
+  houseAmount: number;
+}
+
+export interface PayoutSettlement {
+  awards: PayoutAward[];
+  unclaimed: UnclaimedPayoutOutcome[];
+  rolledInByPeriod: Partial<Record<PayoutPeriod, number>>;
+}
+
+export type PaymentMethod = "cash" | "venmo" | "paypal" | "zelle" | "other";
+
+export interface PlayerPayment {
+  /** Normalized player name, matching how squares are grouped per player. */
+  playerKey: string;
+  playerName: string;
+  amountPaid: number;
+  method: PaymentMethod | null;
+  notes: string;
+  updatedAt: string;
+}
+
+export interface PaymentLedgerEntry {
+  playerKey: string;
+  playerName: string;
+  squareCount: number;
+  amountOwed: number;
+  amountPaid: number;
+  /** Positive while the player still owes; negative when they overpaid. */
+  balanceDue: number;
+  amountWon: number;
+  /** Positive means the pool pays the player; negative means they owe the pool. */
+  netSettlement: number;
+  method: PaymentMethod | null;
+  notes: string;
+}
+
+export type BoardRowTeam = "home" | "away";
+
 export interface GameSettings {
-  costPerSquare: number;
   homeTeamName: string;
   awayTeamName: string;
+  /** Kickoff date as YYYY-MM-DD; drives live feed lookup and score unlock. */
+  gameDate: string;
+  /** Optional ESPN event ID that skips the scoreboard lookup by team names. */
+  eventId: string | null;
+  /** Where live scores and plays come from. */
+  liveFeedProvider: LiveFeedProviderId;
+  /** Mock feed file URL, used when `liveFeedProvider` is "mock". */
+  mockFeedUrl: string | null;
+  /** What happens when the live feed reports the game as final. */
+  autoFinalize: AutoFinalizeMode;
+  /** Which team's last digit is read from the row labels. */
+  rowTeam: BoardRowTeam;
+}
+
+export interface FairDraw {
+  algorithm: string;
+  /** SHA-256 of the secret seed, published before the board locks. */
+  commitment: string;
+  committedAt: string;
+  /** Revealed at lock; null while the draw is only committed. */
+  seed: string | null;
+  /** Hash of square ownership at lock, mixed into the permutation. */
+  gridHash: string | null;
+  revealedAt: string | null;
+  /** Commitments this one replaced before the lock, oldest first. */
+  previousCommitments: PreviousDrawCommitment[];
+}
+
+/** A replaced commitment stays listed so players can see the draw was re-committed. */
+export interface PreviousDrawCommitment {
+  commitment: string;
+  committedAt: string;
+  replacedAt: string;
+}
+
+export interface FairDrawVerification {
+  commitmentMatches: boolean;
+  labelsMatch: boolean;
+  /** False when squares changed after the draw; informational only. */
+  gridUnchanged: boolean;
+  expectedRowLabels: number[];
+  expectedColLabels: number[];
+}
+
+export interface PersistedState {
+  /** `BOARD_STATE_VERSION` of the app that wrote it; see `services/boardStateMigrations.ts`. */
+  version: number;
+  pricePerSquare: number;
+  isLocked: boolean;
+  rowLabels: number[];
+  colLabels: number[];
+  grid: GridCell[][];
+  periodResults: GameResult[];
+  payoutRules: PayoutRules;
+  gameSettings: GameSettings;
+  fairDraw: FairDraw | null;
+  claimHoldMinutes: number;
+  payments: PlayerPayment[];
+  /** Scores taken from the live feed at the end of Q1, halftime and Q3. */
+  periodScores: PeriodScoreCapture[];
+}
+
+/** Board-wide values replaced wholesale; squares, draw, lock and results have their own ops. */
+export type BoardOpFields = Pick<
+  PersistedState,
+  | "pricePerSquare"
+  | "payoutRules"
+  | "gameSettings"
+  | "claimHoldMinutes"
+  | "payments"
+  | "periodScores"
+>;
+
+export type BoardOp =
+  | { type: "assign_square"; row: number; col: number; player: string }
+  | {
+      type: "request_square";
+      row: number;
+      col: number;
+      player: string;
+      requestedAt?: string;
+    }
+  | { type: "approve_square"; row: number; col: number }
+  | { type: "clear_square"; row: number; col: number }
+  | {
+      type: "shuffle";
+      rowLabels: number[];
+      colLabels: number[];
+      fairDraw: FairDraw | null;
+    }
+  | { type: "lock"; isLocked: boolean }
+  | { type: "finalize"; periodResults: GameResult[] }
+  | { type: "set_fields"; fields: Partial<BoardOpFields> }
+  | { type: "replace_state"; state: PersistedState }
+  | { type: "reset_board"; state: PersistedState }
+  | {
+      type: "restore";
+      /** The history revision whose state is being brought back. */
+      revision: number;
+      action: BoardRestoreAction;
+      state: PersistedState;
+    };
+
+export type BoardRestoreAction = "undo" | "redo" | "restore";
+
+export type BoardHistoryAction = "edit" | "request" | BoardRestoreAction;
+
+export interface BoardHistoryEntry {
+  revision: number;
+  /** Admin email on Supabase, "admin" in local dev, or the player for square requests. */
+  author: string;
+  action: BoardHistoryAction;
+  /** Set for undo, redo and restore: the revision whose state was brought back. */
+  restoredFrom: number | null;
+  createdAt: string;
 }
 
+export type AuditAction =
+  | "assign_square"
+  | "delete_square"
+  | "request_square"
+  | "approve_square"
+  | "shuffle"
+  | "lock"
+  | "unlock"
+  | "finalize"
+  | "update_settings"
+  | "record_payment"
+  | "replace_board"
+  | "reset_board"
+  | BoardRestoreAction;
+
+/** One human-readable change; `before` and `after` are empty when there was no value. */
+export interface AuditChange {
+  action: AuditAction;
+  target: string;
+  before: string;
+  after: string;
+}
+
+export interface AuditEntry extends AuditChange {
+  id: number;
+  revision: number;
+  actor: string;
+  createdAt: string;
+}
+
+/** Ops saved together; `revision` is the board revision they produced. */
+export interface BoardOpBatch {
+  revision: number;
+  ops: BoardOp[];
+}
+
+export interface BoardStateSnapshot {
+  /** Raw stored payload; normalize before use. */
+  data: unknown;
+  /** Bumped on every write; 0 for a board that has never been saved. */
+  revision: number;
+}
+
+export type SaveBoardStateResult =
+  | { status: "saved"; revision: number }
+  | { status: "conflict"; current: BoardStateSnapshot }
+  | { status: "unauthorized" };
+
+export interface BoardOpsSave {
+  ops: BoardOp[];
+  /** The synced state the ops were derived from; null for a new board. */
+  baseState: PersistedState | null;
+  /** The caller's result of applying the ops. */
+  nextState: PersistedState;
+  baseRevision: number;
+}
+
+/** A save that could not reach the server, kept on this device until it is replayed. */
+export interface UnsyncedBoardSave extends BoardOpsSave {
+  id: number;
+  boardId: string;
+  queuedAt: string;
+}
+
+export interface BoardStoreListener {
+  onSnapshot: (snapshot: BoardStateSnapshot) => void;
+  /** Returns false when the batch does not follow the listener's revision; the store then reloads. */
+  onOps: (batch: BoardOpBatch) => boolean;
+}
+
+/** One persistence backend for board state. */
+export interface BoardStore {
+  /** Other viewers see saves, so only admins may write. */
+  isShared: boolean;
+  /** The stored board, or null when it has never been saved. */
+  load: (boardId: string) => Promise<BoardStateSnapshot | null>;
+  /** Saves only if nothing newer than `save.baseRevision` is stored. */
+  save: (boardId: string, save: BoardOpsSave) => Promise<SaveBoardStateResult>;
+  /** Follows changes made elsewhere; returns the unsubscribe function. */
+  subscribe: (boardId: string, listener: BoardStoreListener) => () => void;
+}
+
+export type BoardMergeField = Exclude<keyof PersistedState, "version" | "grid">;
+
+export type BoardConflict =
+  | { kind: "cell"; row: number; col: number }
+  | { kind: "field"; field: BoardMergeField };
+
+export interface BoardSummary {
+  id: string;
+  name: string;
+  archived: boolean;
+  /** Null for the deployment's default board when it predates the directory. */
+  createdAt: string | null;
+}
+
+/** Portable copy of one board, written by Export and read back by Import on any backend. */
+export interface BoardExportFile {
+  format: "sb-lx-squares-board";
+  version: number;
+  exportedAt: string;
+  board: { id: string; name: string | null };
+  /** Raw board state; normalize before use. */
+  state: unknown;
+}
+
+export type AdminAuthMode = "server" | "supabase" | "local";
+
+export interface AdminSession {
+  mode: AdminAuthMode;
+  /** Bearer token for the board API; Supabase keeps its own session. */
+  token: string | null;
+  expiresAt: string | null;
+}
+
+export type BoardRoute =
+  | { kind: "directory" }
+  | { kind: "board"; boardId: string };
+
 export type DigitProbabilityMatrix = number[][];
 
 export type SquareOddsSourceMode = "full" | "baseline";
@@ -95,6 +453,71 @@ export interface LiveCommentarySentiment {
   neutral: number;
 }
 
+export type LiveFeedProviderId = "espn" | "mock";
+
+/** "approve" waits for one click; "auto" records the final score after a countdown. */
+export type AutoFinalizeMode = "off" | "approve" | "auto";
+
+export interface LiveFeedQuery {
+  homeTeamName: string;
+  awayTeamName: string;
+  gameDate?: string;
+  eventId?: string;
+}
+
+export interface LiveFeedProvider {
+  id: LiveFeedProviderId;
+  /** The current game, or null when the feed has nothing for this matchup. */
+  fetchSnapshot: (query: LiveFeedQuery) => Promise<LiveGameSnapshot | null>;
+  /** How long to wait before asking again after this snapshot. */
+  getPollIntervalMs: (snapshot: LiveGameSnapshot | null) => number;
+}
+
+/** What the server's live poller last computed for a board; every viewer gets the same one. */
+/** A final score from the feed that the server records at `recordAt` unless an admin cancels. */
+export interface PendingFinalScore {
+  /** Matches `FinalScoreCheck.key`, so a cancelled score is recognized. */
+  key: string;
+  homeScore: number;
+  awayScore: number;
+  recordAt: string;
+}
+
+export interface LiveFeedUpdate {
+  /** False while the board is unlocked or scored and nothing is polled. */
+  isActive: boolean;
+  snapshot: LiveGameSnapshot | null;
+  /** The pregame model the realtime odds start from. */
+  squareOdds: SquareOddsComputationResult | null;
+  realtimeOdds: RealtimeSquareOddsComputationResult | null;
+  /** Set while a confirmed final score waits out its countdown in "auto" mode. */
+  pendingFinalScore: PendingFinalScore | null;
+  /** Set when the last poll failed; the previous snapshot and odds are kept. */
+  error: string | null;
+}
+
+export type EspnPayloadKind = "scoreboard" | "summary";
+
+/** One ESPN request seen while recording a live session. */
+export interface LiveSessionEntry {
+  at: string;
+  kind: EspnPayloadKind;
+  url: string;
+  /** The parsed response body; left out when it matches the previous one for this URL. */
+  payload?: unknown;
+  unchanged?: boolean;
+  /** Set instead of `payload` when the request failed. */
+  error?: string;
+}
+
+export interface LiveSession {
+  format: "sb-lx-espn-session";
+  version: number;
+  startedAt: string;
+  query: LiveFeedQuery;
+  entries: LiveSessionEntry[];
+}
+
 export interface LiveGameSnapshot {
   eventId: string;
   fetchedAt: string;
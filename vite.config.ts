@@ -8,7 +8,7 @@ export default defineConfig(async ({ mode, command }) => {
 
   if (command === "serve" && env.VITE_USE_LOCAL_SQLITE !== "false") {
     const { localSqliteBoardPlugin } = await import("./localSqliteBoardPlugin");
-    plugins.push(localSqliteBoardPlugin());
+    plugins.push(localSqliteBoardPlugin({ adminPasscode: env.ADMIN_PASSCODE }));
   }
 
   return {